@@ -30,6 +30,13 @@ export default function TabsLayout() {
                 <Stack.Screen name="zen" options={{ headerShown: false }} />
                 <Stack.Screen name="pick-project" options={{ headerShown: false }} />
                 <Stack.Screen name="legal" options={{ headerShown: false }} />
+                <Stack.Screen name="backup" options={{ headerShown: false }} />
+                <Stack.Screen name="import-tasks" options={{ headerShown: false }} />
+                <Stack.Screen name="todo-txt" options={{ headerShown: false }} />
+                <Stack.Screen name="trash" options={{ headerShown: false }} />
+                <Stack.Screen name="sync" options={{ headerShown: false }} />
+                <Stack.Screen name="holidays" options={{ headerShown: false }} />
+                <Stack.Screen name="series" options={{ headerShown: false }} />
             </Stack>
         </View>
     );
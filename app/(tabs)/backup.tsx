@@ -0,0 +1,357 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useTodoList } from "@/context/TodoListContext";
+import { useSettings } from "@/context/SettingsContext";
+import { Todo } from "@/types/todo";
+import {
+    BackupError,
+    BackupFile,
+    ImportMode,
+    createBackup,
+    loadSortPreference,
+    mergeById,
+    parseBackup,
+    pickTextFile,
+    saveSortPreference,
+    shareBackup,
+} from "@/utils/backup";
+import { cancelTodoReminders, formatReconcileReport, scheduleTodoReminders } from "@/utils/notifications";
+import { buildICalendar, shareICalendar } from "@/utils/ical";
+import { DEFAULT_LIST_ID } from "@/types/todoList";
+
+/**
+ * Notification ids from another device (or an old install) mean nothing here:
+ * reschedule reminders of active tasks and drop the ids of archived ones.
+ */
+async function prepareRestoredTodos(todos: Todo[]): Promise<Todo[]> {
+    return await Promise.all(
+        todos.map((t) =>
+            t.archivedAt
+                ? { ...t, reminders: (t.reminders || []).map((r) => ({ ...r, notificationId: undefined })) }
+                : scheduleTodoReminders(t)
+        )
+    );
+}
+
+export default function BackupScreen() {
+    const insets = useSafeAreaInsets();
+    const { todos, replaceTodos, reconcileReminders } = useTodoStore();
+    const { lists, replaceLists } = useTodoList();
+    const { settings, replaceSettings } = useSettings();
+    const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    // null exports every project
+    const [calendarListId, setCalendarListId] = useState<string | null>(null);
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const handleExport = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        try {
+            const sort = await loadSortPreference();
+            await shareBackup(createBackup({ todos, lists, settings, sort }));
+        } catch (e) {
+            console.error("Failed to export backup:", e);
+            Alert.alert("Export Failed", e instanceof BackupError ? e.message : "Could not create the backup file.");
+        }
+    }, [todos, lists, settings]);
+
+    const calendarTodos = useMemo(
+        () => todos.filter(
+            (t) => !t.archivedAt && (calendarListId === null || (t.listId || DEFAULT_LIST_ID) === calendarListId)
+        ),
+        [todos, calendarListId]
+    );
+
+    const handleExportCalendar = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        try {
+            const name = lists.find((l) => l.id === calendarListId)?.name || "All Projects";
+            const { text, warnings } = buildICalendar(calendarTodos, lists, name);
+            await shareICalendar(text, name);
+            if (warnings.length > 0) {
+                Alert.alert("Exported With Changes", warnings.map((w) => `• ${w}`).join("\n"));
+            }
+        } catch (e) {
+            console.error("Failed to export calendar:", e);
+            Alert.alert("Export Failed", e instanceof BackupError ? e.message : "Could not create the calendar file.");
+        }
+    }, [calendarTodos, lists, calendarListId]);
+
+    const handlePickFile = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        try {
+            const picked = await pickTextFile();
+            if (picked === null) return;
+            setPendingBackup(parseBackup(picked.text));
+        } catch (e) {
+            console.error("Failed to read backup:", e);
+            Alert.alert("Invalid Backup", e instanceof BackupError ? e.message : "Could not read this file.");
+        }
+    }, []);
+
+    const applyImport = useCallback(async (backup: BackupFile, mode: ImportMode) => {
+        setIsWorking(true);
+        // Writes happen one collection at a time; a failure part way leaves the earlier ones saved
+        let partlySaved = false;
+        try {
+            const { data } = backup;
+
+            if (mode === "replace") {
+                for (const todo of todos) {
+                    await cancelTodoReminders(todo);
+                }
+                await replaceTodos(await prepareRestoredTodos(data.todos));
+                partlySaved = true;
+                await replaceLists(data.lists);
+                if (data.settings) {
+                    await replaceSettings(data.settings);
+                }
+                if (data.sort) {
+                    await saveSortPreference(data.sort);
+                }
+                const repaired = formatReconcileReport(await reconcileReminders());
+
+                await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                Alert.alert(
+                    "Backup Restored",
+                    `${data.todos.length} tasks and ${data.lists.length} projects restored.` +
+                    (repaired ? ` ${repaired}` : ""),
+                    [{ text: "OK", onPress: handleBack }]
+                );
+            } else {
+                const mergedLists = mergeById(lists, data.lists);
+                const mergedTodos = mergeById(todos, data.todos);
+                const restored = await prepareRestoredTodos(mergedTodos.added);
+
+                await replaceLists(mergedLists.merged);
+                partlySaved = true;
+                await replaceTodos([...todos, ...restored]);
+                const repaired = formatReconcileReport(await reconcileReminders());
+
+                await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                Alert.alert(
+                    "Backup Merged",
+                    `${mergedTodos.added.length} new tasks and ${mergedLists.added.length} new projects added. ` +
+                    `${data.todos.length - mergedTodos.added.length} tasks were already here.` +
+                    (repaired ? ` ${repaired}` : ""),
+                    [{ text: "OK", onPress: handleBack }]
+                );
+            }
+            setPendingBackup(null);
+        } catch (e) {
+            console.error("Failed to import backup:", e);
+            Alert.alert(
+                "Import Failed",
+                partlySaved
+                    ? "Something went wrong while importing. Part of the backup was saved; check your tasks and projects."
+                    : "Something went wrong while importing. Your data was not changed."
+            );
+        } finally {
+            setIsWorking(false);
+        }
+    }, [todos, lists, replaceTodos, reconcileReminders, replaceLists, replaceSettings, handleBack]);
+
+    const handleReplace = useCallback(() => {
+        if (!pendingBackup) return;
+        Alert.alert(
+            "Replace Everything?",
+            "All tasks, projects and settings on this device will be replaced by the backup.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Replace",
+                    style: "destructive",
+                    onPress: () => applyImport(pendingBackup, "replace"),
+                },
+            ]
+        );
+    }, [pendingBackup, applyImport]);
+
+    const handleMerge = useCallback(() => {
+        if (!pendingBackup) return;
+        applyImport(pendingBackup, "merge");
+    }, [pendingBackup, applyImport]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Backup & Restore
+                    </Text>
+                </View>
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Export */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Export
+                    </Text>
+                    <Pressable
+                        onPress={handleExport}
+                        disabled={isWorking}
+                        className="flex-row items-center gap-4 border-5 border-black bg-neo-accent p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark"
+                    >
+                        <Ionicons name="share-sharp" size={28} color="black" />
+                        <View className="flex-1">
+                            <Text className="text-lg font-black uppercase text-black">
+                                Export Backup
+                            </Text>
+                            <Text className="text-xs font-bold uppercase text-black/60">
+                                {todos.length} tasks · {lists.length} projects · settings
+                            </Text>
+                        </View>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Calendar Export */}
+                <Animated.View entering={FadeInDown.delay(150).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Calendar (.ics)
+                    </Text>
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        className="mb-3"
+                        contentContainerStyle={{ gap: 8 }}
+                    >
+                        {[{ id: null, name: "All Projects" }, ...lists].map((list) => {
+                            const isSelected = calendarListId === list.id;
+                            return (
+                                <Pressable
+                                    key={list.id ?? "all"}
+                                    onPress={() => setCalendarListId(list.id)}
+                                    className={`border-4 border-black px-3 py-2 dark:border-neo-primary ${
+                                        isSelected ? "bg-neo-secondary" : "bg-white dark:bg-neo-dark-surface"
+                                    }`}
+                                >
+                                    <Text
+                                        className={`text-xs font-black uppercase ${
+                                            isSelected ? "text-black" : "text-black dark:text-white"
+                                        }`}
+                                    >
+                                        {list.name}
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                    </ScrollView>
+                    <Pressable
+                        onPress={handleExportCalendar}
+                        disabled={isWorking || calendarTodos.length === 0}
+                        className={`flex-row items-center gap-4 border-5 border-black bg-white p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark ${
+                            calendarTodos.length === 0 ? "opacity-50" : ""
+                        }`}
+                    >
+                        <Ionicons name="calendar-sharp" size={28} color="#FF0055" />
+                        <View className="flex-1">
+                            <Text className="text-lg font-black uppercase text-black dark:text-white">
+                                Export to Calendar
+                            </Text>
+                            <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                {calendarTodos.length} open tasks as VTODO
+                            </Text>
+                        </View>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Import */}
+                <Animated.View entering={FadeInDown.delay(200).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Import
+                    </Text>
+                    <Pressable
+                        onPress={handlePickFile}
+                        disabled={isWorking}
+                        className="flex-row items-center gap-4 border-5 border-black bg-white p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                    >
+                        <Ionicons name="folder-open-sharp" size={28} color="#FF0055" />
+                        <View className="flex-1">
+                            <Text className="text-lg font-black uppercase text-black dark:text-white">
+                                Choose Backup File
+                            </Text>
+                            <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                A .json file exported from BrutalDo
+                            </Text>
+                        </View>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Import Preview */}
+                {pendingBackup && (
+                    <Animated.View
+                        entering={FadeInDown.duration(300)}
+                        className="border-5 border-black bg-white p-5 shadow-brutal dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                    >
+                        <Text className="mb-1 text-lg font-black uppercase text-black dark:text-white">
+                            Ready to Import
+                        </Text>
+                        {!!pendingBackup.exportedAt && (
+                            <Text className="mb-3 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                Exported {new Date(pendingBackup.exportedAt).toLocaleString()}
+                            </Text>
+                        )}
+                        <Text className="mb-5 text-sm font-bold text-gray-700 dark:text-gray-300">
+                            {pendingBackup.data.todos.length} tasks ·{" "}
+                            {pendingBackup.data.lists.length} projects
+                            {pendingBackup.data.settings ? " · settings" : ""}
+                        </Text>
+
+                        <Pressable
+                            onPress={handleMerge}
+                            disabled={isWorking}
+                            className="mb-3 flex-row items-center justify-center gap-2 border-5 border-black bg-neo-green p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="git-merge-sharp" size={20} color="black" />
+                            <Text className="text-base font-black uppercase text-black">
+                                Merge With Current Data
+                            </Text>
+                        </Pressable>
+                        <Pressable
+                            onPress={handleReplace}
+                            disabled={isWorking}
+                            className="flex-row items-center justify-center gap-2 border-5 border-black bg-neo-primary p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="swap-horizontal-sharp" size={20} color="white" />
+                            <Text className="text-base font-black uppercase text-white">
+                                Replace Everything
+                            </Text>
+                        </Pressable>
+                    </Animated.View>
+                )}
+            </ScrollView>
+        </View>
+    );
+}
@@ -22,7 +22,6 @@ import Animated, {
     Easing,
 } from "react-native-reanimated";
 import { Ionicons } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Haptics from "expo-haptics";
 import { twMerge } from "tailwind-merge";
 import { clsx } from "clsx";
@@ -30,19 +29,29 @@ import { clsx } from "clsx";
 import DatePickerPanel from "@/components/DatePickerPanel";
 import SubtaskList from "@/components/SubTaskList";
 import PriorityPicker from "@/components/PriorityPicker";
-import { Todo, Subtask, Priority, Reminder, getReminders } from "@/types/todo";
+import { Todo, Subtask, Priority, Reminder, TimeMode, getReminders } from "@/types/todo";
 import { RecurrencePattern } from "@/types/recurrence";
 import { useTodoList } from "@/context/TodoListContext";
+import { useTodoStore } from "@/context/TodoStoreContext";
 import {
     cancelNotification,
     scheduleNotification,
 } from "@/utils/notifications";
+import {
+    editThisAndFuture,
+    editThisOccurrence,
+    getDueDateForDay,
+    getIntraDayTimes,
+    isRecurrenceActive,
+    realignDueDate,
+} from "@/utils/recurrence";
+import { getDeviceTimeZone } from "@/utils/timezone";
+import { detachRelativeReminders, getRelativeReminderDate, resolveRelativeReminders } from "@/utils/reminders";
 
 function cn(...inputs: (string | undefined | null | false)[]) {
     return twMerge(clsx(inputs));
 }
 
-const STORAGE_KEY = "@neo_brutal_todos_v2";
 const CARD_COLORS_COUNT = 6;
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
@@ -52,6 +61,28 @@ const TIMING_CONFIG = {
     easing: Easing.out(Easing.quad),
 };
 
+const TIME_MODE_OPTIONS: { value: TimeMode; label: string }[] = [
+    { value: "floating", label: "Where I Am" },
+    { value: "anchored", label: "Fixed Zone" },
+];
+
+type EditScope = "occurrence" | "series";
+
+// Ask whether an edit to a recurring task is a one-off or changes the series
+const askEditScope = () =>
+    new Promise<EditScope | null>((resolve) => {
+        Alert.alert(
+            "Edit Recurring Task",
+            "Apply these changes to only this occurrence, or to this and future occurrences?",
+            [
+                { text: "Cancel", style: "cancel", onPress: () => resolve(null) },
+                { text: "Only This Occurrence", onPress: () => resolve("occurrence") },
+                { text: "This And Future", onPress: () => resolve("series") },
+            ],
+            { cancelable: true, onDismiss: () => resolve(null) }
+        );
+    });
+
 export default function CreateTaskScreen() {
     const params = useLocalSearchParams<{ todoId?: string }>();
     const isEditing = !!params.todoId;
@@ -59,6 +90,7 @@ export default function CreateTaskScreen() {
     const insets = useSafeAreaInsets();
     const colorScheme = useColorScheme();
     const { selectedListId } = useTodoList();
+    const { isLoading: isStoreLoading, getTodo, addTodo, updateTodo } = useTodoStore();
     const inputRef = useRef<TextInput>(null);
     const scrollViewRef = useRef<KeyboardAwareScrollView>(null);
 
@@ -75,6 +107,8 @@ export default function CreateTaskScreen() {
     const [recurrence, setRecurrence] = useState<RecurrencePattern | undefined>();
     const [subtasks, setSubtasks] = useState<Subtask[]>([]);
     const [priority, setPriority] = useState<Priority | undefined>();
+    const [timeMode, setTimeMode] = useState<TimeMode>("floating");
+    const [timeZone, setTimeZone] = useState(getDeviceTimeZone);
     const [existingTodo, setExistingTodo] = useState<Todo | null>(null);
     const [isLoading, setIsLoading] = useState(isEditing);
 
@@ -85,33 +119,25 @@ export default function CreateTaskScreen() {
     }));
 
     useEffect(() => {
-        if (params.todoId) {
+        if (params.todoId && !isStoreLoading) {
             loadExistingTodo(params.todoId)
         }
-    }, [params.todoId]);
-
-    const loadExistingTodo = async (todoId: string) => {
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const todos: Todo[] = JSON.parse(stored);
-                const todo = todos.find((t) => t.id === todoId);
-                if (todo) {
-                    setExistingTodo(todo);
-                    setTaskTitle(todo.text);
-                    setDueDate(todo.dueDate);
-                    // Load reminders (with migration from legacy format)
-                    setReminders(getReminders(todo));
-                    setRecurrence(todo.recurrence);
-                    setSubtasks(todo.subtasks || []);
-                    setPriority(todo.priority);
-                }
-            }
-        } catch (e) {
-            console.error("Failed to load todo:", e);
-        } finally {
-            setIsLoading(false);
+    }, [params.todoId, isStoreLoading]);
+
+    const loadExistingTodo = (todoId: string) => {
+        const todo = getTodo(todoId);
+        if (todo) {
+            setExistingTodo(todo);
+            setTaskTitle(todo.text);
+            setDueDate(todo.dueDate);
+            setReminders(getReminders(todo));
+            setRecurrence(todo.recurrence);
+            setSubtasks(todo.subtasks || []);
+            setPriority(todo.priority);
+            setTimeMode(todo.timeMode || "floating");
+            if (todo.timeMode === "anchored" && todo.timeZone) setTimeZone(todo.timeZone);
         }
+        setIsLoading(false);
     };
 
     const handleBack = useCallback(() => {
@@ -122,15 +148,29 @@ export default function CreateTaskScreen() {
         }
     }, []);
 
+    // Anchored tasks place their times in their own time zone
+    const plannedTimeZone = timeMode === "anchored" ? timeZone : getDeviceTimeZone();
+
+    // Relative reminders follow the due date
+    const applyDueDate = useCallback((date: string | undefined) => {
+        setDueDate(date);
+        setReminders((prev) =>
+            date ? resolveRelativeReminders(prev, date, plannedTimeZone) : detachRelativeReminders(prev)
+        );
+    }, [plannedTimeZone]);
+
     const handleSetDueDate = useCallback((date: Date) => {
-        const newDueDate = new Date(date);
-        newDueDate.setHours(23, 59, 59, 999);
-        setDueDate(newDueDate.toISOString());
+        applyDueDate(getDueDateForDay(date, recurrence, plannedTimeZone).toISOString());
+    }, [recurrence, plannedTimeZone, applyDueDate]);
+
+    const handleSetTimeMode = useCallback(async (mode: TimeMode) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setTimeMode(mode);
     }, []);
 
     const handleClearDueDate = useCallback(() => {
-        setDueDate(undefined);
-    }, []);
+        applyDueDate(undefined);
+    }, [applyDueDate]);
 
     const handleAddReminder = useCallback(async (date: Date) => {
         if (date <= new Date()) {
@@ -149,13 +189,26 @@ export default function CreateTaskScreen() {
         setReminders((prev) => [...prev, newReminder]);
     }, []);
 
+    const handleAddRelativeReminder = useCallback(async (offsetMinutes: number) => {
+        if (!dueDate) return;
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+        const newReminder: Reminder = {
+            id: Date.now().toString(),
+            date: getRelativeReminderDate(offsetMinutes, new Date(dueDate), plannedTimeZone).toISOString(),
+            offsetMinutes,
+        };
+        setReminders((prev) => [...prev, newReminder]);
+    }, [dueDate, plannedTimeZone]);
+
     const handleRemoveReminder = useCallback((reminderId: string) => {
         setReminders((prev) => prev.filter((r) => r.id !== reminderId));
     }, []);
 
     const handleSetRecurrence = useCallback((pattern: RecurrencePattern) => {
         setRecurrence(pattern);
-    }, []);
+        applyDueDate(realignDueDate(dueDate, pattern, plannedTimeZone));
+    }, [dueDate, plannedTimeZone, applyDueDate]);
 
     const handleClearRecurrence = useCallback(() => {
         setRecurrence(undefined);
@@ -195,18 +248,20 @@ export default function CreateTaskScreen() {
         }
 
         Keyboard.dismiss();
+
+        // Removing the repeat ends the series, so there is nothing to ask
+        let editScope: EditScope = "series";
+        if (existingTodo && isRecurrenceActive(existingTodo.recurrence) && isRecurrenceActive(recurrence)) {
+            const scope = await askEditScope();
+            if (!scope) return;
+            editScope = scope;
+        }
+
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
         try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            let todos: Todo[] = stored ? JSON.parse(stored) : [];
-
             // Cancel old notifications if editing
             if (existingTodo) {
-                // Cancel legacy notification
-                if (existingTodo.notificationId) {
-                    await cancelNotification(existingTodo.notificationId);
-                }
                 // Cancel all existing reminder notifications
                 const oldReminders = getReminders(existingTodo);
                 for (const reminder of oldReminders) {
@@ -216,14 +271,25 @@ export default function CreateTaskScreen() {
                 }
             }
 
+            // Several times a day: remind at each one unless reminders were picked
+            const remindersToSchedule: Reminder[] =
+                reminders.length === 0 && dueDate && recurrence && getIntraDayTimes(recurrence).length > 0
+                    ? [{ id: Date.now().toString(), date: dueDate }]
+                    : reminders;
+
+            // Relative reminders follow the due date in the zone the task is saved with
+            const resolvedReminders = resolveRelativeReminders(remindersToSchedule, dueDate, plannedTimeZone);
+
             // Schedule new notifications for all reminders
+            const todoId = existingTodo ? existingTodo.id : Date.now().toString();
             const scheduledReminders: Reminder[] = [];
-            for (const reminder of reminders) {
+            for (const reminder of resolvedReminders) {
                 const reminderDate = new Date(reminder.date);
                 if (reminderDate > new Date()) {
                     const notificationId = await scheduleNotification(
                         taskTitle.trim().toUpperCase(),
-                        reminderDate
+                        reminderDate,
+                        { todoId, reminderId: reminder.id }
                     );
                     scheduledReminders.push({
                         ...reminder,
@@ -239,27 +305,26 @@ export default function CreateTaskScreen() {
             }
 
             if (isEditing && existingTodo) {
-                todos = todos.map((t) =>
-                    t.id === existingTodo.id
-                        ? {
-                            ...t,
-                            text: taskTitle.trim().toUpperCase(),
-                            dueDate,
-                            // Clear legacy fields
-                            reminderDate: undefined,
-                            notificationId: undefined,
-                            // Use new reminders array
-                            reminders: scheduledReminders,
-                            recurrence,
-                            isRecurring: recurrence?.type !== "once" && !!recurrence,
-                            subtasks,
-                            priority,
-                        }
-                        : t
+                const changes: Partial<Todo> = {
+                    text: taskTitle.trim().toUpperCase(),
+                    dueDate,
+                    reminders: scheduledReminders,
+                    recurrence,
+                    isRecurring: recurrence?.type !== "once" && !!recurrence,
+                    subtasks,
+                    priority,
+                    timeMode,
+                    timeZone: plannedTimeZone,
+                };
+                await updateTodo(
+                    existingTodo.id,
+                    editScope === "occurrence"
+                        ? editThisOccurrence(existingTodo, changes)
+                        : editThisAndFuture(existingTodo, changes)
                 );
             } else {
                 const newTodo: Todo = {
-                    id: Date.now().toString(),
+                    id: todoId,
                     text: taskTitle.trim().toUpperCase(),
                     completed: false,
                     colorVariant: Math.floor(Math.random() * CARD_COLORS_COUNT),
@@ -270,12 +335,12 @@ export default function CreateTaskScreen() {
                     isRecurring: recurrence?.type !== "once" && !!recurrence,
                     subtasks,
                     priority,
+                    timeMode,
+                    timeZone: plannedTimeZone,
                 };
-                todos = [newTodo, ...todos];
+                await addTodo(newTodo);
             }
 
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(todos));
-
             if (router.canGoBack()) {
                 router.back();
             } else {
@@ -294,9 +359,13 @@ export default function CreateTaskScreen() {
         recurrence,
         subtasks,
         priority,
+        timeMode,
+        plannedTimeZone,
         isEditing,
         existingTodo,
         selectedListId,
+        addTodo,
+        updateTodo,
     ]);
 
     const handleCreateButtonPressIn = useCallback(() => {
@@ -402,10 +471,51 @@ export default function CreateTaskScreen() {
                         onSetDueDate={handleSetDueDate}
                         onClearDueDate={handleClearDueDate}
                         onAddReminder={handleAddReminder}
+                        onAddRelativeReminder={handleAddRelativeReminder}
                         onRemoveReminder={handleRemoveReminder}
                         onSetRecurrence={handleSetRecurrence}
                         onClearRecurrence={handleClearRecurrence}
                     />
+                    {(dueDate || reminders.length > 0) && (
+                        <View className="mt-4">
+                            <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                Times Follow
+                            </Text>
+                            <View className="flex-row gap-2">
+                                {TIME_MODE_OPTIONS.map((option) => {
+                                    const isSelected = timeMode === option.value;
+                                    return (
+                                        <Pressable
+                                            key={option.value}
+                                            onPress={() => handleSetTimeMode(option.value)}
+                                            className={cn(
+                                                "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                isSelected
+                                                    ? "bg-neo-purple"
+                                                    : "bg-white dark:bg-neo-dark-surface"
+                                            )}
+                                        >
+                                            <Text
+                                                className={cn(
+                                                    "text-xs font-black uppercase",
+                                                    isSelected
+                                                        ? "text-white"
+                                                        : "text-black dark:text-white"
+                                                )}
+                                            >
+                                                {option.label}
+                                            </Text>
+                                        </Pressable>
+                                    );
+                                })}
+                            </View>
+                            <Text className="mt-1 text-xs font-bold text-gray-500 dark:text-gray-400">
+                                {timeMode === "anchored"
+                                    ? `Stays on ${timeZone} time when you travel`
+                                    : "Keeps the same local time when you travel"}
+                            </Text>
+                        </View>
+                    )}
                 </Animated.View>
 
                 {/* Subtasks Section */}
@@ -0,0 +1,250 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert, TextInput, useColorScheme } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import DateTimePickerModal from "react-native-modal-datetime-picker";
+import * as Haptics from "expo-haptics";
+
+import { useSettings } from "@/context/SettingsContext";
+import { DEFAULT_HOLIDAYS, Holiday } from "@/types/settings";
+import { toDateKey } from "@/utils/recurrence";
+
+// MM-DD dates repeat every year; YYYY-MM-DD dates happen once
+const isYearly = (holiday: Holiday) => holiday.date.length === 5;
+
+const formatHolidayDate = (holiday: Holiday) => {
+    const [year, month, day] = isYearly(holiday)
+        ? [2000, ...holiday.date.split("-").map(Number)]
+        : holiday.date.split("-").map(Number);
+    return new Date(year, month - 1, day)
+        .toLocaleDateString("en-US", isYearly(holiday)
+            ? { month: "short", day: "numeric" }
+            : { month: "short", day: "numeric", year: "numeric" })
+        .toUpperCase();
+};
+
+// Calendar order, with yearly and one-off dates mixed by month and day
+const sortKey = (holiday: Holiday) => (isYearly(holiday) ? holiday.date : holiday.date.slice(5)) + holiday.date;
+
+export default function HolidaysScreen() {
+    const insets = useSafeAreaInsets();
+    const colorScheme = useColorScheme();
+    const { settings, updateHolidays } = useSettings();
+    const [name, setName] = useState("");
+    const [date, setDate] = useState<Date | null>(null);
+    const [everyYear, setEveryYear] = useState(true);
+    const [showDatePicker, setShowDatePicker] = useState(false);
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const sortedHolidays = useMemo(
+        () => [...settings.holidays].sort((a, b) => sortKey(a).localeCompare(sortKey(b))),
+        [settings.holidays]
+    );
+
+    const handleToggleEveryYear = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setEveryYear(prev => !prev);
+    }, []);
+
+    const handleDateConfirm = useCallback((picked: Date) => {
+        setDate(picked);
+        setShowDatePicker(false);
+    }, []);
+
+    const handleAdd = useCallback(async () => {
+        if (!name.trim() || !date) {
+            Alert.alert("Missing Details", "Give the holiday a name and pick its date.");
+            return;
+        }
+        const key = toDateKey(date);
+        const holiday: Holiday = {
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            name: name.trim(),
+            date: everyYear ? key.slice(5) : key,
+        };
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        await updateHolidays([...settings.holidays, holiday]);
+        setName("");
+        setDate(null);
+    }, [name, date, everyYear, settings.holidays, updateHolidays]);
+
+    const handleRemove = useCallback(async (holiday: Holiday) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        await updateHolidays(settings.holidays.filter(h => h.id !== holiday.id));
+    }, [settings.holidays, updateHolidays]);
+
+    const handleRestoreDefaults = useCallback(() => {
+        Alert.alert(
+            "Restore Default Holidays?",
+            "Your holiday list will be replaced with the bundled one.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Restore",
+                    style: "destructive",
+                    onPress: async () => {
+                        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        await updateHolidays(DEFAULT_HOLIDAYS);
+                    },
+                },
+            ]
+        );
+    }, [updateHolidays]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Holidays
+                    </Text>
+                </View>
+                <Pressable
+                    onPress={handleRestoreDefaults}
+                    className="h-12 items-center justify-center border-5 border-black bg-white px-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Text className="text-xs font-black uppercase text-black dark:text-white">
+                        Defaults
+                    </Text>
+                </Pressable>
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Add Holiday */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Add Holiday
+                    </Text>
+                    <TextInput
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="NAME"
+                        placeholderTextColor={colorScheme === "dark" ? "#666" : "#999"}
+                        className="mb-3 border-5 border-black bg-white p-4 font-bold text-base text-black dark:border-neo-primary dark:bg-neo-dark-surface dark:text-white"
+                    />
+                    <View className="mb-3 flex-row gap-3">
+                        <Pressable
+                            onPress={() => setShowDatePicker(true)}
+                            className="flex-1 flex-row items-center gap-2 border-4 border-black bg-white p-3 dark:border-neo-primary dark:bg-neo-dark-surface"
+                        >
+                            <Ionicons name="calendar-sharp" size={18} color="#FF0055" />
+                            <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                {date
+                                    ? date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+                                    : "Pick Date"}
+                            </Text>
+                        </Pressable>
+                        <Pressable
+                            onPress={handleToggleEveryYear}
+                            className={`flex-row items-center gap-2 border-4 border-black px-3 dark:border-neo-primary ${
+                                everyYear ? "bg-neo-secondary" : "bg-white dark:bg-neo-dark-surface"
+                            }`}
+                        >
+                            <Ionicons
+                                name={everyYear ? "checkbox-sharp" : "square-outline"}
+                                size={18}
+                                color={everyYear || colorScheme !== "dark" ? "black" : "white"}
+                            />
+                            <Text
+                                className={`text-xs font-black uppercase ${
+                                    everyYear ? "text-black" : "text-black dark:text-white"
+                                }`}
+                            >
+                                Every Year
+                            </Text>
+                        </Pressable>
+                    </View>
+                    <Pressable
+                        onPress={handleAdd}
+                        className="flex-row items-center justify-center gap-2 border-5 border-black bg-neo-green p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                    >
+                        <Ionicons name="add-sharp" size={20} color="black" />
+                        <Text className="text-base font-black uppercase text-black">
+                            Add Holiday
+                        </Text>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Holiday List */}
+                <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Your Holidays ({settings.holidays.length})
+                    </Text>
+                    <Text className="mb-4 text-xs font-bold text-gray-600 dark:text-gray-400">
+                        Recurring tasks set to skip holidays avoid these dates. The list is stored on this device.
+                    </Text>
+
+                    {sortedHolidays.length === 0 ? (
+                        <View className="items-center border-5 border-dashed border-gray-400 p-8 dark:border-neo-primary">
+                            <Ionicons name="calendar-outline" size={40} color="#999" />
+                            <Text className="mt-3 text-sm font-black uppercase text-gray-500 dark:text-gray-400">
+                                No holidays
+                            </Text>
+                        </View>
+                    ) : (
+                        sortedHolidays.map((holiday) => (
+                            <View
+                                key={holiday.id}
+                                className="mb-3 flex-row items-center gap-3 border-5 border-black bg-white p-4 shadow-brutal-sm dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                            >
+                                <View className="flex-1">
+                                    <Text
+                                        className="text-base font-black uppercase text-black dark:text-white"
+                                        numberOfLines={1}
+                                    >
+                                        {holiday.name}
+                                    </Text>
+                                    <Text className="mt-1 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                        {formatHolidayDate(holiday)} · {isYearly(holiday) ? "every year" : "once"}
+                                    </Text>
+                                </View>
+                                <Pressable
+                                    onPress={() => handleRemove(holiday)}
+                                    accessibilityLabel={`Remove ${holiday.name}`}
+                                    className="h-10 w-10 items-center justify-center border-4 border-black bg-neo-primary active:translate-x-[2px] active:translate-y-[2px] dark:border-neo-primary"
+                                >
+                                    <Ionicons name="close-sharp" size={18} color="white" />
+                                </Pressable>
+                            </View>
+                        ))
+                    )}
+                </Animated.View>
+            </ScrollView>
+
+            <DateTimePickerModal
+                isVisible={showDatePicker}
+                mode="date"
+                onConfirm={handleDateConfirm}
+                onCancel={() => setShowDatePicker(false)}
+                isDarkModeEnabled={colorScheme === "dark"}
+            />
+        </View>
+    );
+}
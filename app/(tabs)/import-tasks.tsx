@@ -0,0 +1,312 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useTodoList } from "@/context/TodoListContext";
+import { PickedFile, pickTextFile } from "@/utils/backup";
+import { formatReconcileReport, scheduleTodoReminders } from "@/utils/notifications";
+import {
+    IMPORT_SOURCES,
+    ImportError,
+    ImportPreview,
+    ImportSource,
+    parseImportFile,
+    resolveImportLists,
+} from "@/utils/importers";
+
+export default function ImportTasksScreen() {
+    const insets = useSafeAreaInsets();
+    const { todos, replaceTodos, reconcileReminders } = useTodoStore();
+    const { lists, selectedListId, replaceLists } = useTodoList();
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [pickedFile, setPickedFile] = useState<PickedFile | null>(null);
+    const [includeEvents, setIncludeEvents] = useState(false);
+    // Calendar files carry no projects, so the user picks where the tasks go
+    const [targetListId, setTargetListId] = useState(selectedListId);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const handlePickFile = useCallback(async (source: ImportSource) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        const option = IMPORT_SOURCES.find((s) => s.value === source)!;
+        try {
+            const picked = await pickTextFile(option.fileTypes);
+            if (picked === null) return;
+
+            const result = parseImportFile(source, picked.text, picked.name, { includeEvents: false });
+            if (result.tasks.length === 0 && !result.eventCount) {
+                Alert.alert("Nothing to Import", "No tasks were found in this file.");
+                return;
+            }
+            setPickedFile(picked);
+            setIncludeEvents(false);
+            setPreview(result);
+        } catch (e) {
+            console.error("Failed to read import file:", e);
+            Alert.alert("Invalid File", e instanceof ImportError ? e.message : "Could not read this file.");
+        }
+    }, []);
+
+    const handleToggleEvents = useCallback(async () => {
+        if (!preview || !pickedFile) return;
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        const next = !includeEvents;
+        setIncludeEvents(next);
+        setPreview(parseImportFile(preview.source, pickedFile.text, pickedFile.name, { includeEvents: next }));
+    }, [preview, pickedFile, includeEvents]);
+
+    const isCalendar = preview?.source === "ical";
+
+    // What the import would create, given the projects that already exist
+    const summary = useMemo(() => {
+        if (!preview) return null;
+        const { newLists, todos: imported } = resolveImportLists(
+            preview,
+            lists,
+            preview.source === "ical" ? targetListId : undefined
+        );
+        return {
+            newLists,
+            todos: imported,
+            existingListNames: preview.source === "ical"
+                ? []
+                : preview.listNames.filter((name) => !newLists.some((list) => list.name === name.trim())),
+            active: imported.filter((t) => !t.archivedAt).length,
+            archived: imported.filter((t) => t.archivedAt).length,
+            subtasks: imported.reduce((count, t) => count + (t.subtasks?.length || 0), 0),
+            recurring: imported.filter((t) => t.isRecurring).length,
+            withDueDate: imported.filter((t) => t.dueDate).length,
+        };
+    }, [preview, lists, targetListId]);
+
+    const handleImport = useCallback(async () => {
+        if (!summary) return;
+        setIsWorking(true);
+        let listsSaved = false;
+        try {
+            const scheduled = await Promise.all(
+                summary.todos.map((t) => (t.archivedAt ? t : scheduleTodoReminders(t)))
+            );
+            if (summary.newLists.length > 0) {
+                await replaceLists([...lists, ...summary.newLists]);
+                listsSaved = true;
+            }
+            await replaceTodos([...scheduled, ...todos]);
+            const repaired = formatReconcileReport(await reconcileReminders());
+
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            Alert.alert(
+                "Import Complete",
+                `${summary.todos.length} tasks imported` +
+                (summary.newLists.length > 0 ? ` into ${summary.newLists.length} new projects.` : ".") +
+                (repaired ? ` ${repaired}` : ""),
+                [{ text: "OK", onPress: handleBack }]
+            );
+            setPreview(null);
+            setPickedFile(null);
+        } catch (e) {
+            console.error("Failed to import tasks:", e);
+            Alert.alert(
+                "Import Failed",
+                listsSaved
+                    ? "The new projects were added, but the tasks could not be saved."
+                    : "Something went wrong while importing. Your data was not changed."
+            );
+        } finally {
+            setIsWorking(false);
+        }
+    }, [summary, lists, todos, replaceLists, replaceTodos, reconcileReminders, handleBack]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Import Tasks
+                    </Text>
+                </View>
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Sources */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Import From
+                    </Text>
+                    {IMPORT_SOURCES.map((source) => (
+                        <Pressable
+                            key={source.value}
+                            onPress={() => handlePickFile(source.value)}
+                            disabled={isWorking}
+                            className="mb-3 flex-row items-center gap-4 border-5 border-black bg-white p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                        >
+                            <Ionicons name={source.icon as any} size={28} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-lg font-black uppercase text-black dark:text-white">
+                                    {source.label}
+                                </Text>
+                                <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                    {source.description}
+                                </Text>
+                            </View>
+                        </Pressable>
+                    ))}
+                </Animated.View>
+
+                {/* Import Preview */}
+                {preview && summary && (
+                    <Animated.View
+                        entering={FadeInDown.duration(300)}
+                        className="border-5 border-black bg-white p-5 shadow-brutal dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                    >
+                        <Text className="mb-1 text-lg font-black uppercase text-black dark:text-white">
+                            Ready to Import
+                        </Text>
+                        <Text className="mb-4 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                            From {IMPORT_SOURCES.find((s) => s.value === preview.source)?.label}
+                        </Text>
+
+                        <Text className="mb-1 text-sm font-bold text-gray-700 dark:text-gray-300">
+                            {summary.active} active tasks · {summary.archived} completed (to archive)
+                        </Text>
+                        <Text className="mb-4 text-sm font-bold text-gray-700 dark:text-gray-300">
+                            {summary.subtasks} subtasks · {summary.recurring} recurring · {summary.withDueDate} with due dates
+                        </Text>
+
+                        {isCalendar && (
+                            <View className="mb-3">
+                                <Text className="mb-2 text-xs font-black uppercase tracking-widest text-black dark:text-white">
+                                    Import Into
+                                </Text>
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                                    {lists.map((list) => {
+                                        const isSelected = targetListId === list.id;
+                                        return (
+                                            <Pressable
+                                                key={list.id}
+                                                onPress={() => setTargetListId(list.id)}
+                                                className={`border-4 border-black px-3 py-2 dark:border-neo-primary ${
+                                                    isSelected ? "bg-neo-secondary" : "bg-white dark:bg-neo-dark-surface"
+                                                }`}
+                                            >
+                                                <Text
+                                                    className={`text-xs font-black uppercase ${
+                                                        isSelected ? "text-black" : "text-black dark:text-white"
+                                                    }`}
+                                                >
+                                                    {list.name}
+                                                </Text>
+                                            </Pressable>
+                                        );
+                                    })}
+                                </ScrollView>
+                            </View>
+                        )}
+                        {isCalendar && !!preview.eventCount && (
+                            <Pressable
+                                onPress={handleToggleEvents}
+                                disabled={isWorking}
+                                className="mb-3 flex-row items-center gap-3 border-4 border-black p-3 dark:border-neo-primary"
+                            >
+                                <Ionicons
+                                    name={includeEvents ? "checkbox-sharp" : "square-outline"}
+                                    size={22}
+                                    color="#FF0055"
+                                />
+                                <Text className="flex-1 text-sm font-bold text-black dark:text-white">
+                                    Also import {preview.eventCount} events as tasks
+                                </Text>
+                            </Pressable>
+                        )}
+
+                        {summary.newLists.length > 0 && (
+                            <View className="mb-3">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black dark:text-white">
+                                    New Projects
+                                </Text>
+                                <Text className="text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    {summary.newLists.map((list) => list.name).join(", ")}
+                                </Text>
+                            </View>
+                        )}
+                        {summary.existingListNames.length > 0 && (
+                            <View className="mb-3">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black dark:text-white">
+                                    Added to Existing Projects
+                                </Text>
+                                <Text className="text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    {summary.existingListNames.join(", ")}
+                                </Text>
+                            </View>
+                        )}
+
+                        {preview.warnings.length > 0 && (
+                            <View className="mb-3 border-4 border-black bg-neo-secondary p-3 dark:border-neo-primary">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black">
+                                    Could Not Be Mapped
+                                </Text>
+                                {preview.warnings.map((warning) => (
+                                    <Text key={warning} className="text-xs font-bold text-black">
+                                        • {warning}
+                                    </Text>
+                                ))}
+                            </View>
+                        )}
+
+                        <Pressable
+                            onPress={handleImport}
+                            disabled={isWorking || summary.todos.length === 0}
+                            className="mt-2 mb-3 flex-row items-center justify-center gap-2 border-5 border-black bg-neo-green p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="download-sharp" size={20} color="black" />
+                            <Text className="text-base font-black uppercase text-black">
+                                Import {summary.todos.length} Tasks
+                            </Text>
+                        </Pressable>
+                        <Pressable
+                            onPress={() => {
+                                setPreview(null);
+                                setPickedFile(null);
+                            }}
+                            disabled={isWorking}
+                            className="flex-row items-center justify-center gap-2 border-5 border-black bg-white p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Text className="text-base font-black uppercase text-black dark:text-white">
+                                Cancel
+                            </Text>
+                        </Pressable>
+                    </Animated.View>
+                )}
+            </ScrollView>
+        </View>
+    );
+}
@@ -32,22 +32,33 @@ import { maybeRequestReview } from "@/utils/storeReview";
 import TodoItem from "@/components/TodoItem";
 import ArchiveButton from "@/components/ArchiveButton";
 import ArchiveModal from "@/components/ArchiveModal";
-import {Todo, Subtask, getPriorityWeight, getReminders, SortType} from "@/types/todo";
+import {Todo, Subtask, getPriorityWeight, getReminders, getCreatedTime, getUpdatedTime, SortType} from "@/types/todo";
 import { RecurrencePattern } from "@/types/recurrence";
 import { DEFAULT_LIST_ID } from "@/types/todoList";
 import { useTodoList } from "@/context/TodoListContext";
 import { useBulkEdit } from "@/context/BulkEditContext";
+import { useTodoStore } from "@/context/TodoStoreContext";
 import {
     cancelNotification,
-    scheduleNotification,
+    cancelTodoReminders,
+    scheduleTodoReminders,
     registerForPushNotificationsAsync,
+    resolveTodoReminders,
 } from "@/utils/notifications";
-import { createNextRecurringTodo, isRecurrenceActive, migrateRecurrencePattern } from "@/utils/recurrence";
+import { detachRelativeReminders } from "@/utils/reminders";
+import {
+    createNextRecurringTodo,
+    getDueDateForDay,
+    isRecurrenceActive,
+    moveOccurrence,
+    realignDueDate,
+} from "@/utils/recurrence";
+import { getTodoTimeZone } from "@/utils/timezone";
 import SortSelector from "@/components/SortSelector";
 import { usePomodoro } from "@/context/PomodoroContext";
+import { useSettings } from "@/context/SettingsContext";
 
 
-const STORAGE_KEY = "@neo_brutal_todos_v2";
 const SORT_STORAGE_KEY = "@neo_brutal_sort_v1";
 const CARD_COLORS_COUNT = 6;
 
@@ -59,18 +70,30 @@ const TIMING_CONFIG = {
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
 export default function TodoApp() {
-    const [todos, setTodos] = useState<Todo[]>([]);
     const [sortBy, setSortBy] = useState<SortType>("DEFAULT");
     const [showArchive, setShowArchive] = useState(false);
-    const [isInitialLoad, setIsInitialLoad] = useState(true);
     const colorScheme = useColorScheme();
     const notificationListener = useRef<Notifications.EventSubscription | undefined>(undefined);
     const insets = useSafeAreaInsets();
     const navigation = useNavigation();
-    const { showDeleteToast, toast } = useToast();
+    const { showDeleteToast } = useToast();
     const { activeTimer, clearActiveTimer } = usePomodoro();
+    const { settings } = useSettings();
 
-    const { selectedListId, selectedList, lists } = useTodoList();
+    const { selectedListId, selectedList } = useTodoList();
+    const {
+        todos,
+        activeTodos: storedActiveTodos,
+        archivedTodos: storedArchivedTodos,
+        getTodo,
+        updateTodo,
+        completeTodo: completeStoredTodo,
+        skipTodo: skipStoredTodo,
+        restoreTodo: restoreStoredTodo,
+        deleteTodos,
+        restoreDeletedTodos,
+        reconcileReminders,
+    } = useTodoStore();
     const {
         isBulkMode,
         selectedIds,
@@ -79,7 +102,6 @@ export default function TodoApp() {
         selectAll,
         deselectAll,
         deleteTasks,
-        setTodosRef,
     } = useBulkEdit();
 
     const addButtonScale = useSharedValue(1);
@@ -93,11 +115,6 @@ export default function TodoApp() {
         transform: [{ scale: menuScale.value }],
     }));
 
-    // Keep bulk edit context in sync with todos
-    useEffect(() => {
-        setTodosRef(todos, setTodos);
-    }, [todos, setTodosRef, setTodos]);
-
     // Exit bulk mode when switching lists
     useEffect(() => {
         if (isBulkMode) {
@@ -105,13 +122,6 @@ export default function TodoApp() {
         }
     }, [selectedListId]);
 
-    // Reload todos when lists change (e.g. after list deletion moves tasks to Inbox)
-    useEffect(() => {
-        if (!isInitialLoad) {
-            loadTodos();
-        }
-    }, [lists]);
-
     useEffect(() => {
         registerForPushNotificationsAsync();
 
@@ -130,31 +140,6 @@ export default function TodoApp() {
         };
     }, []);
 
-    const loadTodos = useCallback(async () => {
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const parsed: Todo[] = JSON.parse(stored);
-                // Migrate old recurrence patterns to new format
-                const migrated = parsed.map(todo => {
-                    if (todo.recurrence) {
-                        const migratedPattern = migrateRecurrencePattern(todo.recurrence);
-                        const isActive = migratedPattern && migratedPattern.type !== "once";
-                        return {
-                            ...todo,
-                            recurrence: migratedPattern,
-                            isRecurring: isActive || false,
-                        };
-                    }
-                    return todo;
-                });
-                setTodos(migrated);
-            }
-        } catch {
-            console.error("Failed to load todos");
-        }
-    }, []);
-
     const loadSortPreference = useCallback(async () => {
         try {
             const stored = await AsyncStorage.getItem(SORT_STORAGE_KEY);
@@ -164,37 +149,13 @@ export default function TodoApp() {
         }
     }, []);
 
-    useEffect(() => {
-        const initializeApp = async () => {
-            await loadTodos();
-            await loadSortPreference();
-            setIsInitialLoad(false);
-        };
-        initializeApp();
-    }, []);
-
+    // Reload on focus so a sort preference restored from a backup is picked up
     useFocusEffect(
         useCallback(() => {
-            if (!isInitialLoad) {
-                loadTodos();
-            }
-        }, [isInitialLoad, loadTodos])
+            loadSortPreference();
+        }, [loadSortPreference])
     );
 
-    useEffect(() => {
-        if (!isInitialLoad) {
-            saveTodos(todos);
-        }
-    }, [todos, isInitialLoad]);
-
-    const saveTodos = async (newTodos: Todo[]) => {
-        try {
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(newTodos));
-        } catch {
-            console.error("Failed to save todos");
-        }
-    };
-
     const handleSortChange = useCallback(async (newSort: SortType) => {
         setSortBy(newSort);
         try {
@@ -224,16 +185,17 @@ export default function TodoApp() {
     const handleBulkDelete = useCallback(async () => {
         const deletedTodos = await deleteTasks();
         exitBulkMode();
+        await reconcileReminders();
 
         if (deletedTodos.length > 0) {
             showDeleteToast(
-                deletedTodos[0],
-                `${deletedTodos.length} task${deletedTodos.length > 1 ? "s" : ""} deleted`
+                deletedTodos,
+                `${deletedTodos.length} task${deletedTodos.length > 1 ? "s" : ""} moved to trash`
             );
         }
 
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-    }, [deleteTasks, exitBulkMode, showDeleteToast]);
+    }, [deleteTasks, exitBulkMode, reconcileReminders, showDeleteToast]);
 
     const handleAddTask = useCallback(async () => {
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -256,39 +218,24 @@ export default function TodoApp() {
             text,
             completed: false,
         };
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === todoId
-                    ? { ...t, subtasks: [...(t.subtasks || []), newSubtask] }
-                    : t
-            )
-        );
-    }, []);
+        updateTodo(todoId, (t) => ({ ...t, subtasks: [...(t.subtasks || []), newSubtask] }));
+    }, [updateTodo]);
 
     const handleToggleSubtask = useCallback((todoId: string, subtaskId: string) => {
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === todoId
-                    ? {
-                        ...t,
-                        subtasks: (t.subtasks || []).map((s) =>
-                            s.id === subtaskId ? { ...s, completed: !s.completed } : s
-                        ),
-                    }
-                    : t
-            )
-        );
-    }, []);
+        updateTodo(todoId, (t) => ({
+            ...t,
+            subtasks: (t.subtasks || []).map((s) =>
+                s.id === subtaskId ? { ...s, completed: !s.completed } : s
+            ),
+        }));
+    }, [updateTodo]);
 
     const handleDeleteSubtask = useCallback((todoId: string, subtaskId: string) => {
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === todoId
-                    ? { ...t, subtasks: (t.subtasks || []).filter((s) => s.id !== subtaskId) }
-                    : t
-            )
-        );
-    }, []);
+        updateTodo(todoId, (t) => ({
+            ...t,
+            subtasks: (t.subtasks || []).filter((s) => s.id !== subtaskId),
+        }));
+    }, [updateTodo]);
 
     const archiveTodo = useCallback(
         async (id: string) => {
@@ -299,98 +246,94 @@ export default function TodoApp() {
                 await clearActiveTimer();
             }
 
-            if (todo.notificationId) {
-                await cancelNotification(todo.notificationId);
-            }
-            const reminders = getReminders(todo);
-            for (const reminder of reminders) {
-                if (reminder.notificationId) {
-                    await cancelNotification(reminder.notificationId);
-                }
-            }
-
             // Request a store review the first time any task is ever completed
             await maybeRequestReview();
 
-            if (!todo.completed && isRecurrenceActive(todo.recurrence)) {
-                const nextTodo = createNextRecurringTodo(
-                    todo,
-                    Math.floor(Math.random() * CARD_COLORS_COUNT)
-                );
+            // Completing a recurring task brings in its next occurrence
+            const nextTodo = await completeStoredTodo(id);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-                if (nextTodo) {
-                    await Haptics.notificationAsync(
-                        Haptics.NotificationFeedbackType.Success
-                    );
-
-                    // Schedule notifications for carried-over reminders
-                    const now = new Date();
-                    const scheduledReminders = await Promise.all(
-                        (nextTodo.reminders || []).map(async (r) => {
-                            const d = new Date(r.date);
-                            if (d > now) {
-                                const notificationId = await scheduleNotification(nextTodo.text, d);
-                                return { ...r, notificationId };
-                            }
-                            return r;
-                        })
-                    );
-                    const todoToInsert = { ...nextTodo, reminders: scheduledReminders };
-
-                    setTodos((prev) => {
-                        const updated = prev.map((t) =>
-                            t.id === id
-                                ? { ...t, completed: true, archivedAt: new Date().toISOString() }
-                                : t
-                        );
-                        return [todoToInsert, ...updated];
-                    });
-
-                    Alert.alert(
-                        "Task Completed! 🎉",
-                        `Next "${todo.text}" scheduled for ${new Date(
-                            nextTodo.dueDate!
-                        ).toLocaleDateString("en-US", {
-                            weekday: "short",
-                            month: "short",
-                            day: "numeric",
-                        })}`,
-                        [{ text: "Got it!" }]
-                    );
-                    return;
-                }
+            if (nextTodo) {
+                Alert.alert(
+                    "Task Completed! 🎉",
+                    `Next "${todo.text}" scheduled for ${new Date(
+                        nextTodo.dueDate!
+                    ).toLocaleDateString("en-US", {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                    })}`,
+                    [{ text: "Got it!" }]
+                );
             }
+        },
+        [todos, activeTimer, clearActiveTimer, completeStoredTodo]
+    );
 
+    const handleSkipOccurrence = useCallback(
+        async (id: string) => {
+            const todo = todos.find((t) => t.id === id);
+            if (!todo || !isRecurrenceActive(todo.recurrence)) return;
+
+            if (activeTimer && activeTimer.taskId === id) {
+                await clearActiveTimer();
+            }
+            await cancelTodoReminders(todo);
+
+            const nextTodo = createNextRecurringTodo(
+                todo,
+                Math.floor(Math.random() * CARD_COLORS_COUNT),
+                new Date(),
+                settings.holidays,
+                true
+            );
+            await skipStoredTodo(id, nextTodo ? await scheduleTodoReminders(nextTodo) : undefined);
             await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            setTodos((prev) =>
-                prev.map((t) =>
-                    t.id === id
-                        ? { ...t, completed: true, archivedAt: new Date().toISOString() }
-                        : t
-                )
+
+            Alert.alert(
+                "Occurrence Skipped",
+                nextTodo
+                    ? `Next "${todo.text}" scheduled for ${new Date(
+                        nextTodo.dueDate!
+                    ).toLocaleDateString("en-US", {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                    })}`
+                    : `That was the last "${todo.text}" in the series.`,
+                [{ text: "Got it!" }]
             );
         },
-        [todos, activeTimer, clearActiveTimer]
+        [todos, activeTimer, clearActiveTimer, skipStoredTodo, settings.holidays]
+    );
+
+    const handleMoveOccurrence = useCallback(
+        async (id: string, date: Date) => {
+            const todo = getTodo(id);
+            if (!todo) return;
+
+            await cancelTodoReminders(todo);
+            const moved = await scheduleTodoReminders(moveOccurrence(todo, date));
+            await updateTodo(id, {
+                dueDate: moved.dueDate,
+                occurrenceDate: moved.occurrenceDate,
+                reminders: moved.reminders,
+            });
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        },
+        [getTodo, updateTodo]
     );
 
     const restoreTodo = useCallback(async (id: string) => {
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === id ? { ...t, completed: false, archivedAt: undefined } : t
-            )
-        );
-    }, []);
+        await restoreStoredTodo(id);
+    }, [restoreStoredTodo]);
 
     const deleteTodo = useCallback(
         async (id: string) => {
             const todo = todos.find((t) => t.id === id);
             if (!todo) return;
 
-            if (todo.notificationId) {
-                await cancelNotification(todo.notificationId);
-            }
-
             const reminders = getReminders(todo);
             for (const reminder of reminders) {
                 if (reminder.notificationId) {
@@ -398,60 +341,55 @@ export default function TodoApp() {
                 }
             }
 
-            setTodos((prev) => prev.filter((t) => t.id !== id));
-            showDeleteToast(todo);
+            showDeleteToast(await deleteTodos([id]));
         },
-        [todos, showDeleteToast]
+        [todos, deleteTodos, showDeleteToast]
     );
 
-    const restoreDeletedTodo = useCallback(() => {
-        const deletedTodo = toast.deletedTodo;
-        if (deletedTodo) {
-            setTodos((prev) => {
-                if (prev.some((t) => t.id === deletedTodo.id)) {
-                    return prev;
-                }
-                return [...prev, deletedTodo];
-            });
-        }
-    }, [toast.deletedTodo]);
+    const handleUndoDelete = useCallback((deleted: Todo[]) => {
+        restoreDeletedTodos(deleted.map((t) => t.id));
+    }, [restoreDeletedTodos]);
 
-    const clearAllArchived = useCallback(() => {
-        setTodos((prev) => prev.filter((t) => !t.archivedAt));
-    }, []);
+    const clearAllArchived = useCallback(async () => {
+        const deleted = await deleteTodos(storedArchivedTodos.map((t) => t.id));
+        showDeleteToast(deleted, `${deleted.length} task${deleted.length > 1 ? "s" : ""} moved to trash`);
+    }, [storedArchivedTodos, deleteTodos, showDeleteToast]);
 
-    const handleSetDueDate = useCallback((id: string, date: Date) => {
-        const dueDate = new Date(date);
-        dueDate.setHours(23, 59, 59, 999);
+    // Relative reminders follow the due date. Only the fields that change are
+    // written, so edits made while notifications are scheduled are kept.
+    const handleSetDueDate = useCallback(async (id: string, date: Date) => {
+        const todo = getTodo(id);
+        if (!todo) return;
 
-        setTodos((prev) =>
-            prev.map((t) => (t.id === id ? { ...t, dueDate: dueDate.toISOString() } : t))
-        );
-    }, []);
+        const dueDate = getDueDateForDay(date, todo.recurrence, getTodoTimeZone(todo)).toISOString();
+        const { reminders } = await resolveTodoReminders({ ...todo, dueDate });
+        await updateTodo(id, { dueDate, reminders });
+    }, [getTodo, updateTodo]);
 
     const handleClearDueDate = useCallback((id: string) => {
-        setTodos((prev) =>
-            prev.map((t) => (t.id === id ? { ...t, dueDate: undefined } : t))
-        );
-    }, []);
-
-    const handleSetRecurrence = useCallback((id: string, pattern: RecurrencePattern) => {
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === id
-                    ? { ...t, recurrence: pattern, isRecurring: pattern.type !== "once" }
-                    : t
-            )
-        );
-    }, []);
+        updateTodo(id, (todo) => ({
+            ...todo,
+            dueDate: undefined,
+            reminders: detachRelativeReminders(getReminders(todo)),
+        }));
+    }, [updateTodo]);
+
+    const handleSetRecurrence = useCallback(async (id: string, pattern: RecurrencePattern) => {
+        const todo = getTodo(id);
+        if (!todo) return;
+
+        const changes = {
+            recurrence: pattern,
+            isRecurring: pattern.type !== "once",
+            dueDate: realignDueDate(todo.dueDate, pattern, getTodoTimeZone(todo)),
+        };
+        const { reminders } = await resolveTodoReminders({ ...todo, ...changes });
+        await updateTodo(id, { ...changes, reminders });
+    }, [getTodo, updateTodo]);
 
     const handleClearRecurrence = useCallback((id: string) => {
-        setTodos((prev) =>
-            prev.map((t) =>
-                t.id === id ? { ...t, recurrence: undefined, isRecurring: false } : t
-            )
-        );
-    }, []);
+        updateTodo(id, { recurrence: undefined, isRecurring: false });
+    }, [updateTodo]);
 
     const getSmartSortWeight = (todo: Todo): number => {
         // Date weight: Overdue=0, Today=1, Tomorrow=3, Future=5, No date=7
@@ -487,13 +425,10 @@ export default function TodoApp() {
     };
 
     const { activeTodos, archivedTodos } = useMemo(() => {
-        const listFiltered = todos.filter((t) => {
-            const todoListId = t.listId || DEFAULT_LIST_ID;
-            return todoListId === selectedListId;
-        });
-
-        const active = listFiltered.filter((t) => !t.archivedAt);
-        const archived = listFiltered.filter((t) => t.archivedAt);
+        // The store keeps active and archived tasks apart, so only the project is filtered here
+        const inList = (t: Todo) => (t.listId || DEFAULT_LIST_ID) === selectedListId;
+        const active = storedActiveTodos.filter(inList);
+        const archived = storedArchivedTodos.filter(inList);
 
         const sortedActive = active.sort((a, b) => {
             switch (sortBy) {
@@ -509,7 +444,7 @@ export default function TodoApp() {
                     }
                     if (a.dueDate && !b.dueDate) return -1;
                     if (!a.dueDate && b.dueDate) return 1;
-                    return parseInt(b.id) - parseInt(a.id);
+                    return getCreatedTime(b) - getCreatedTime(a);
                 case "DUE_DESC":
                     if (a.dueDate && b.dueDate) {
                         return (
@@ -518,7 +453,7 @@ export default function TodoApp() {
                     }
                     if (a.dueDate && !b.dueDate) return -1;
                     if (!a.dueDate && b.dueDate) return 1;
-                    return parseInt(b.id) - parseInt(a.id);
+                    return getCreatedTime(b) - getCreatedTime(a);
                 case "PRIORITY_DESC":
                     // High priority first (lower weight = higher priority)
                     const priorityDiffDesc = getPriorityWeight(a.priority) - getPriorityWeight(b.priority);
@@ -529,7 +464,7 @@ export default function TodoApp() {
                     }
                     if (a.dueDate && !b.dueDate) return -1;
                     if (!a.dueDate && b.dueDate) return 1;
-                    return parseInt(b.id) - parseInt(a.id);
+                    return getCreatedTime(b) - getCreatedTime(a);
                 case "PRIORITY_ASC":
                     // Low priority first (higher weight = lower priority)
                     const priorityDiffAsc = getPriorityWeight(b.priority) - getPriorityWeight(a.priority);
@@ -540,7 +475,13 @@ export default function TodoApp() {
                     }
                     if (a.dueDate && !b.dueDate) return -1;
                     if (!a.dueDate && b.dueDate) return 1;
-                    return parseInt(b.id) - parseInt(a.id);
+                    return getCreatedTime(b) - getCreatedTime(a);
+                case "CREATED_DESC":
+                    return getCreatedTime(b) - getCreatedTime(a);
+                case "CREATED_ASC":
+                    return getCreatedTime(a) - getCreatedTime(b);
+                case "UPDATED_DESC":
+                    return getUpdatedTime(b) - getUpdatedTime(a);
                 case "DEFAULT":
                 default:
                     // Smart sort: Overdue → Today → High → Tomorrow → Medium → Future → Low → None
@@ -561,12 +502,12 @@ export default function TodoApp() {
                     if (priDiff !== 0) return priDiff;
 
                     // Finally by creation (newest first)
-                    return parseInt(b.id) - parseInt(a.id);
+                    return getCreatedTime(b) - getCreatedTime(a);
             }
         });
 
         return { activeTodos: sortedActive, archivedTodos: archived };
-    }, [todos, selectedListId, sortBy]);
+    }, [storedActiveTodos, storedArchivedTodos, selectedListId, sortBy]);
 
     const handleSelectAll = useCallback(() => {
         const allIds = activeTodos.map((t) => t.id);
@@ -585,6 +526,8 @@ export default function TodoApp() {
                 onClearDueDate={handleClearDueDate}
                 onSetRecurrence={handleSetRecurrence}
                 onClearRecurrence={handleClearRecurrence}
+                onSkipOccurrence={handleSkipOccurrence}
+                onMoveOccurrence={handleMoveOccurrence}
                 onAddSubtask={handleAddSubtask}
                 onToggleSubtask={handleToggleSubtask}
                 onDeleteSubtask={handleDeleteSubtask}
@@ -598,6 +541,8 @@ export default function TodoApp() {
             handleClearDueDate,
             handleSetRecurrence,
             handleClearRecurrence,
+            handleSkipOccurrence,
+            handleMoveOccurrence,
             handleAddSubtask,
             handleToggleSubtask,
             handleDeleteSubtask,
@@ -731,7 +676,7 @@ export default function TodoApp() {
                 onDelete={deleteTodo}
                 onClearAll={clearAllArchived}
             />
-            <UndoToast onUndo={restoreDeletedTodo} />
+            <UndoToast onUndo={handleUndoDelete} />
         </View>
     );
 }
\ No newline at end of file
@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert, TextInput, useColorScheme } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import RecurrencePicker from "@/components/RecurrencePicker";
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useSettings } from "@/context/SettingsContext";
+import { OccurrenceOutcome, RecurrencePattern } from "@/types/recurrence";
+import { Todo, getReminders } from "@/types/todo";
+import {
+    editThisAndFuture,
+    formatRecurrencePattern,
+    getDueDateForDay,
+    getIntraDayTimes,
+    getOccurrenceOutcome,
+    getSeriesInstances,
+    getUpcomingSeriesDates,
+    realignDueDate,
+} from "@/utils/recurrence";
+import { cancelTodoReminders, resolveTodoReminders, scheduleTodoReminders } from "@/utils/notifications";
+import { getTodoTimeZone } from "@/utils/timezone";
+
+const UPCOMING_COUNT = 5;
+
+const OUTCOME_STYLES: Record<OccurrenceOutcome, { label: string; className: string; textClassName: string }> = {
+    onTime: { label: "On Time", className: "bg-neo-green", textClassName: "text-black" },
+    late: { label: "Late", className: "bg-neo-orange", textClassName: "text-white" },
+    skipped: { label: "Skipped", className: "bg-gray-300 dark:bg-neo-dark-elevated", textClassName: "text-black dark:text-white" },
+};
+
+const formatDate = (dateString: string, withTime = false) =>
+    new Date(dateString)
+        .toLocaleString("en-US", {
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+            ...(withTime && { hour: "numeric", minute: "2-digit" }),
+        })
+        .toUpperCase();
+
+export default function SeriesScreen() {
+    const { seriesId } = useLocalSearchParams<{ seriesId: string }>();
+    const insets = useSafeAreaInsets();
+    const colorScheme = useColorScheme();
+    const { todos, updateTodo } = useTodoStore();
+    const { settings } = useSettings();
+    const [title, setTitle] = useState("");
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const instances = useMemo(() => getSeriesInstances(todos, seriesId), [todos, seriesId]);
+    const active = useMemo(() => instances.find((t) => !t.archivedAt), [instances]);
+    const latest = active || instances[instances.length - 1];
+    const hasTimesOfDay = !!latest?.recurrence && getIntraDayTimes(latest.recurrence).length > 0;
+
+    // Most recent first
+    const pastInstances = useMemo(
+        () => instances.filter((t) => t.archivedAt).reverse(),
+        [instances]
+    );
+
+    const counts = useMemo(() => {
+        const result: Record<OccurrenceOutcome, number> = { onTime: 0, late: 0, skipped: 0 };
+        for (const todo of pastInstances) {
+            const outcome = getOccurrenceOutcome(todo);
+            if (outcome) result[outcome]++;
+        }
+        return result;
+    }, [pastInstances]);
+
+    // Projected from the series template and time zone, the way the next instances will be created
+    const upcomingDates = useMemo(() => {
+        if (!active?.recurrence || active.recurrence.type === "once" || !active.dueDate) return [];
+        return getUpcomingSeriesDates(active, UPCOMING_COUNT, settings.holidays);
+    }, [active, settings.holidays]);
+
+    const activeText = active?.text;
+    useEffect(() => {
+        if (activeText !== undefined) setTitle(activeText);
+    }, [activeText]);
+
+    const isRepeating = !!active?.recurrence && active.recurrence.type !== "once";
+    const totalPlanned = active?.recurrence?.occurrences;
+
+    const handleSaveTitle = useCallback(async () => {
+        if (!active) return;
+        const text = title.trim().toUpperCase();
+        if (!text) {
+            Alert.alert("Task Required", "Please enter a task title.");
+            return;
+        }
+        if (text === active.text) return;
+
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        // Reminder notifications carry the title, so schedule them again
+        await cancelTodoReminders(active);
+        const rescheduled = await scheduleTodoReminders({ ...active, text });
+        await updateTodo(active.id, editThisAndFuture(active, { text, reminders: rescheduled.reminders }));
+    }, [active, title, updateTodo]);
+
+    // Edit the open task and the rest of the series; relative reminders follow a moved due date
+    const applyChanges = useCallback(async (todo: Todo, changes: Partial<Todo>) => {
+        const hasRelativeReminders = getReminders(todo).some((r) => r.offsetMinutes !== undefined);
+        const resolved = hasRelativeReminders ? await resolveTodoReminders({ ...todo, ...changes }) : null;
+        await updateTodo(
+            todo.id,
+            editThisAndFuture(todo, resolved ? { ...changes, reminders: resolved.reminders } : changes)
+        );
+    }, [updateTodo]);
+
+    const handleSetDueDate = useCallback((date: Date) => {
+        if (!active) return;
+        const dueDate = getDueDateForDay(date, active.recurrence, getTodoTimeZone(active));
+        applyChanges(active, { dueDate: dueDate.toISOString() });
+    }, [active, applyChanges]);
+
+    const handleSetRecurrence = useCallback((pattern: RecurrencePattern) => {
+        if (!active) return;
+        const dueDate = realignDueDate(active.dueDate, pattern, getTodoTimeZone(active));
+        applyChanges(active, { recurrence: pattern, isRecurring: pattern.type !== "once", dueDate });
+    }, [active, applyChanges]);
+
+    const handleClearRecurrence = useCallback(() => {
+        if (!active) return;
+        updateTodo(active.id, editThisAndFuture(active, { recurrence: undefined, isRecurring: false }));
+    }, [active, updateTodo]);
+
+    const renderInstance = (todo: Todo) => {
+        const outcome = getOccurrenceOutcome(todo);
+        const style = outcome ? OUTCOME_STYLES[outcome] : null;
+        return (
+            <View
+                key={todo.id}
+                className="mb-3 flex-row items-center gap-3 border-4 border-black bg-white p-3 dark:border-neo-primary dark:bg-neo-dark-surface"
+            >
+                <Text className="w-8 text-sm font-black text-gray-500 dark:text-gray-400">
+                    #{(todo.recurrenceCount || 0) + 1}
+                </Text>
+                <View className="flex-1">
+                    <Text className="text-sm font-black uppercase text-black dark:text-white" numberOfLines={1}>
+                        {todo.dueDate ? formatDate(todo.dueDate, hasTimesOfDay) : "No due date"}
+                    </Text>
+                    {todo.archivedAt && (
+                        <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                            {todo.skippedAt ? "Skipped" : "Done"} {formatDate(todo.completedAt || todo.archivedAt)}
+                        </Text>
+                    )}
+                </View>
+                {style && (
+                    <View className={`border-3 border-black px-2 py-1 dark:border-neo-primary ${style.className}`}>
+                        <Text className={`text-xs font-black uppercase ${style.textClassName}`}>
+                            {style.label}
+                        </Text>
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Series
+                    </Text>
+                </View>
+            </Animated.View>
+
+            {!latest ? (
+                <View className="mx-6 items-center border-5 border-dashed border-gray-400 p-8 dark:border-neo-primary">
+                    <Ionicons name="repeat-outline" size={40} color="#999" />
+                    <Text className="mt-3 text-sm font-black uppercase text-gray-500 dark:text-gray-400">
+                        Series not found
+                    </Text>
+                </View>
+            ) : (
+                <ScrollView
+                    className="flex-1 px-6"
+                    contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                    keyboardShouldPersistTaps="handled"
+                    showsVerticalScrollIndicator={false}
+                >
+                    {/* Summary */}
+                    <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                        <View className="border-5 border-black bg-neo-purple p-5 shadow-brutal dark:border-neo-primary dark:shadow-brutal-dark">
+                            <Text className="text-lg font-black uppercase text-white" numberOfLines={2}>
+                                {latest.text}
+                            </Text>
+                            <Text className="mt-1 text-xs font-bold uppercase text-white/80">
+                                {latest.recurrence && latest.recurrence.type !== "once"
+                                    ? formatRecurrencePattern(latest.recurrence)
+                                    : "No longer repeats"}
+                            </Text>
+                        </View>
+                        <View className="mt-4 flex-row gap-3">
+                            {[
+                                {
+                                    label: "Total",
+                                    // Skipped occurrences do not count toward the limit
+                                    value: totalPlanned
+                                        ? `${instances.length - counts.skipped}/${totalPlanned}`
+                                        : `${instances.length}`,
+                                },
+                                { label: "On Time", value: `${counts.onTime}` },
+                                { label: "Late", value: `${counts.late}` },
+                                { label: "Skipped", value: `${counts.skipped}` },
+                            ].map((stat) => (
+                                <View
+                                    key={stat.label}
+                                    className="flex-1 items-center border-4 border-black bg-white py-3 dark:border-neo-primary dark:bg-neo-dark-surface"
+                                >
+                                    <Text className="text-xl font-black text-black dark:text-white">
+                                        {stat.value}
+                                    </Text>
+                                    <Text className="text-xs font-black uppercase text-gray-500 dark:text-gray-400">
+                                        {stat.label}
+                                    </Text>
+                                </View>
+                            ))}
+                        </View>
+                    </Animated.View>
+
+                    {/* Edit Series */}
+                    {active && (
+                        <Animated.View entering={FadeInDown.delay(200).duration(300)} className="mb-6">
+                            <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                Edit Series
+                            </Text>
+                            <View className="mb-3 flex-row gap-3">
+                                <TextInput
+                                    value={title}
+                                    onChangeText={setTitle}
+                                    onSubmitEditing={handleSaveTitle}
+                                    placeholder="TASK TITLE"
+                                    placeholderTextColor={colorScheme === "dark" ? "#666" : "#999"}
+                                    className="flex-1 border-5 border-black bg-white p-4 font-bold text-base text-black dark:border-neo-primary dark:bg-neo-dark-surface dark:text-white"
+                                />
+                                <Pressable
+                                    onPress={handleSaveTitle}
+                                    accessibilityLabel="Save title"
+                                    className="w-14 items-center justify-center border-5 border-black bg-neo-green shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                >
+                                    <Ionicons name="checkmark-sharp" size={24} color="black" />
+                                </Pressable>
+                            </View>
+                            <RecurrencePicker
+                                recurrence={active.recurrence}
+                                dueDate={active.dueDate}
+                                onSetDueDate={handleSetDueDate}
+                                onSetRecurrence={handleSetRecurrence}
+                                onClearRecurrence={handleClearRecurrence}
+                            />
+                            <Text className="mt-3 text-xs font-bold text-gray-600 dark:text-gray-400">
+                                Changes apply to the open task and every occurrence after it.
+                            </Text>
+                        </Animated.View>
+                    )}
+
+                    {/* Upcoming */}
+                    {active && (
+                        <Animated.View entering={FadeInDown.delay(300).duration(300)} className="mb-6">
+                            <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                Upcoming
+                            </Text>
+                            <View className="mb-3 flex-row items-center gap-3 border-4 border-black bg-neo-accent p-3 dark:border-neo-primary">
+                                <Text className="w-8 text-sm font-black text-black">
+                                    #{(active.recurrenceCount || 0) + 1}
+                                </Text>
+                                <View className="flex-1">
+                                    <Text className="text-sm font-black uppercase text-black" numberOfLines={1}>
+                                        {active.dueDate ? formatDate(active.dueDate, hasTimesOfDay) : "No due date"}
+                                    </Text>
+                                    <Text className="text-xs font-bold uppercase text-black/60">
+                                        Open now
+                                    </Text>
+                                </View>
+                            </View>
+                            {isRepeating && upcomingDates.map((date, index) => (
+                                <View
+                                    key={date.toISOString()}
+                                    className="mb-3 flex-row items-center gap-3 border-4 border-dashed border-black bg-white p-3 dark:border-neo-primary dark:bg-neo-dark-surface"
+                                >
+                                    <Text className="w-8 text-sm font-black text-gray-500 dark:text-gray-400">
+                                        #{(active.recurrenceCount || 0) + 2 + index}
+                                    </Text>
+                                    <Text className="flex-1 text-sm font-black uppercase text-black dark:text-white">
+                                        {formatDate(date.toISOString(), hasTimesOfDay)}
+                                    </Text>
+                                </View>
+                            ))}
+                            {isRepeating && active.recurrence?.repeatFrom === "completion" && (
+                                <Text className="text-xs font-bold text-gray-500 dark:text-gray-400">
+                                    Assuming each one is finished on its due date
+                                </Text>
+                            )}
+                        </Animated.View>
+                    )}
+
+                    {/* History */}
+                    <Animated.View entering={FadeInDown.delay(400).duration(300)}>
+                        <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                            History ({pastInstances.length})
+                        </Text>
+                        {pastInstances.length === 0 ? (
+                            <View className="items-center border-5 border-dashed border-gray-400 p-8 dark:border-neo-primary">
+                                <Ionicons name="time-outline" size={40} color="#999" />
+                                <Text className="mt-3 text-sm font-black uppercase text-gray-500 dark:text-gray-400">
+                                    Nothing finished yet
+                                </Text>
+                            </View>
+                        ) : (
+                            pastInstances.map(renderInstance)
+                        )}
+                    </Animated.View>
+                </ScrollView>
+            )}
+        </View>
+    );
+}
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert, TextInput, useColorScheme } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import { useSync } from "@/context/SyncContext";
+import { useUser } from "@/context/UserContext";
+import { describeSyncStatus } from "@/utils/sync";
+
+export default function SyncScreen() {
+    const insets = useSafeAreaInsets();
+    const colorScheme = useColorScheme();
+    const { config, status, enableSync, disableSync, syncNow } = useSync();
+    const { userId, adoptUserId } = useUser();
+    const [endpoint, setEndpoint] = useState("");
+    const [joinUserId, setJoinUserId] = useState("");
+    const [joinSyncKey, setJoinSyncKey] = useState("");
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        if (config?.endpoint) setEndpoint(config.endpoint);
+    }, [config?.endpoint]);
+
+    const isEnabled = !!config?.enabled;
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const handleEnable = useCallback(async () => {
+        if (!/^https?:\/\/\S+$/i.test(endpoint.trim())) {
+            Alert.alert("Invalid Server", "Enter the full address of your sync server, starting with http:// or https://.");
+            return;
+        }
+        const joinId = joinUserId.trim().toUpperCase();
+        if (joinId && !/^[A-Z0-9]{6,32}$/.test(joinId)) {
+            Alert.alert("Invalid User ID", "Copy the User ID exactly as it appears in Settings on your other device.");
+            return;
+        }
+        const joinKey = joinSyncKey.trim().toUpperCase();
+        if (joinId && !/^[A-F0-9]{32}$/.test(joinKey)) {
+            Alert.alert("Invalid Sync Key", "Copy the Sync Key exactly as it appears on the Sync screen of your other device.");
+            return;
+        }
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setIsWorking(true);
+        try {
+            if (joinId && joinId !== userId) {
+                await adoptUserId(joinId);
+            }
+            await enableSync(endpoint, joinId ? joinKey : undefined);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        } catch (e) {
+            console.error("Failed to turn on sync:", e);
+            Alert.alert("Sync Failed", "Could not turn on sync.");
+        } finally {
+            setIsWorking(false);
+        }
+    }, [endpoint, joinUserId, joinSyncKey, userId, adoptUserId, enableSync]);
+
+    const handleDisable = useCallback(() => {
+        Alert.alert(
+            "Turn Off Sync?",
+            "Tasks stay on this device. Changes made here will no longer reach your other devices.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Turn Off",
+                    style: "destructive",
+                    onPress: async () => {
+                        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        await disableSync();
+                    },
+                },
+            ]
+        );
+    }, [disableSync]);
+
+    const handleSyncNow = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        await syncNow();
+    }, [syncNow]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Sync
+                    </Text>
+                </View>
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Status */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Status
+                    </Text>
+                    <View
+                        className={`border-5 border-black p-5 shadow-brutal dark:border-neo-primary dark:shadow-brutal-dark ${
+                            status.state === "error" ? "bg-neo-secondary" : "bg-white dark:bg-neo-dark-surface"
+                        }`}
+                    >
+                        <Text
+                            className={`text-lg font-black uppercase ${
+                                status.state === "error" ? "text-black" : "text-black dark:text-white"
+                            }`}
+                        >
+                            {describeSyncStatus(status)}
+                        </Text>
+                        {isEnabled && (
+                            <Text
+                                className={`mt-1 text-xs font-bold uppercase ${
+                                    status.state === "error" ? "text-black/60" : "text-gray-500 dark:text-gray-400"
+                                }`}
+                            >
+                                {status.pendingChanges} changes waiting to be sent
+                            </Text>
+                        )}
+                    </View>
+                </Animated.View>
+
+                {/* Server */}
+                <Animated.View entering={FadeInDown.delay(200).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Sync Server
+                    </Text>
+                    <TextInput
+                        value={endpoint}
+                        onChangeText={setEndpoint}
+                        editable={!isEnabled && !isWorking}
+                        placeholder="https://sync.example.com"
+                        placeholderTextColor={colorScheme === "dark" ? "#666" : "#999"}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        keyboardType="url"
+                        className="mb-3 border-5 border-black bg-white p-4 font-bold text-base text-black dark:border-neo-primary dark:bg-neo-dark-surface dark:text-white"
+                    />
+                    {!isEnabled && (
+                        <TextInput
+                            value={joinUserId}
+                            onChangeText={setJoinUserId}
+                            editable={!isWorking}
+                            placeholder="USER ID OF YOUR OTHER DEVICE (OPTIONAL)"
+                            placeholderTextColor={colorScheme === "dark" ? "#666" : "#999"}
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                            className="mb-3 border-5 border-black bg-white p-4 font-bold text-base text-black dark:border-neo-primary dark:bg-neo-dark-surface dark:text-white"
+                        />
+                    )}
+                    {!isEnabled && joinUserId.trim() !== "" && (
+                        <TextInput
+                            value={joinSyncKey}
+                            onChangeText={setJoinSyncKey}
+                            editable={!isWorking}
+                            placeholder="SYNC KEY OF YOUR OTHER DEVICE"
+                            placeholderTextColor={colorScheme === "dark" ? "#666" : "#999"}
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                            secureTextEntry
+                            className="mb-3 border-5 border-black bg-white p-4 font-bold text-base text-black dark:border-neo-primary dark:bg-neo-dark-surface dark:text-white"
+                        />
+                    )}
+                    <Text className="mb-4 text-xs font-bold text-gray-600 dark:text-gray-400">
+                        Devices using the same User ID ({userId ?? "…"}), Sync Key and server share tasks and
+                        projects. The server only lets in devices that know the key. Reminders are scheduled on
+                        each device separately.
+                    </Text>
+                    {isEnabled && config && (
+                        <Text selectable className="mb-4 text-xs font-bold text-gray-600 dark:text-gray-400">
+                            Sync Key: {config.syncKey}
+                        </Text>
+                    )}
+
+                    {isEnabled ? (
+                        <>
+                            <Pressable
+                                onPress={handleSyncNow}
+                                disabled={status.state === "syncing"}
+                                className="mb-3 flex-row items-center justify-center gap-2 border-5 border-black bg-neo-green p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                            >
+                                <Ionicons name="sync-sharp" size={20} color="black" />
+                                <Text className="text-base font-black uppercase text-black">
+                                    Sync Now
+                                </Text>
+                            </Pressable>
+                            <Pressable
+                                onPress={handleDisable}
+                                className="flex-row items-center justify-center gap-2 border-5 border-black bg-white p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                            >
+                                <Text className="text-base font-black uppercase text-black dark:text-white">
+                                    Turn Off Sync
+                                </Text>
+                            </Pressable>
+                        </>
+                    ) : (
+                        <Pressable
+                            onPress={handleEnable}
+                            disabled={isWorking || !config}
+                            className="flex-row items-center justify-center gap-2 border-5 border-black bg-neo-accent p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="cloud-upload-sharp" size={20} color="black" />
+                            <Text className="text-base font-black uppercase text-black">
+                                Turn On Sync
+                            </Text>
+                        </Pressable>
+                    )}
+                </Animated.View>
+            </ScrollView>
+        </View>
+    );
+}
@@ -0,0 +1,308 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useTodoList } from "@/context/TodoListContext";
+import { Todo } from "@/types/todo";
+import { TodoList } from "@/types/todoList";
+import { BackupError, PickedFile, pickTextFile, shareTextFile } from "@/utils/backup";
+import { cancelTodoReminders, formatReconcileReport, resolveTodoReminders } from "@/utils/notifications";
+import {
+    TodoTxtDiff,
+    applyTodoTxtDiff,
+    buildTodoTxt,
+    diffTodoTxt,
+    loadTodoTxtSyncState,
+    readTodoTxtLines,
+    saveTodoTxtSyncState,
+} from "@/utils/todotxt";
+
+/**
+ * Share the todo.txt for the given data and remember what was written.
+ * The share sheet does not say whether the file was saved, so `added` keeps
+ * the new tasks of a sync recognisable in the file they came from.
+ */
+async function exportTodoTxt(todos: Todo[], lists: TodoList[], added?: Record<string, string[]>) {
+    const { text, lines } = buildTodoTxt(todos, lists);
+    await shareTextFile("todo.txt", text, {
+        mimeType: "text/plain",
+        dialogTitle: "Export todo.txt",
+        UTI: "public.plain-text",
+    });
+    await saveTodoTxtSyncState(lines, added);
+}
+
+export default function TodoTxtScreen() {
+    const insets = useSafeAreaInsets();
+    const { todos, replaceTodos, deleteTodos, reconcileReminders } = useTodoStore();
+    const { lists, replaceLists } = useTodoList();
+    const [pendingFile, setPendingFile] = useState<PickedFile | null>(null);
+    const [diff, setDiff] = useState<TodoTxtDiff | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    const handleExport = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        try {
+            await exportTodoTxt(todos, lists);
+        } catch (e) {
+            console.error("Failed to export todo.txt:", e);
+            Alert.alert("Export Failed", e instanceof BackupError ? e.message : "Could not create the file.");
+        }
+    }, [todos, lists]);
+
+    const handlePickFile = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        try {
+            const picked = await pickTextFile(["text/plain"]);
+            if (picked === null) return;
+
+            const state = await loadTodoTxtSyncState();
+            setDiff(diffTodoTxt(picked.text, todos, lists, state));
+            setPendingFile(picked);
+        } catch (e) {
+            console.error("Failed to read todo.txt:", e);
+            Alert.alert("Invalid File", "Could not read this file.");
+        }
+    }, [todos, lists]);
+
+    const handleApply = useCallback(async () => {
+        if (!diff || !pendingFile) return;
+        setIsWorking(true);
+        let partlySaved = false;
+        try {
+            const applied = applyTodoTxtDiff(diff, todos, lists);
+            const { newLists, added } = applied;
+            const nextLists = [...lists, ...newLists];
+
+            // Relative reminders follow a due date moved in the file
+            const moved = new Set(diff.updated.filter((u) => u.changed.includes("dueDate")).map((u) => u.todo.id));
+            const nextTodos = await Promise.all(
+                applied.todos.map((t) => (moved.has(t.id) && !t.archivedAt ? resolveTodoReminders(t) : t))
+            );
+
+            // Removed and newly completed tasks should stop notifying
+            const removedIds = diff.removed.map((t) => t.id);
+            const nextById = new Map(nextTodos.map((t) => [t.id, t]));
+            for (const todo of todos) {
+                const next = nextById.get(todo.id);
+                if (removedIds.includes(todo.id) || (next?.archivedAt && !todo.archivedAt)) {
+                    await cancelTodoReminders(todo);
+                }
+            }
+
+            if (newLists.length > 0) {
+                await replaceLists(nextLists);
+                partlySaved = true;
+            }
+            await replaceTodos(nextTodos);
+            partlySaved = true;
+            // Lines deleted in the file go to the trash like any other deletion
+            await deleteTodos(removedIds);
+            const repaired = formatReconcileReport(await reconcileReminders());
+
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            setDiff(null);
+
+            // New lines only get their id once the merged file is written back
+            Alert.alert(
+                "Synced",
+                "Save the updated todo.txt over your file so both sides match." + (repaired ? ` ${repaired}` : ""),
+                [
+                    {
+                        text: "Later",
+                        style: "cancel",
+                        onPress: async () => {
+                            await saveTodoTxtSyncState(readTodoTxtLines(pendingFile.text), added);
+                            setPendingFile(null);
+                        },
+                    },
+                    {
+                        text: "Save File",
+                        onPress: async () => {
+                            try {
+                                await exportTodoTxt(nextTodos, nextLists, added);
+                            } catch (e) {
+                                console.error("Failed to export todo.txt:", e);
+                            }
+                            setPendingFile(null);
+                        },
+                    },
+                ]
+            );
+        } catch (e) {
+            console.error("Failed to apply todo.txt:", e);
+            Alert.alert(
+                "Sync Failed",
+                partlySaved
+                    ? "Something went wrong while syncing. Part of the file was applied; check your tasks before syncing again."
+                    : "Something went wrong while syncing. Your data was not changed."
+            );
+        } finally {
+            setIsWorking(false);
+        }
+    }, [diff, pendingFile, todos, lists, replaceLists, replaceTodos, deleteTodos, reconcileReminders]);
+
+    const changeCount = diff ? diff.added.length + diff.updated.length + diff.removed.length : 0;
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        todo.txt
+                    </Text>
+                </View>
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Export */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Export
+                    </Text>
+                    <Pressable
+                        onPress={handleExport}
+                        disabled={isWorking}
+                        className="flex-row items-center gap-4 border-5 border-black bg-neo-accent p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark"
+                    >
+                        <Ionicons name="document-text-sharp" size={28} color="black" />
+                        <View className="flex-1">
+                            <Text className="text-lg font-black uppercase text-black">
+                                Export todo.txt
+                            </Text>
+                            <Text className="text-xs font-bold uppercase text-black/60">
+                                {todos.length} tasks · projects as +tags
+                            </Text>
+                        </View>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Sync */}
+                <Animated.View entering={FadeInDown.delay(200).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Sync
+                    </Text>
+                    <Pressable
+                        onPress={handlePickFile}
+                        disabled={isWorking}
+                        className="flex-row items-center gap-4 border-5 border-black bg-white p-5 shadow-brutal active:translate-x-[8px] active:translate-y-[8px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                    >
+                        <Ionicons name="sync-sharp" size={28} color="#FF0055" />
+                        <View className="flex-1">
+                            <Text className="text-lg font-black uppercase text-black dark:text-white">
+                                Sync With File
+                            </Text>
+                            <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                Apply only what changed in your todo.txt
+                            </Text>
+                        </View>
+                    </Pressable>
+                </Animated.View>
+
+                {/* Changes Preview */}
+                {diff && (
+                    <Animated.View
+                        entering={FadeInDown.duration(300)}
+                        className="border-5 border-black bg-white p-5 shadow-brutal dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark"
+                    >
+                        <Text className="mb-1 text-lg font-black uppercase text-black dark:text-white">
+                            {changeCount === 0 ? "Already in Sync" : "Changes Found"}
+                        </Text>
+                        <Text className="mb-4 text-sm font-bold text-gray-700 dark:text-gray-300">
+                            {diff.added.length} new · {diff.updated.length} changed · {diff.removed.length} removed ·{" "}
+                            {diff.unchanged} unchanged
+                        </Text>
+
+                        {diff.removed.length > 0 && (
+                            <View className="mb-3">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black dark:text-white">
+                                    Will Move to Trash
+                                </Text>
+                                <Text className="text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    {diff.removed.map((t) => t.text).join(", ")}
+                                </Text>
+                            </View>
+                        )}
+                        {diff.newProjects.length > 0 && (
+                            <View className="mb-3">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black dark:text-white">
+                                    New Projects
+                                </Text>
+                                <Text className="text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    {diff.newProjects.join(", ")}
+                                </Text>
+                            </View>
+                        )}
+                        {diff.warnings.length > 0 && (
+                            <View className="mb-3 border-4 border-black bg-neo-secondary p-3 dark:border-neo-primary">
+                                <Text className="mb-1 text-xs font-black uppercase tracking-widest text-black">
+                                    Could Not Be Mapped
+                                </Text>
+                                {diff.warnings.map((warning, index) => (
+                                    <Text key={index} className="text-xs font-bold text-black">
+                                        • {warning}
+                                    </Text>
+                                ))}
+                            </View>
+                        )}
+
+                        <Pressable
+                            onPress={handleApply}
+                            disabled={isWorking || changeCount === 0}
+                            className={`mt-2 mb-3 flex-row items-center justify-center gap-2 border-5 border-black bg-neo-green p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm ${
+                                changeCount === 0 ? "opacity-50" : ""
+                            }`}
+                        >
+                            <Ionicons name="checkmark-sharp" size={20} color="black" />
+                            <Text className="text-base font-black uppercase text-black">
+                                Apply {changeCount} Changes
+                            </Text>
+                        </Pressable>
+                        <Pressable
+                            onPress={() => {
+                                setDiff(null);
+                                setPendingFile(null);
+                            }}
+                            disabled={isWorking}
+                            className="flex-row items-center justify-center gap-2 border-5 border-black bg-white p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Text className="text-base font-black uppercase text-black dark:text-white">
+                                Cancel
+                            </Text>
+                        </Pressable>
+                    </Animated.View>
+                )}
+            </ScrollView>
+        </View>
+    );
+}
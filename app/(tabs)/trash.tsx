@@ -0,0 +1,225 @@
+import React, { useCallback, useMemo } from "react";
+import { View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { router } from "expo-router";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StatusBar } from "expo-status-bar";
+import * as Haptics from "expo-haptics";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useSettings } from "@/context/SettingsContext";
+import { Todo } from "@/types/todo";
+import { TRASH_RETENTION_OPTIONS } from "@/types/settings";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDeletedDate = (dateString: string) =>
+    new Date(dateString)
+        .toLocaleDateString("en-US", { month: "short", day: "numeric" })
+        .toUpperCase();
+
+export default function TrashScreen() {
+    const insets = useSafeAreaInsets();
+    const { trashedTodos, restoreDeletedTodos, purgeTodos, emptyTrash } = useTodoStore();
+    const { settings, updateTrashRetention } = useSettings();
+
+    const handleBack = useCallback(() => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    }, []);
+
+    // Most recently deleted first
+    const sortedTodos = useMemo(
+        () =>
+            [...trashedTodos].sort(
+                (a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()
+            ),
+        [trashedTodos]
+    );
+
+    const daysLeft = useCallback(
+        (todo: Todo) => {
+            const purgeAt = new Date(todo.deletedAt!).getTime() + settings.trashRetentionDays * DAY_MS;
+            return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+        },
+        [settings.trashRetentionDays]
+    );
+
+    const handleSetRetention = useCallback(async (days: number) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        await updateTrashRetention(days);
+    }, [updateTrashRetention]);
+
+    const handleRestore = useCallback(async (todo: Todo) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        await restoreDeletedTodos([todo.id]);
+    }, [restoreDeletedTodos]);
+
+    const handleDeleteForever = useCallback((todo: Todo) => {
+        Alert.alert(
+            "Delete Forever?",
+            `This will permanently delete "${todo.text}".`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        await purgeTodos([todo.id]);
+                    },
+                },
+            ]
+        );
+    }, [purgeTodos]);
+
+    const handleEmptyTrash = useCallback(() => {
+        if (trashedTodos.length === 0) return;
+
+        Alert.alert(
+            "Empty Trash?",
+            `This will permanently delete ${trashedTodos.length} ${
+                trashedTodos.length === 1 ? "task" : "tasks"
+            }.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Empty Trash",
+                    style: "destructive",
+                    onPress: async () => {
+                        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        await emptyTrash();
+                    },
+                },
+            ]
+        );
+    }, [trashedTodos.length, emptyTrash]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <StatusBar style="auto" />
+
+            {/* Header */}
+            <Animated.View
+                entering={FadeIn.duration(300)}
+                className="flex-row items-center gap-4 px-6 pt-8 pb-4"
+            >
+                <Pressable
+                    onPress={handleBack}
+                    className="h-12 w-12 items-center justify-center border-5 border-black bg-white shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="arrow-back-sharp" size={24} color="#FF0055" />
+                </Pressable>
+                <View className="flex-1">
+                    <Text className="text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Trash
+                    </Text>
+                </View>
+                {trashedTodos.length > 0 && (
+                    <Pressable
+                        onPress={handleEmptyTrash}
+                        className="h-12 items-center justify-center border-5 border-black bg-neo-primary px-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                    >
+                        <Text className="text-xs font-black uppercase text-white">
+                            Empty
+                        </Text>
+                    </Pressable>
+                )}
+            </Animated.View>
+
+            <ScrollView
+                className="flex-1 px-6"
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 24) + 24 }}
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Retention */}
+                <Animated.View entering={FadeInDown.delay(100).duration(300)} className="mb-6">
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Keep Deleted Tasks For
+                    </Text>
+                    <View className="flex-row gap-3">
+                        {TRASH_RETENTION_OPTIONS.map((days) => {
+                            const isSelected = settings.trashRetentionDays === days;
+                            return (
+                                <Pressable
+                                    key={days}
+                                    onPress={() => handleSetRetention(days)}
+                                    className={`flex-1 items-center border-4 border-black py-3 dark:border-neo-primary ${
+                                        isSelected ? "bg-neo-secondary" : "bg-white dark:bg-neo-dark-surface"
+                                    }`}
+                                >
+                                    <Text
+                                        className={`text-sm font-black uppercase ${
+                                            isSelected ? "text-black" : "text-black dark:text-white"
+                                        }`}
+                                    >
+                                        {days} days
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                </Animated.View>
+
+                {/* Deleted Tasks */}
+                <Animated.View entering={FadeInDown.delay(200).duration(300)}>
+                    <Text className="mb-3 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                        Deleted Tasks ({trashedTodos.length})
+                    </Text>
+
+                    {sortedTodos.length === 0 ? (
+                        <View className="items-center border-5 border-dashed border-gray-400 p-8 dark:border-neo-primary">
+                            <Ionicons name="trash-outline" size={40} color="#999" />
+                            <Text className="mt-3 text-sm font-black uppercase text-gray-500 dark:text-gray-400">
+                                Trash is empty
+                            </Text>
+                        </View>
+                    ) : (
+                        sortedTodos.map((todo) => (
+                            <View
+                                key={todo.id}
+                                className="mb-3 border-5 border-black bg-white p-4 shadow-brutal-sm dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                            >
+                                <Text
+                                    className="text-base font-black uppercase text-black dark:text-white"
+                                    numberOfLines={2}
+                                >
+                                    {todo.text}
+                                </Text>
+                                <Text className="mt-1 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                    Deleted {formatDeletedDate(todo.deletedAt!)} · purged in {daysLeft(todo)}{" "}
+                                    {daysLeft(todo) === 1 ? "day" : "days"}
+                                </Text>
+
+                                <View className="mt-3 flex-row gap-3">
+                                    <Pressable
+                                        onPress={() => handleRestore(todo)}
+                                        className="flex-1 flex-row items-center justify-center gap-2 border-4 border-black bg-neo-green py-2 active:translate-x-[2px] active:translate-y-[2px] dark:border-neo-primary"
+                                    >
+                                        <Ionicons name="arrow-undo-sharp" size={16} color="black" />
+                                        <Text className="text-xs font-black uppercase text-black">
+                                            Restore
+                                        </Text>
+                                    </Pressable>
+                                    <Pressable
+                                        onPress={() => handleDeleteForever(todo)}
+                                        className="flex-1 flex-row items-center justify-center gap-2 border-4 border-black bg-neo-primary py-2 active:translate-x-[2px] active:translate-y-[2px] dark:border-neo-primary"
+                                    >
+                                        <Ionicons name="close-sharp" size={16} color="white" />
+                                        <Text className="text-xs font-black uppercase text-white">
+                                            Delete Forever
+                                        </Text>
+                                    </Pressable>
+                                </View>
+                            </View>
+                        ))
+                    )}
+                </Animated.View>
+            </ScrollView>
+        </View>
+    );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
     View,
     Text,
@@ -8,7 +8,7 @@ import {
     Keyboard,
     Alert,
 } from "react-native";
-import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import Animated, { FadeIn } from "react-native-reanimated";
 import { Ionicons } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -18,68 +18,121 @@ import { twMerge } from "tailwind-merge";
 import { clsx } from "clsx";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import PomodoroTimer from "@/components/PomodoroTimer";
-import { Todo, getPriorityOption, getReminders } from "@/types/todo";
+import { Todo, getCreatedTime, getPriorityOption, getReminders } from "@/types/todo";
 import { DEFAULT_LIST_ID } from "@/types/todoList";
 import { useTodoList } from "@/context/TodoListContext";
 import { usePomodoro } from "@/context/PomodoroContext";
-import { cancelNotification, PomodoroTimerState } from "@/utils/notifications";
-import { createNextRecurringTodo, isRecurrenceActive, getRecurrenceShortLabel } from "@/utils/recurrence";
+import { useSettings } from "@/context/SettingsContext";
+import { useTodoStore } from "@/context/TodoStoreContext";
+import {
+    cancelNotification,
+    cancelTodoReminders,
+    scheduleTodoReminders,
+    PomodoroTimerState,
+} from "@/utils/notifications";
+import {
+    createNextRecurringTodo,
+    isRecurrenceActive,
+    getRecurrenceShortLabel,
+    moveOccurrence,
+} from "@/utils/recurrence";
 
 function cn(...inputs: (string | undefined | null | false)[]) {
     return twMerge(clsx(inputs));
 }
 
-const STORAGE_KEY = "@neo_brutal_todos_v2";
 const CARD_COLORS_COUNT = 6;
 
+const getDatePriority = (todo: Todo): number => {
+    if (!todo.dueDate) return 4;
+
+    const dueDate = new Date(todo.dueDate);
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const dueDateStart = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+
+    const diffDays = Math.floor((dueDateStart.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+    if (diffDays < 0) return 0;
+    if (diffDays === 0) return 1;
+    if (diffDays === 1) return 2;
+    return 3;
+};
+
 export default function ZenMode() {
     const params = useLocalSearchParams<{
         taskId?: string;
         initialTimerState?: PomodoroTimerState;
         initialSessionsCompleted?: string;
     }>();
-    const [todos, setTodos] = useState<Todo[]>([]);
-    const [selectedTodo, setSelectedTodo] = useState<Todo | null>(null);
+    const [selectedTodoId, setSelectedTodoId] = useState<string | null>(null);
     const [timerStarted, setTimerStarted] = useState(false);
     const [isInitializing, setIsInitializing] = useState(true);
     const insets = useSafeAreaInsets();
     const { selectedListId, selectedList, setSelectedListId } = useTodoList();
     const { activeTimer, clearActiveTimer} = usePomodoro();
+    const { settings } = useSettings();
+    const {
+        todos: allTodos,
+        activeTodos: storedActiveTodos,
+        isLoading: isStoreLoading,
+        getTodo,
+        updateTodo,
+        archiveTodo,
+        skipTodo,
+    } = useTodoStore();
+
+    const todos = useMemo(() => {
+        const activeTodos = storedActiveTodos.filter((t) => {
+            const todoListId = t.listId || DEFAULT_LIST_ID;
+            return todoListId === selectedListId;
+        });
+
+        return activeTodos.sort((a, b) => {
+            const priorityA = getDatePriority(a);
+            const priorityB = getDatePriority(b);
+
+            if (priorityA !== priorityB) {
+                return priorityA - priorityB;
+            }
 
-    // Load task directly if taskId is provided
-    const loadTaskById = useCallback(async (taskId: string) => {
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const allTodos: Todo[] = JSON.parse(stored);
-                const task = allTodos.find(t => t.id === taskId && !t.archivedAt);
-
-                if (task) {
-                    const taskListId = task.listId || DEFAULT_LIST_ID;
-                    if (taskListId !== selectedListId) {
-                        setSelectedListId(taskListId);
-                    }
-
-                    setSelectedTodo(task);
-                    setTimerStarted(true);
-                    return true;
-                }
+            if (a.dueDate && b.dueDate) {
+                return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
             }
-            return false;
-        } catch (e) {
-            console.error("Failed to load task by ID:", e);
-            return false;
+
+            return getCreatedTime(b) - getCreatedTime(a);
+        });
+    }, [storedActiveTodos, selectedListId]);
+
+    const selectedTodo = useMemo(
+        () => allTodos.find((t) => t.id === selectedTodoId) || null,
+        [allTodos, selectedTodoId]
+    );
+
+    // Select a task directly if it exists and is still active
+    const loadTaskById = useCallback((taskId: string) => {
+        const task = getTodo(taskId);
+        if (!task || task.archivedAt) return false;
+
+        const taskListId = task.listId || DEFAULT_LIST_ID;
+        if (taskListId !== selectedListId) {
+            setSelectedListId(taskListId);
         }
-    }, [selectedListId, setSelectedListId]);
+
+        setSelectedTodoId(task.id);
+        setTimerStarted(true);
+        return true;
+    }, [getTodo, selectedListId, setSelectedListId]);
 
     useEffect(() => {
+        if (isStoreLoading) return;
+
         const initFromActiveTimerOrParams = async () => {
             // If coming from a notification with timer state, load task directly
             // Skip activeTimer check since the timer has completed
             if (params.taskId && params.initialTimerState) {
                 await clearActiveTimer(); // Clear any stale timer state
-                const loaded = await loadTaskById(params.taskId);
-                if (loaded) {
+                if (loadTaskById(params.taskId)) {
                     setIsInitializing(false);
                     return;
                 }
@@ -87,112 +140,27 @@ export default function ZenMode() {
 
             // Check if there's an active timer
             if (activeTimer) {
-                try {
-                    const stored = await AsyncStorage.getItem(STORAGE_KEY);
-                    if (stored) {
-                        const allTodos: Todo[] = JSON.parse(stored);
-                        const task = allTodos.find(t => t.id === activeTimer.taskId && !t.archivedAt);
-
-                        if (task) {
-                            const taskListId = task.listId || DEFAULT_LIST_ID;
-                            if (taskListId !== selectedListId) {
-                                setSelectedListId(taskListId);
-                            }
-
-                            setSelectedTodo(task);
-                            setTimerStarted(true);
-                            setIsInitializing(false);
-                            return;
-                        } else {
-                            await clearActiveTimer();
-                        }
-                    }
-                } catch (e) {
-                    console.error("Failed to load task for active timer:", e);
+                if (loadTaskById(activeTimer.taskId)) {
+                    setIsInitializing(false);
+                    return;
                 }
+                await clearActiveTimer();
             }
 
             // Then check if a taskId was passed as a parameter (without timer state)
-            if (params.taskId) {
-                const loaded = await loadTaskById(params.taskId);
-                if (loaded) {
-                    setIsInitializing(false);
-                    return;
-                }
+            if (params.taskId && loadTaskById(params.taskId)) {
+                setIsInitializing(false);
+                return;
             }
 
             setIsInitializing(false);
         };
 
         initFromActiveTimerOrParams();
-    }, [activeTimer, params.taskId, params.initialTimerState]);
-
-    useFocusEffect(
-        useCallback(() => {
-            if (!isInitializing && !timerStarted) {
-                loadTodos();
-            }
-        }, [selectedListId, isInitializing, timerStarted])
-    );
-
-    const loadTodos = async () => {
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const allTodos: Todo[] = JSON.parse(stored);
-                const activeTodos = allTodos.filter((t) => {
-                    const todoListId = t.listId || DEFAULT_LIST_ID;
-                    return !t.archivedAt && todoListId === selectedListId;
-                });
-
-                activeTodos.sort((a, b) => {
-                    const priorityA = getDatePriority(a);
-                    const priorityB = getDatePriority(b);
-
-                    if (priorityA !== priorityB) {
-                        return priorityA - priorityB;
-                    }
-
-                    if (a.dueDate && b.dueDate) {
-                        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-                    }
-
-                    return parseInt(b.id) - parseInt(a.id);
-                });
-
-                setTodos(activeTodos);
-
-                // Update selectedTodo if it exists in the refreshed list
-                if (selectedTodo) {
-                    const updatedTodo = activeTodos.find(t => t.id === selectedTodo.id);
-                    if (updatedTodo) {
-                        setSelectedTodo(updatedTodo);
-                    }
-                }
-            }
-        } catch {
-            console.error("Failed to load todos");
-        }
-    };
-
-    const getDatePriority = (todo: Todo): number => {
-        if (!todo.dueDate) return 4;
-
-        const dueDate = new Date(todo.dueDate);
-        const now = new Date();
-        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const dueDateStart = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-
-        const diffDays = Math.floor((dueDateStart.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-        if (diffDays < 0) return 0;
-        if (diffDays === 0) return 1;
-        if (diffDays === 1) return 2;
-        return 3;
-    };
+    }, [isStoreLoading, activeTimer, params.taskId, params.initialTimerState]);
 
     const handleTaskSelect = async (todo: Todo) => {
-        setSelectedTodo(todo);
+        setSelectedTodoId(todo.id);
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     };
 
@@ -204,7 +172,7 @@ export default function ZenMode() {
 
     const handleComplete = async () => {
         setTimerStarted(false);
-        setSelectedTodo(null);
+        setSelectedTodoId(null);
         await clearActiveTimer();
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     };
@@ -212,65 +180,24 @@ export default function ZenMode() {
     const handleToggleSubtask = useCallback(async (subtaskId: string) => {
         if (!selectedTodo) return;
 
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const allTodos: Todo[] = JSON.parse(stored);
-                const updatedTodos = allTodos.map((t) =>
-                    t.id === selectedTodo.id
-                        ? {
-                            ...t,
-                            subtasks: (t.subtasks || []).map((s) =>
-                                s.id === subtaskId ? { ...s, completed: !s.completed } : s
-                            ),
-                        }
-                        : t
-                );
-
-                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedTodos));
-
-                // Update local state
-                const updatedTodo = updatedTodos.find(t => t.id === selectedTodo.id);
-                if (updatedTodo) {
-                    setSelectedTodo(updatedTodo);
-                }
-
-                await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            }
-        } catch {
-            console.error("Failed to toggle subtask");
-        }
-    }, [selectedTodo]);
+        await updateTodo(selectedTodo.id, (t) => ({
+            ...t,
+            subtasks: (t.subtasks || []).map((s) =>
+                s.id === subtaskId ? { ...s, completed: !s.completed } : s
+            ),
+        }));
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }, [selectedTodo, updateTodo]);
 
     const handleDeleteSubtask = useCallback(async (subtaskId: string) => {
         if (!selectedTodo) return;
 
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const allTodos: Todo[] = JSON.parse(stored);
-                const updatedTodos = allTodos.map((t) =>
-                    t.id === selectedTodo.id
-                        ? {
-                            ...t,
-                            subtasks: (t.subtasks || []).filter((s) => s.id !== subtaskId),
-                        }
-                        : t
-                );
-
-                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedTodos));
-
-                const updatedTodo = updatedTodos.find(t => t.id === selectedTodo.id);
-                if (updatedTodo) {
-                    setSelectedTodo(updatedTodo);
-                }
-
-                await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-            }
-        } catch {
-            console.error("Failed to delete subtask");
-        }
-    }, [selectedTodo]);
+        await updateTodo(selectedTodo.id, (t) => ({
+            ...t,
+            subtasks: (t.subtasks || []).filter((s) => s.id !== subtaskId),
+        }));
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }, [selectedTodo, updateTodo]);
 
     const handleCompleteTask = async (taskId: string) => {
         // Clear the active Pomodoro timer first (this cancels the notification)
@@ -282,104 +209,76 @@ export default function ZenMode() {
             console.error("Failed to clear sessions count:", e);
         }
 
-        try {
-            const stored = await AsyncStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const allTodos: Todo[] = JSON.parse(stored);
-
-                const todo = allTodos.find((t) => t.id === taskId);
-                if (!todo) return;
+        const todo = getTodo(taskId);
+        if (!todo) return;
 
-                // Cancel legacy notification
-                if (todo.notificationId) {
-                    await cancelNotification(todo.notificationId);
-                }
-
-                // Cancel all reminder notifications (including migrated legacy)
-                const reminders = getReminders(todo);
-                for (const reminder of reminders) {
-                    if (reminder.notificationId) {
-                        await cancelNotification(reminder.notificationId);
-                    }
-                }
-
-                let updatedTodos: Todo[];
-
-                if (isRecurrenceActive(todo.recurrence)) {
-                    const nextTodo = createNextRecurringTodo(
-                        todo,
-                        Math.floor(Math.random() * CARD_COLORS_COUNT)
-                    );
-
-                    if (nextTodo) {
-                        updatedTodos = allTodos.map((t) =>
-                            t.id === taskId
-                                ? { ...t, completed: true, archivedAt: new Date().toISOString() }
-                                : t
-                        );
-                        updatedTodos = [nextTodo, ...updatedTodos];
-
-                        setTimeout(() => {
-                            Alert.alert(
-                                "Task Completed! 🎉",
-                                `Next "${todo.text}" scheduled for ${new Date(
-                                    nextTodo.dueDate!
-                                ).toLocaleDateString("en-US", {
-                                    weekday: "short",
-                                    month: "short",
-                                    day: "numeric",
-                                })}`,
-                                [{ text: "Got it!" }]
-                            );
-                        }, 300);
-                    } else {
-                        updatedTodos = allTodos.map((t) =>
-                            t.id === taskId
-                                ? { ...t, completed: true, archivedAt: new Date().toISOString() }
-                                : t
-                        );
-                    }
-                } else {
-                    updatedTodos = allTodos.map((t) =>
-                        t.id === taskId
-                            ? { ...t, completed: true, archivedAt: new Date().toISOString() }
-                            : t
-                    );
-                }
-
-                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedTodos));
+        // Cancel all reminder notifications
+        const reminders = getReminders(todo);
+        for (const reminder of reminders) {
+            if (reminder.notificationId) {
+                await cancelNotification(reminder.notificationId);
+            }
+        }
 
-                const activeTodos = updatedTodos.filter((t) => {
-                    const todoListId = t.listId || DEFAULT_LIST_ID;
-                    return !t.archivedAt && todoListId === selectedListId;
-                });
+        const nextTodo = isRecurrenceActive(todo.recurrence)
+            ? createNextRecurringTodo(
+                todo,
+                Math.floor(Math.random() * CARD_COLORS_COUNT),
+                new Date(),
+                settings.holidays
+            )
+            : null;
+
+        await archiveTodo(taskId, nextTodo || undefined);
+
+        if (nextTodo) {
+            setTimeout(() => {
+                Alert.alert(
+                    "Task Completed! 🎉",
+                    `Next "${todo.text}" scheduled for ${new Date(
+                        nextTodo.dueDate!
+                    ).toLocaleDateString("en-US", {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                    })}`,
+                    [{ text: "Got it!" }]
+                );
+            }, 300);
+        }
 
-                activeTodos.sort((a, b) => {
-                    const priorityA = getDatePriority(a);
-                    const priorityB = getDatePriority(b);
+        setTimerStarted(false);
+        setSelectedTodoId(null);
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-                    if (priorityA !== priorityB) {
-                        return priorityA - priorityB;
-                    }
+        // Navigate back to main screen after completing task
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace("/(tabs)");
+        }
+    };
 
-                    if (a.dueDate && b.dueDate) {
-                        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-                    }
+    const handleSkipOccurrence = async (taskId: string) => {
+        await clearActiveTimer();
 
-                    return parseInt(b.id) - parseInt(a.id);
-                });
+        const todo = getTodo(taskId);
+        if (!todo) return;
 
-                setTodos(activeTodos);
-            }
-        } catch {
-            console.error("Failed to complete todo");
-        }
+        await cancelTodoReminders(todo);
+        const nextTodo = createNextRecurringTodo(
+            todo,
+            Math.floor(Math.random() * CARD_COLORS_COUNT),
+            new Date(),
+            settings.holidays,
+            true
+        );
+        await skipTodo(taskId, nextTodo ? await scheduleTodoReminders(nextTodo) : undefined);
 
         setTimerStarted(false);
-        setSelectedTodo(null);
+        setSelectedTodoId(null);
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-        // Navigate back to main screen after completing task
         if (router.canGoBack()) {
             router.back();
         } else {
@@ -387,6 +286,30 @@ export default function ZenMode() {
         }
     };
 
+    const handleMoveOccurrence = async (taskId: string, date: Date) => {
+        const todo = getTodo(taskId);
+        if (!todo) return;
+
+        await cancelTodoReminders(todo);
+        const moved = await scheduleTodoReminders(moveOccurrence(todo, date));
+        await updateTodo(taskId, {
+            dueDate: moved.dueDate,
+            occurrenceDate: moved.occurrenceDate,
+            reminders: moved.reminders,
+        });
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+        Alert.alert(
+            "Occurrence Moved",
+            `"${todo.text}" is now due ${date.toLocaleDateString("en-US", {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+            })}. The rest of the series is unchanged.`,
+            [{ text: "Got it!" }]
+        );
+    };
+
     const handleBack = async () => {
         if (timerStarted && activeTimer) {
             Alert.alert(
@@ -468,6 +391,8 @@ export default function ZenMode() {
                     subtasks={selectedTodo.subtasks || []}
                     onComplete={handleComplete}
                     onCompleteTask={handleCompleteTask}
+                    onSkipOccurrence={isRecurrenceActive(selectedTodo.recurrence) ? handleSkipOccurrence : undefined}
+                    onMoveOccurrence={isRecurrenceActive(selectedTodo.recurrence) ? handleMoveOccurrence : undefined}
                     onToggleSubtask={handleToggleSubtask}
                     onDeleteSubtask={handleDeleteSubtask}
                     onBack={handleBack}
@@ -1,5 +1,8 @@
 import "../global.css";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useTimeZoneReplan } from "@/hooks/use-time-zone-replan";
+import { useReminderActions } from "@/hooks/use-reminder-actions";
+import { useReminderReconcile } from "@/hooks/use-reminder-reconcile";
 import { DarkTheme, DefaultTheme, ThemeProvider } from "@react-navigation/native";
 import { StatusBar } from "expo-status-bar";
 import {useEffect, useRef} from "react";
@@ -14,20 +17,30 @@ import {
     ReanimatedLogLevel,
 } from "react-native-reanimated";
 
-import { TodoListProvider } from "@/context/TodoListContext";
+import { TodoStoreProvider, useTodoStore, TODOS_STORAGE_KEY } from "@/context/TodoStoreContext";
+import { TodoListProvider, useTodoList, LISTS_STORAGE_KEY } from "@/context/TodoListContext";
 import { ToastProvider } from "@/context/ToastContext";
 import { PomodoroProvider, usePomodoro } from "@/context/PomodoroContext";
 import { BulkEditProvider } from "@/context/BulkEditContext";
-import { SettingsProvider } from "@/context/SettingsContext";
+import { SettingsProvider, useSettings, SETTINGS_STORAGE_KEY } from "@/context/SettingsContext";
 import { UserProvider } from "@/context/UserContext";
+import { SyncProvider } from "@/context/SyncContext";
 import { SubscriptionProvider } from "@/context/SubscriptionContext";
 import ProjectDrawer from "@/components/ProjectDrawer";
+import MigrationGate from "@/components/MigrationGate";
+import RecoveryScreen from "@/components/RecoveryScreen";
+import { isAppSettings, isTodoArray, isTodoListArray } from "@/utils/persistence";
+import { replaceAllLists, replaceAllTodos } from "@/utils/database";
 
 configureReanimatedLogger({
     level: ReanimatedLogLevel.warn,
     strict: false,
 });
 
+// Todos and lists are stored in SQLite, so recovery writes there instead of AsyncStorage
+const clearTodos = () => replaceAllTodos([]);
+const clearLists = () => replaceAllLists([]);
+
 const COLORS = {
     light: {
         background: "#FFF8F0",
@@ -43,10 +56,17 @@ function NavigationContent() {
     const colorScheme = useColorScheme();
     const isDark = colorScheme === "dark";
     const { activeTimer, isCheckingTimer, initialNotification, clearInitialNotification } = usePomodoro();
+    const { loadError: todosLoadError, reload: reloadTodos } = useTodoStore();
+    const { loadError: listsLoadError, loadLists } = useTodoList();
+    const { loadError: settingsLoadError, loadSettings } = useSettings();
     const pathname = usePathname();
     const hasCheckedInitial = useRef(false);
     const handledNotificationRef = useRef<string | null>(null);
 
+    useTimeZoneReplan();
+    useReminderActions();
+    useReminderReconcile();
+
     useEffect(() => {
         if (isCheckingTimer) return;
 
@@ -99,6 +119,45 @@ function NavigationContent() {
         return null;
     }
 
+    // Stored data failed to load: offer snapshots instead of running on empty data
+    if (todosLoadError) {
+        return (
+            <RecoveryScreen
+                title="Tasks"
+                storageKey={TODOS_STORAGE_KEY}
+                error={todosLoadError}
+                validate={isTodoArray}
+                onRecovered={reloadTodos}
+                write={replaceAllTodos}
+                discard={clearTodos}
+            />
+        );
+    }
+    if (listsLoadError) {
+        return (
+            <RecoveryScreen
+                title="Projects"
+                storageKey={LISTS_STORAGE_KEY}
+                error={listsLoadError}
+                validate={isTodoListArray}
+                onRecovered={loadLists}
+                write={replaceAllLists}
+                discard={clearLists}
+            />
+        );
+    }
+    if (settingsLoadError) {
+        return (
+            <RecoveryScreen
+                title="Settings"
+                storageKey={SETTINGS_STORAGE_KEY}
+                error={settingsLoadError}
+                validate={isAppSettings}
+                onRecovered={loadSettings}
+            />
+        );
+    }
+
     return (
         <ThemeProvider value={isDark ? DarkTheme : DefaultTheme}>
             <Drawer
@@ -142,28 +201,34 @@ export default function RootLayout() {
 
     return (
         <GestureHandlerRootView style={{ flex: 1 }}>
-            <UserProvider>
-                <SubscriptionProvider>
-                    <SettingsProvider>
-                        <TodoListProvider>
-                            <ToastProvider>
-                                <PomodoroProvider>
-                                    <BulkEditProvider>
-                                        <View
-                                            style={{
-                                                flex: 1,
-                                                backgroundColor: theme.background,
-                                            }}
-                                        >
-                                            <NavigationContent />
-                                        </View>
-                                    </BulkEditProvider>
-                                </PomodoroProvider>
-                            </ToastProvider>
-                        </TodoListProvider>
-                    </SettingsProvider>
-                </SubscriptionProvider>
-            </UserProvider>
+            <MigrationGate>
+                <UserProvider>
+                    <SubscriptionProvider>
+                        <SettingsProvider>
+                            <TodoStoreProvider>
+                                <TodoListProvider>
+                                    <SyncProvider>
+                                        <ToastProvider>
+                                            <PomodoroProvider>
+                                                <BulkEditProvider>
+                                                    <View
+                                                        style={{
+                                                            flex: 1,
+                                                            backgroundColor: theme.background,
+                                                        }}
+                                                    >
+                                                        <NavigationContent />
+                                                    </View>
+                                                </BulkEditProvider>
+                                            </PomodoroProvider>
+                                        </ToastProvider>
+                                    </SyncProvider>
+                                </TodoListProvider>
+                            </TodoStoreProvider>
+                        </SettingsProvider>
+                    </SubscriptionProvider>
+                </UserProvider>
+            </MigrationGate>
         </GestureHandlerRootView>
     );
 }
\ No newline at end of file
@@ -51,7 +51,7 @@ interface ArchivedItemProps {
     index: number;
     onRestore: (id: string) => void;
     onDelete: (id: string) => void;
-    onShowDeleteToast: (todo: Todo) => void;
+    onShowDeleteToast: (todos: Todo[]) => void;
 }
 
 function ArchivedItem({ item, index, onRestore, onDelete, onShowDeleteToast }: ArchivedItemProps) {
@@ -63,8 +63,8 @@ function ArchivedItem({ item, index, onRestore, onDelete, onShowDeleteToast }: A
 
     const handleDelete = useCallback(() => {
         Alert.alert(
-            "Delete Forever?",
-            `This will permanently delete "${item.text}".`,
+            "Move to Trash?",
+            `"${item.text}" can be restored from the trash.`,
             [
                 { text: "Cancel", style: "cancel" },
                 {
@@ -75,7 +75,7 @@ function ArchivedItem({ item, index, onRestore, onDelete, onShowDeleteToast }: A
                             Haptics.NotificationFeedbackType.Warning
                         );
                         onDelete(item.id);
-                        onShowDeleteToast(item);
+                        onShowDeleteToast([item]);
                     },
                 },
             ]
@@ -116,7 +116,11 @@ function ArchivedItem({ item, index, onRestore, onDelete, onShowDeleteToast }: A
             <View className="flex-row items-center gap-3">
                 {/* Checkmark icon */}
                 <View className="h-10 w-10 items-center justify-center border-4 border-black bg-black dark:border-neo-primary dark:bg-neo-primary">
-                    <Ionicons name="checkmark-sharp" size={20} color="white" />
+                    <Ionicons
+                        name={item.skippedAt ? "play-skip-forward-sharp" : "checkmark-sharp"}
+                        size={20}
+                        color="white"
+                    />
                 </View>
 
                 {/* Text content */}
@@ -128,7 +132,7 @@ function ArchivedItem({ item, index, onRestore, onDelete, onShowDeleteToast }: A
                         {item.text}
                     </Text>
                     <Text className="mt-1 text-xs font-black uppercase tracking-widest text-gray-500 dark:text-gray-200">
-                        Archived {formatArchivedDate(item.archivedAt)}
+                        {item.skippedAt ? "Skipped" : "Archived"} {formatArchivedDate(item.archivedAt)}
                     </Text>
                 </View>
 
@@ -169,9 +173,9 @@ export default function ArchiveModal({
 
         Alert.alert(
             "Clear Archive?",
-            `This will permanently delete ${archivedTodos.length} ${
+            `This will move ${archivedTodos.length} ${
                 archivedTodos.length === 1 ? "item" : "items"
-            }.`,
+            } to the trash.`,
             [
                 { text: "Cancel", style: "cancel" },
                 {
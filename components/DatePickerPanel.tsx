@@ -26,6 +26,7 @@ interface DatePickerPanelProps {
     dueDate?: string;
     recurrence?: RecurrencePattern;
     onAddReminder: (date: Date) => void;
+    onAddRelativeReminder: (offsetMinutes: number) => void;
     onRemoveReminder: (reminderId: string) => void;
     onSetDueDate: (date: Date) => void;
     onClearDueDate: () => void;
@@ -38,6 +39,7 @@ export default function DatePickerPanel({
                                             dueDate,
                                             recurrence,
                                             onAddReminder,
+                                            onAddRelativeReminder,
                                             onRemoveReminder,
                                             onSetDueDate,
                                             onClearDueDate,
@@ -194,7 +196,9 @@ export default function DatePickerPanel({
             <View className="mt-2">
                 <MultiReminderPicker
                     reminders={reminders}
+                    dueDate={dueDate}
                     onAddReminder={onAddReminder}
+                    onAddRelativeReminder={onAddRelativeReminder}
                     onRemoveReminder={onRemoveReminder}
                 />
             </View>
@@ -0,0 +1,84 @@
+import React, { ReactNode, useCallback, useEffect, useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { MigrationResult, runMigrations } from "@/utils/migrations";
+
+interface MigrationGateProps {
+    children: ReactNode;
+}
+
+/**
+ * Runs pending storage migrations before rendering the app.
+ * Nothing below this gate reads storage until migrations have finished.
+ */
+export default function MigrationGate({ children }: MigrationGateProps) {
+    const [result, setResult] = useState<MigrationResult | null>(null);
+    const [skipped, setSkipped] = useState(false);
+
+    const migrate = useCallback(async () => {
+        setResult(null);
+        setResult(await runMigrations());
+    }, []);
+
+    useEffect(() => {
+        migrate();
+    }, [migrate]);
+
+    const handleRetry = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        migrate();
+    }, [migrate]);
+
+    const handleSkip = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setSkipped(true);
+    }, []);
+
+    if (!result) {
+        return null;
+    }
+
+    if (result.status === "failed" && !skipped) {
+        return (
+            <View className="flex-1 justify-center bg-neo-bg px-6 dark:bg-neo-dark">
+                <View className="border-5 border-black bg-white p-6 shadow-brutal dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark">
+                    <View className="mb-4 flex-row items-center gap-3">
+                        <Ionicons name="warning-sharp" size={32} color="#FF0055" />
+                        <Text className="flex-1 text-2xl font-black uppercase tracking-tighter text-black dark:text-white">
+                            Data Upgrade Failed
+                        </Text>
+                    </View>
+                    <Text className="mb-2 text-sm font-bold text-gray-700 dark:text-gray-300">
+                        Your tasks could not be upgraded to the latest format (step {result.failedVersion}).
+                        Nothing was lost — your data was restored to how it was before the upgrade.
+                    </Text>
+                    <Text className="mb-6 text-xs font-bold text-gray-500 dark:text-gray-400">
+                        {result.error}
+                    </Text>
+
+                    <Pressable
+                        onPress={handleRetry}
+                        className="mb-3 flex-row items-center justify-center gap-2 border-5 border-black bg-neo-accent p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-primary dark:shadow-brutal-dark-sm"
+                    >
+                        <Ionicons name="refresh-sharp" size={20} color="black" />
+                        <Text className="text-lg font-black uppercase text-black">
+                            Try Again
+                        </Text>
+                    </Pressable>
+                    <Pressable
+                        onPress={handleSkip}
+                        className="flex-row items-center justify-center gap-2 border-5 border-black bg-white p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                    >
+                        <Text className="text-lg font-black uppercase text-black dark:text-white">
+                            Continue Anyway
+                        </Text>
+                    </Pressable>
+                </View>
+            </View>
+        );
+    }
+
+    return <>{children}</>;
+}
@@ -14,7 +14,8 @@ import Animated, {
 import { twMerge } from "tailwind-merge";
 import { clsx } from "clsx";
 import * as Haptics from "expo-haptics";
-import { Reminder } from "@/types/todo";
+import { Reminder, RELATIVE_REMINDER_OPTIONS } from "@/types/todo";
+import { formatReminderOffset } from "@/utils/reminders";
 import { useSubscription } from "@/context/SubscriptionContext";
 import { canAddMoreReminders } from "@/utils/featureGates";
 import PaywallSheet from "./PaywallSheet";
@@ -25,7 +26,9 @@ function cn(...inputs: (string | undefined | null | false)[]) {
 
 interface MultiReminderPickerProps {
     reminders: Reminder[];
+    dueDate?: string;
     onAddReminder: (date: Date) => void;
+    onAddRelativeReminder: (offsetMinutes: number) => void;
     onRemoveReminder: (reminderId: string) => void;
 }
 
@@ -38,7 +41,9 @@ const TIMING_CONFIG = {
 
 export default function MultiReminderPicker({
                                                 reminders,
+                                                dueDate,
                                                 onAddReminder,
+                                                onAddRelativeReminder,
                                                 onRemoveReminder,
                                             }: MultiReminderPickerProps) {
     const [isDatePickerVisible, setDatePickerVisibility] = useState(false);
@@ -90,6 +95,20 @@ export default function MultiReminderPicker({
         [onAddReminder, hideDatePicker]
     );
 
+    const handleAddRelativeReminder = useCallback(
+        async (offsetMinutes: number) => {
+            if (!canAddMore) {
+                await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                if (!isPremium) {
+                    setShowPaywall(true);
+                }
+                return;
+            }
+            onAddRelativeReminder(offsetMinutes);
+        },
+        [canAddMore, isPremium, onAddRelativeReminder]
+    );
+
     const handleRemoveReminder = useCallback(
         async (reminderId: string) => {
             await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -139,6 +158,10 @@ export default function MultiReminderPicker({
         };
     };
 
+    // Offsets already in use are not offered again
+    const usedOffsets = new Set(reminders.map((r) => r.offsetMinutes));
+    const relativeOptions = RELATIVE_REMINDER_OPTIONS.filter((o) => !usedOffsets.has(o.offsetMinutes));
+
     // Sort reminders by date
     const sortedReminders = [...reminders].sort(
         (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
@@ -164,7 +187,10 @@ export default function MultiReminderPicker({
             {sortedReminders.length > 0 && (
                 <View className="gap-2">
                     {sortedReminders.map((reminder, index) => {
-                        const { label, isPast } = formatReminderDate(reminder.date);
+                        const { label: dateLabel, isPast } = formatReminderDate(reminder.date);
+                        const label = reminder.offsetMinutes === undefined
+                            ? dateLabel
+                            : `${formatReminderOffset(reminder.offsetMinutes).toUpperCase()} · ${dateLabel}`;
                         return (
                             <Animated.View
                                 key={reminder.id}
@@ -186,7 +212,7 @@ export default function MultiReminderPicker({
                                         )}
                                     >
                                         <Ionicons
-                                            name={isPast ? "time-outline" : "notifications-sharp"}
+                                            name={isPast ? "time-outline" : reminder.offsetMinutes !== undefined ? "link-sharp" : "notifications-sharp"}
                                             size={16}
                                             color={isPast ? "white" : "#FF0055"}
                                         />
@@ -214,6 +240,29 @@ export default function MultiReminderPicker({
                 </View>
             )}
 
+            {/* Relative Reminders (follow the due date) */}
+            {dueDate && relativeOptions.length > 0 && (
+                <View>
+                    <Text className="mb-2 text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        Before Due
+                    </Text>
+                    <View className="flex-row gap-2">
+                        {relativeOptions.map((option) => (
+                            <Pressable
+                                key={option.offsetMinutes}
+                                onPress={() => handleAddRelativeReminder(option.offsetMinutes)}
+                                accessibilityLabel={`Remind ${formatReminderOffset(option.offsetMinutes).toLowerCase()}`}
+                                className="flex-1 items-center justify-center border-4 border-black bg-white py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                            >
+                                <Text className="text-xs font-black uppercase text-black dark:text-white">
+                                    {option.label}
+                                </Text>
+                            </Pressable>
+                        ))}
+                    </View>
+                </View>
+            )}
+
             {/* Add Reminder Button */}
             <AnimatedPressable
                 onPress={showDatePicker}
@@ -1,9 +1,10 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { Alert, AppState, AppStateStatus, Pressable, ScrollView, Text, View } from "react-native";
+import { Alert, AppState, AppStateStatus, Pressable, ScrollView, Text, View, useColorScheme } from "react-native";
 import Animated, { Easing, useAnimatedStyle, useSharedValue, withTiming } from "react-native-reanimated";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import DateTimePickerModal from "react-native-modal-datetime-picker";
 import { cancelNotification, schedulePomodoroNotification, PomodoroTimerState } from "@/utils/notifications";
 import { usePomodoro, PersistedTimerState } from "@/context/PomodoroContext";
 import { useSettings } from "@/context/SettingsContext";
@@ -22,6 +23,9 @@ interface PomodoroTimerProps {
     subtasks: Subtask[];
     onComplete: () => void;
     onCompleteTask: (taskId: string) => void;
+    // Only passed for recurring tasks
+    onSkipOccurrence?: (taskId: string) => void;
+    onMoveOccurrence?: (taskId: string, date: Date) => void;
     onToggleSubtask: (subtaskId: string) => void;
     onDeleteSubtask: (subtaskId: string) => void;
     onBack: () => void;
@@ -46,6 +50,8 @@ export default function PomodoroTimer({
                                           taskId,
                                           subtasks,
                                           onCompleteTask,
+                                          onSkipOccurrence,
+                                          onMoveOccurrence,
                                           onToggleSubtask,
                                           onDeleteSubtask,
                                           onBack,
@@ -69,6 +75,8 @@ export default function PomodoroTimer({
     const [isInitialized, setIsInitialized] = useState(false);
 
     const [endTime, setEndTime] = useState<number | null>(null);
+    const [showMoveDatePicker, setShowMoveDatePicker] = useState(false);
+    const colorScheme = useColorScheme();
 
     const appStateRef = useRef(AppState.currentState);
     const { activeTimer, setActiveTimer, } = usePomodoro();
@@ -530,6 +538,33 @@ export default function PomodoroTimer({
         );
     }, [notificationId, onCompleteTask, taskId, clearPersistedState, clearSessionsCount]);
 
+    const handleSkipOccurrencePress = useCallback(() => {
+        if (!onSkipOccurrence) return;
+        Alert.alert(
+            "Skip This Occurrence?",
+            "It will be recorded as skipped, not done, and the next one will be scheduled.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Skip",
+                    onPress: async () => {
+                        if (notificationId) {
+                            await cancelNotification(notificationId);
+                        }
+                        await clearPersistedState();
+                        await clearSessionsCount();
+                        onSkipOccurrence(taskId);
+                    },
+                },
+            ]
+        );
+    }, [notificationId, onSkipOccurrence, taskId, clearPersistedState, clearSessionsCount]);
+
+    const handleMoveOccurrenceConfirm = useCallback((date: Date) => {
+        setShowMoveDatePicker(false);
+        onMoveOccurrence?.(taskId, date);
+    }, [onMoveOccurrence, taskId]);
+
     const handleMainButtonPressIn = useCallback(() => {
         'worklet';
         scale.value = withTiming(0.95, TIMING_CONFIG);
@@ -733,6 +768,34 @@ export default function PomodoroTimer({
                 </Text>
             </AnimatedPressable>
 
+            {/* Occurrence Actions (recurring tasks only) */}
+            {(onSkipOccurrence || onMoveOccurrence) && (
+                <View className="flex-row gap-3">
+                    {onSkipOccurrence && (
+                        <Pressable
+                            onPress={handleSkipOccurrencePress}
+                            className="flex-1 flex-row items-center justify-center gap-2 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="play-skip-forward-sharp" size={18} color="#FF6B00" />
+                            <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                Skip This One
+                            </Text>
+                        </Pressable>
+                    )}
+                    {onMoveOccurrence && (
+                        <Pressable
+                            onPress={() => setShowMoveDatePicker(true)}
+                            className="flex-1 flex-row items-center justify-center gap-2 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="calendar-number-sharp" size={18} color="#FF0055" />
+                            <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                Move To…
+                            </Text>
+                        </Pressable>
+                    )}
+                </View>
+            )}
+
             {/* Sessions Counter */}
             <View className="flex-row items-center justify-center gap-2 border-5 border-dashed border-gray-400 p-4 dark:border-neo-primary">
                 <Ionicons name="flame-sharp" size={20} color="#FF6B00" />
@@ -740,6 +803,16 @@ export default function PomodoroTimer({
                     Sessions: {sessionsCompleted}
                 </Text>
             </View>
+
+            {onMoveOccurrence && (
+                <DateTimePickerModal
+                    isVisible={showMoveDatePicker}
+                    mode="date"
+                    onConfirm={handleMoveOccurrenceConfirm}
+                    onCancel={() => setShowMoveDatePicker(false)}
+                    isDarkModeEnabled={colorScheme === "dark"}
+                />
+            )}
         </ScrollView>
     );
 }
\ No newline at end of file
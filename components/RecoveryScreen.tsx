@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, Pressable, ScrollView, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import {
+    Snapshot,
+    Validator,
+    discardStoredValue,
+    getSnapshots,
+    restoreSnapshot,
+} from "@/utils/persistence";
+
+interface RecoveryScreenProps<T> {
+    title: string;
+    storageKey: string;
+    error: string;
+    validate: Validator<T>;
+    onRecovered: () => Promise<void>;
+    // Override where restored data goes and how "Start Empty" clears it (defaults to the AsyncStorage key)
+    write?: (data: T) => Promise<void>;
+    discard?: () => Promise<void>;
+}
+
+/**
+ * Describe a snapshot for the list, e.g. "42 items"
+ */
+function describeSnapshot(snapshot: Snapshot): string {
+    try {
+        const parsed = JSON.parse(snapshot.data);
+        if (Array.isArray(parsed)) {
+            return `${parsed.length} item${parsed.length === 1 ? "" : "s"}`;
+        }
+        return "Saved settings";
+    } catch {
+        return "Damaged";
+    }
+}
+
+/**
+ * Shown instead of the app when stored data fails to load.
+ * Lets the user pick a snapshot to restore rather than losing everything.
+ */
+export default function RecoveryScreen<T>({
+    title,
+    storageKey,
+    error,
+    validate,
+    onRecovered,
+    write,
+    discard,
+}: RecoveryScreenProps<T>) {
+    const insets = useSafeAreaInsets();
+    const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+
+    useEffect(() => {
+        getSnapshots(storageKey).then(setSnapshots);
+    }, [storageKey]);
+
+    const handleRestore = useCallback((snapshot: Snapshot) => {
+        const savedAt = new Date(snapshot.savedAt).toLocaleString();
+        Alert.alert(
+            "Restore Snapshot?",
+            `Your ${title.toLowerCase()} will be replaced with the copy saved on ${savedAt}.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Restore",
+                    onPress: async () => {
+                        try {
+                            await restoreSnapshot(storageKey, snapshot, validate, write);
+                            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                            await onRecovered();
+                        } catch (e) {
+                            Alert.alert("Restore Failed", e instanceof Error ? e.message : String(e));
+                        }
+                    },
+                },
+            ]
+        );
+    }, [title, storageKey, validate, onRecovered, write]);
+
+    const handleStartEmpty = useCallback(() => {
+        Alert.alert(
+            "Start Empty?",
+            `Your current ${title.toLowerCase()} cannot be read and will be discarded. Snapshots are kept.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Start Empty",
+                    style: "destructive",
+                    onPress: async () => {
+                        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        if (discard) {
+                            await discard();
+                        } else {
+                            await discardStoredValue(storageKey);
+                        }
+                        await onRecovered();
+                    },
+                },
+            ]
+        );
+    }, [title, storageKey, onRecovered, discard]);
+
+    return (
+        <View className="flex-1 bg-neo-bg dark:bg-neo-dark">
+            <ScrollView
+                contentContainerStyle={{
+                    paddingHorizontal: 24,
+                    paddingTop: insets.top + 32,
+                    paddingBottom: Math.max(insets.bottom, 24) + 24,
+                }}
+                showsVerticalScrollIndicator={false}
+            >
+                <View className="mb-6 flex-row items-center gap-3">
+                    <Ionicons name="medkit-sharp" size={32} color="#FF0055" />
+                    <Text className="flex-1 text-3xl font-black uppercase tracking-tighter text-black dark:text-white">
+                        Recover {title}
+                    </Text>
+                </View>
+
+                <View className="mb-8 border-5 border-black bg-white p-4 shadow-brutal dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark">
+                    <Text className="mb-2 text-sm font-bold text-gray-700 dark:text-gray-300">
+                        Your {title.toLowerCase()} could not be loaded. Nothing has been overwritten — pick a
+                        snapshot to restore.
+                    </Text>
+                    <Text className="text-xs font-bold text-gray-500 dark:text-gray-400">
+                        {error}
+                    </Text>
+                </View>
+
+                <Text className="mb-4 text-sm font-black uppercase tracking-widest text-gray-600 dark:text-gray-300">
+                    Snapshots
+                </Text>
+
+                {snapshots.length === 0 ? (
+                    <View className="mb-8 items-center justify-center border-5 border-dashed border-gray-400 p-8 dark:border-neo-primary">
+                        <Text className="text-center text-lg font-black uppercase text-gray-500 dark:text-gray-400">
+                            No snapshots available
+                        </Text>
+                    </View>
+                ) : (
+                    <View className="mb-8 gap-4">
+                        {snapshots.map((snapshot) => (
+                            <Pressable
+                                key={snapshot.savedAt}
+                                onPress={() => handleRestore(snapshot)}
+                                className="flex-row items-center gap-4 border-5 border-black bg-white p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                            >
+                                <Ionicons name="time-sharp" size={24} color="#FF0055" />
+                                <View className="flex-1">
+                                    <Text className="text-base font-black uppercase text-black dark:text-white">
+                                        {new Date(snapshot.savedAt).toLocaleString()}
+                                    </Text>
+                                    <Text className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+                                        {describeSnapshot(snapshot)}
+                                    </Text>
+                                </View>
+                                <Ionicons name="arrow-undo-sharp" size={20} color="#FF0055" />
+                            </Pressable>
+                        ))}
+                    </View>
+                )}
+
+                <Pressable
+                    onPress={handleStartEmpty}
+                    className="flex-row items-center justify-center gap-2 border-5 border-black bg-neo-primary p-4 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                >
+                    <Ionicons name="trash-sharp" size={20} color="white" />
+                    <Text className="text-lg font-black uppercase text-white">
+                        Start Empty
+                    </Text>
+                </Pressable>
+            </ScrollView>
+        </View>
+    );
+}
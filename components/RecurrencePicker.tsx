@@ -21,15 +21,31 @@ import DateTimePickerModal from "react-native-modal-datetime-picker";
 import { twMerge } from "tailwind-merge";
 import { clsx } from "clsx";
 import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
 
 import {
+    ExclusionMode,
+    IntraDayMode,
+    MonthlyRule,
     RecurrencePattern,
     RecurrenceType,
+    RepeatFrom,
     RECURRENCE_OPTIONS,
     DAYS_OF_WEEK,
+    WEEK_OF_MONTH_OPTIONS,
+    MONTHS,
 } from "@/types/recurrence";
-import { formatRecurrencePattern } from "@/utils/recurrence";
+import {
+    alignToIntraDay,
+    formatRecurrencePattern,
+    formatTimeOfDay,
+    getIntraDayTimes,
+    getUpcomingOccurrences,
+    toDateKey,
+    toTimeOfDay,
+} from "@/utils/recurrence";
 import { useSubscription } from "@/context/SubscriptionContext";
+import { useSettings } from "@/context/SettingsContext";
 import { canSetRecurrenceInterval } from "@/utils/featureGates";
 import PaywallSheet from "./PaywallSheet";
 
@@ -56,6 +72,63 @@ const INTERVAL_UNIT_LABELS: Record<string, { singular: string; plural: string }>
     daily: { singular: "day", plural: "days" },
     weekly: { singular: "week", plural: "weeks" },
     monthly: { singular: "month", plural: "months" },
+    yearly: { singular: "year", plural: "years" },
+};
+
+const MONTHLY_RULE_OPTIONS: { value: MonthlyRule; label: string }[] = [
+    { value: "day", label: "Day" },
+    { value: "weekday", label: "Weekday" },
+    { value: "lastDay", label: "Last Day" },
+];
+
+const REPEAT_FROM_OPTIONS: { value: RepeatFrom; label: string }[] = [
+    { value: "schedule", label: "On Schedule" },
+    { value: "completion", label: "After Completion" },
+];
+
+const EXCLUSION_MODE_OPTIONS: { value: ExclusionMode; label: string }[] = [
+    { value: "skip", label: "Skip It" },
+    { value: "shift", label: "Next Working Day" },
+];
+
+type TimesOfDayMode = "once" | IntraDayMode;
+
+const TIMES_OF_DAY_OPTIONS: { value: TimesOfDayMode; label: string }[] = [
+    { value: "once", label: "Once A Day" },
+    { value: "times", label: "At Times" },
+    { value: "interval", label: "Every N Hours" },
+];
+
+// Which time the time picker is choosing
+type TimePickerTarget = "add" | "from" | "until";
+
+type EndMode = "never" | "date" | "count";
+
+const END_MODE_OPTIONS: { value: EndMode; label: string }[] = [
+    { value: "never", label: "Never" },
+    { value: "date", label: "On Date" },
+    { value: "count", label: "After" },
+];
+
+const DEFAULT_OCCURRENCES = 10;
+const PREVIEW_COUNT = 5;
+const MAX_OCCURRENCES = 999;
+const DEFAULT_TIMES = ["09:00"];
+const DEFAULT_EVERY_HOURS = 3;
+const DEFAULT_FROM = "09:00";
+const DEFAULT_UNTIL = "21:00";
+const MAX_EVERY_HOURS = 12;
+
+// Exception dates are stored as local YYYY-MM-DD keys
+const parseDateKey = (key: string) => {
+    const [year, monthIndex, day] = key.split("-").map(Number);
+    return new Date(year, monthIndex - 1, day);
+};
+
+// The week of the month a date falls in, for "2nd Tuesday" style defaults
+const weekOfMonthFor = (date: Date) => {
+    const week = Math.ceil(date.getDate() / 7);
+    return week > 4 ? -1 : week;
 };
 
 export default function RecurrencePicker({
@@ -71,11 +144,31 @@ export default function RecurrencePicker({
     const [selectedDays, setSelectedDays] = useState<number[]>([]);
     const [startDate, setStartDate] = useState<Date | null>(null);
     const [endDate, setEndDate] = useState<Date | null>(null);
+    const [monthlyBy, setMonthlyBy] = useState<MonthlyRule>("day");
+    const [dayOfMonth, setDayOfMonth] = useState(1);
+    const [weekOfMonth, setWeekOfMonth] = useState(1);
+    const [weekday, setWeekday] = useState(1);
+    const [month, setMonth] = useState(0);
+    const [repeatFrom, setRepeatFrom] = useState<RepeatFrom>("schedule");
+    const [endMode, setEndMode] = useState<EndMode>("never");
+    const [occurrences, setOccurrences] = useState(DEFAULT_OCCURRENCES);
+    const [exceptionDates, setExceptionDates] = useState<string[]>([]);
+    const [skipHolidays, setSkipHolidays] = useState(false);
+    const [onExcluded, setOnExcluded] = useState<ExclusionMode>("skip");
+    const [timesOfDayMode, setTimesOfDayMode] = useState<TimesOfDayMode>("once");
+    const [times, setTimes] = useState<string[]>(DEFAULT_TIMES);
+    const [everyHours, setEveryHours] = useState(DEFAULT_EVERY_HOURS);
+    const [fromTime, setFromTime] = useState(DEFAULT_FROM);
+    const [untilTime, setUntilTime] = useState(DEFAULT_UNTIL);
+    const [timePickerTarget, setTimePickerTarget] = useState<TimePickerTarget | null>(null);
     const [showStartDatePicker, setShowStartDatePicker] = useState(false);
     const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+    const [showExceptionDatePicker, setShowExceptionDatePicker] = useState(false);
     const [showPaywall, setShowPaywall] = useState(false);
     const colorScheme = useColorScheme();
+    const router = useRouter();
     const { isPremium } = useSubscription();
+    const { settings } = useSettings();
 
     const scale = useSharedValue(1);
 
@@ -103,12 +196,44 @@ export default function RecurrencePicker({
             setSelectedDays(recurrence.daysOfWeek || []);
             setStartDate(recurrence.startDate ? new Date(recurrence.startDate) : dueDateAsDate);
             setEndDate(recurrence.endDate ? new Date(recurrence.endDate) : null);
+            setMonthlyBy(recurrence.monthlyBy || "day");
+            setDayOfMonth(recurrence.dayOfMonth ?? dueDateAsDate.getDate());
+            setWeekOfMonth(recurrence.weekOfMonth ?? weekOfMonthFor(dueDateAsDate));
+            setWeekday(recurrence.weekday ?? dueDateAsDate.getDay());
+            setMonth(recurrence.month ?? dueDateAsDate.getMonth());
+            setRepeatFrom(recurrence.repeatFrom || "schedule");
+            setEndMode(recurrence.endDate ? "date" : recurrence.occurrences ? "count" : "never");
+            setOccurrences(recurrence.occurrences || DEFAULT_OCCURRENCES);
+            setExceptionDates(recurrence.exceptionDates || []);
+            setSkipHolidays(!!recurrence.skipHolidays);
+            setOnExcluded(recurrence.onExcluded || "skip");
+            setTimesOfDayMode(recurrence.intraDay?.mode || "once");
+            setTimes(recurrence.intraDay?.times?.length ? recurrence.intraDay.times : DEFAULT_TIMES);
+            setEveryHours(recurrence.intraDay?.everyHours || DEFAULT_EVERY_HOURS);
+            setFromTime(recurrence.intraDay?.from || DEFAULT_FROM);
+            setUntilTime(recurrence.intraDay?.until || DEFAULT_UNTIL);
         } else {
             setSelectedType("once");
             setInterval(1);
             setSelectedDays([]);
             setStartDate(dueDateAsDate);
             setEndDate(null);
+            setMonthlyBy("day");
+            setDayOfMonth(dueDateAsDate.getDate());
+            setWeekOfMonth(weekOfMonthFor(dueDateAsDate));
+            setWeekday(dueDateAsDate.getDay());
+            setMonth(dueDateAsDate.getMonth());
+            setRepeatFrom("schedule");
+            setEndMode("never");
+            setOccurrences(DEFAULT_OCCURRENCES);
+            setExceptionDates([]);
+            setSkipHolidays(false);
+            setOnExcluded("skip");
+            setTimesOfDayMode("once");
+            setTimes(DEFAULT_TIMES);
+            setEveryHours(DEFAULT_EVERY_HOURS);
+            setFromTime(DEFAULT_FROM);
+            setUntilTime(DEFAULT_UNTIL);
         }
         setShowModal(true);
     }, [recurrence, dueDate]);
@@ -117,6 +242,8 @@ export default function RecurrencePicker({
         setShowModal(false);
         setShowStartDatePicker(false);
         setShowEndDatePicker(false);
+        setShowExceptionDatePicker(false);
+        setTimePickerTarget(null);
     }, []);
 
     const handleSelectType = useCallback(
@@ -152,6 +279,46 @@ export default function RecurrencePicker({
         });
     }, []);
 
+    const handleSelectOption = useCallback(async <T,>(setter: (value: T) => void, value: T) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setter(value);
+    }, []);
+
+    const handleChangeDayOfMonth = useCallback(async (delta: number) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setDayOfMonth(prev => Math.min(Math.max(prev + delta, 1), 31));
+    }, []);
+
+    const handleChangeOccurrences = useCallback(async (delta: number) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setOccurrences(prev => Math.min(Math.max(prev + delta, 1), MAX_OCCURRENCES));
+    }, []);
+
+    const handleToggleSkipHolidays = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setSkipHolidays(prev => !prev);
+    }, []);
+
+    const handleRemoveExceptionDate = useCallback(async (key: string) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setExceptionDates(prev => prev.filter(d => d !== key));
+    }, []);
+
+    const handleRemoveTime = useCallback(async (time: string) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setTimes(prev => (prev.length === 1 ? prev : prev.filter(t => t !== time)));
+    }, []);
+
+    const handleChangeEveryHours = useCallback(async (delta: number) => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setEveryHours(prev => Math.min(Math.max(prev + delta, 1), MAX_EVERY_HOURS));
+    }, []);
+
+    const handleEditHolidays = useCallback(() => {
+        closeModal();
+        router.push("/holidays");
+    }, [closeModal, router]);
+
     const handleIncrementInterval = useCallback(async () => {
         if (!canSetRecurrenceInterval(isPremium)) {
             setShowPaywall(true);
@@ -170,24 +337,86 @@ export default function RecurrencePicker({
         setInterval(prev => Math.max(prev - 1, 1));
     }, [isPremium]);
 
-    const handleSave = useCallback(async () => {
-        if (selectedType === "once") return;
+    // The rule as currently edited, shared by the preview and Save
+    const draftPattern = useMemo<RecurrencePattern | null>(() => {
+        if (selectedType === "once") return null;
 
-        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-
-        const pattern: RecurrencePattern = {
+        const isMonthly = selectedType === "monthly" || selectedType === "yearly";
+        return {
             type: selectedType,
             interval: interval,
             ...(selectedType === "weekly" && selectedDays.length > 0 && { daysOfWeek: selectedDays }),
+            ...(isMonthly && { monthlyBy }),
+            ...(isMonthly && monthlyBy === "day" && { dayOfMonth }),
+            ...(isMonthly && monthlyBy === "weekday" && { weekOfMonth, weekday }),
+            ...(selectedType === "yearly" && { month }),
+            ...(repeatFrom === "completion" && { repeatFrom }),
+            ...(timesOfDayMode === "times" && { intraDay: { mode: timesOfDayMode, times } }),
+            ...(timesOfDayMode === "interval" && {
+                intraDay: { mode: timesOfDayMode, everyHours, from: fromTime, until: untilTime },
+            }),
+            ...(exceptionDates.length > 0 && { exceptionDates }),
+            ...(skipHolidays && { skipHolidays }),
+            ...((exceptionDates.length > 0 || skipHolidays) && onExcluded === "shift" && { onExcluded }),
             ...(startDate && { startDate: startDate.toISOString() }),
-            ...(endDate && { endDate: endDate.toISOString() }),
+            ...(endMode === "date" && endDate && { endDate: endDate.toISOString() }),
+            ...(endMode === "count" && { occurrences }),
         };
-        onSetRecurrence(pattern);
+    }, [
+        selectedType,
+        interval,
+        selectedDays,
+        startDate,
+        endDate,
+        endMode,
+        occurrences,
+        monthlyBy,
+        dayOfMonth,
+        weekOfMonth,
+        weekday,
+        month,
+        repeatFrom,
+        timesOfDayMode,
+        times,
+        everyHours,
+        fromTime,
+        untilTime,
+        exceptionDates,
+        skipHolidays,
+        onExcluded,
+    ]);
+
+    const timesPerDay = draftPattern ? getIntraDayTimes(draftPattern).length : 0;
+
+    const previewDates = useMemo(
+        () => (draftPattern
+            // Intra-day schedules start at the first time left on the start day
+            ? getUpcomingOccurrences(
+                  draftPattern,
+                  alignToIntraDay(startDate || new Date(), draftPattern),
+                  PREVIEW_COUNT,
+                  1,
+                  settings.holidays
+              )
+            : []),
+        [draftPattern, startDate, settings.holidays]
+    );
+
+    const handleSave = useCallback(async () => {
+        if (!draftPattern) return;
+
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        onSetRecurrence(draftPattern);
         closeModal();
-    }, [selectedType, interval, selectedDays, startDate, endDate, onSetRecurrence, closeModal]);
+    }, [draftPattern, onSetRecurrence, closeModal]);
 
     const handleStartDateConfirm = useCallback((date: Date) => {
         setStartDate(date);
+        // Keep the monthly/yearly rule on the day the series now starts
+        setDayOfMonth(date.getDate());
+        setWeekOfMonth(weekOfMonthFor(date));
+        setWeekday(date.getDay());
+        setMonth(date.getMonth());
         onSetDueDate(date);
         setShowStartDatePicker(false);
     }, [onSetDueDate]);
@@ -197,6 +426,35 @@ export default function RecurrencePicker({
         setShowEndDatePicker(false);
     }, []);
 
+    const handleExceptionDateConfirm = useCallback((date: Date) => {
+        const key = toDateKey(date);
+        setExceptionDates(prev => (prev.includes(key) ? prev : [...prev, key].sort()));
+        setShowExceptionDatePicker(false);
+    }, []);
+
+    const handleTimeConfirm = useCallback((date: Date) => {
+        const time = toTimeOfDay(date.getHours() * 60 + date.getMinutes());
+        if (timePickerTarget === "add") {
+            setTimes(prev => (prev.includes(time) ? prev : [...prev, time].sort()));
+        } else if (timePickerTarget === "from") {
+            setFromTime(time);
+        } else if (timePickerTarget === "until") {
+            setUntilTime(time);
+        }
+        setTimePickerTarget(null);
+    }, [timePickerTarget]);
+
+    // The time picker opens on the time it is changing
+    const timePickerDate = useMemo(() => {
+        const value = timePickerTarget === "from" ? fromTime : timePickerTarget === "until" ? untilTime : null;
+        const date = new Date();
+        if (value) {
+            const [hours, minutes] = value.split(":").map(Number);
+            date.setHours(hours, minutes, 0, 0);
+        }
+        return date;
+    }, [timePickerTarget, fromTime, untilTime]);
+
     const clearStartDate = useCallback(async () => {
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
         const today = new Date();
@@ -212,6 +470,8 @@ export default function RecurrencePicker({
     const hasRecurrence = recurrence && recurrence.type !== "once";
     const showConfigSection = selectedType !== "once";
     const showDayPicker = selectedType === "weekly";
+    const showMonthDayPicker = selectedType === "monthly" || selectedType === "yearly";
+    const isSaveDisabled = (showDayPicker && selectedDays.length === 0) || (timesOfDayMode !== "once" && timesPerDay === 0);
 
     const intervalUnitLabel = useMemo(() => {
         const labels = INTERVAL_UNIT_LABELS[selectedType];
@@ -515,6 +775,348 @@ export default function RecurrencePicker({
                                                 </View>
                                             )}
 
+                                            {/* Month Picker (Yearly only) */}
+                                            {selectedType === "yearly" && (
+                                                <View>
+                                                    <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                        Month
+                                                    </Text>
+                                                    <View className="flex-row flex-wrap gap-2">
+                                                        {MONTHS.map((name, index) => {
+                                                            const isSelected = month === index;
+                                                            return (
+                                                                <Pressable
+                                                                    key={name}
+                                                                    onPress={() => handleSelectOption(setMonth, index)}
+                                                                    className={cn(
+                                                                        "w-[22%] items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                        isSelected
+                                                                            ? "bg-neo-purple"
+                                                                            : "bg-white dark:bg-neo-dark-surface"
+                                                                    )}
+                                                                >
+                                                                    <Text
+                                                                        className={cn(
+                                                                            "text-xs font-black uppercase",
+                                                                            isSelected
+                                                                                ? "text-white"
+                                                                                : "text-black dark:text-white"
+                                                                        )}
+                                                                    >
+                                                                        {name.substring(0, 3)}
+                                                                    </Text>
+                                                                </Pressable>
+                                                            );
+                                                        })}
+                                                    </View>
+                                                </View>
+                                            )}
+
+                                            {/* Day of Month Rule (Monthly and Yearly) */}
+                                            {showMonthDayPicker && (
+                                                <View>
+                                                    <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                        Repeat On
+                                                    </Text>
+                                                    <View className="flex-row gap-2">
+                                                        {MONTHLY_RULE_OPTIONS.map((option) => {
+                                                            const isSelected = monthlyBy === option.value;
+                                                            return (
+                                                                <Pressable
+                                                                    key={option.value}
+                                                                    onPress={() => handleSelectOption(setMonthlyBy, option.value)}
+                                                                    className={cn(
+                                                                        "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                        isSelected
+                                                                            ? "bg-neo-purple"
+                                                                            : "bg-white dark:bg-neo-dark-surface"
+                                                                    )}
+                                                                >
+                                                                    <Text
+                                                                        className={cn(
+                                                                            "text-xs font-black uppercase",
+                                                                            isSelected
+                                                                                ? "text-white"
+                                                                                : "text-black dark:text-white"
+                                                                        )}
+                                                                    >
+                                                                        {option.label}
+                                                                    </Text>
+                                                                </Pressable>
+                                                            );
+                                                        })}
+                                                    </View>
+
+                                                    {monthlyBy === "day" && (
+                                                        <View className="mt-3 flex-row items-center gap-3">
+                                                            <Pressable
+                                                                onPress={() => handleChangeDayOfMonth(-1)}
+                                                                className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-primary shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                            >
+                                                                <Ionicons name="remove-sharp" size={20} color="white" />
+                                                            </Pressable>
+                                                            <View className="flex-1 items-center justify-center border-4 border-black bg-white py-2 dark:border-neo-primary dark:bg-neo-dark-surface">
+                                                                <Text className="text-xl font-black text-black dark:text-white">
+                                                                    {dayOfMonth}
+                                                                </Text>
+                                                                <Text className="text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                                                                    day of the month
+                                                                </Text>
+                                                            </View>
+                                                            <Pressable
+                                                                onPress={() => handleChangeDayOfMonth(1)}
+                                                                className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-green shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                            >
+                                                                <Ionicons name="add-sharp" size={20} color="black" />
+                                                            </Pressable>
+                                                        </View>
+                                                    )}
+
+                                                    {monthlyBy === "weekday" && (
+                                                        <View className="mt-3 gap-2">
+                                                            <View className="flex-row gap-1">
+                                                                {WEEK_OF_MONTH_OPTIONS.map((option) => {
+                                                                    const isSelected = weekOfMonth === option.value;
+                                                                    return (
+                                                                        <Pressable
+                                                                            key={option.value}
+                                                                            onPress={() => handleSelectOption(setWeekOfMonth, option.value)}
+                                                                            className={cn(
+                                                                                "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                                isSelected
+                                                                                    ? "bg-neo-purple"
+                                                                                    : "bg-white dark:bg-neo-dark-surface"
+                                                                            )}
+                                                                        >
+                                                                            <Text
+                                                                                className={cn(
+                                                                                    "text-xs font-black uppercase",
+                                                                                    isSelected
+                                                                                        ? "text-white"
+                                                                                        : "text-black dark:text-white"
+                                                                                )}
+                                                                            >
+                                                                                {option.label}
+                                                                            </Text>
+                                                                        </Pressable>
+                                                                    );
+                                                                })}
+                                                            </View>
+                                                            <View className="flex-row justify-between gap-1">
+                                                                {DAYS_OF_WEEK.map((day) => {
+                                                                    const isSelected = weekday === day.value;
+                                                                    return (
+                                                                        <Pressable
+                                                                            key={day.value}
+                                                                            onPress={() => handleSelectOption(setWeekday, day.value)}
+                                                                            className={cn(
+                                                                                "flex-1 aspect-square items-center justify-center border-4 border-black shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                                isSelected
+                                                                                    ? "bg-neo-purple"
+                                                                                    : "bg-white dark:bg-neo-dark-surface"
+                                                                            )}
+                                                                        >
+                                                                            <Text
+                                                                                className={cn(
+                                                                                    "text-sm font-black uppercase",
+                                                                                    isSelected
+                                                                                        ? "text-white"
+                                                                                        : "text-black dark:text-white"
+                                                                                )}
+                                                                            >
+                                                                                {day.shortLabel}
+                                                                            </Text>
+                                                                        </Pressable>
+                                                                    );
+                                                                })}
+                                                            </View>
+                                                        </View>
+                                                    )}
+
+                                                    {monthlyBy === "day" && dayOfMonth > 28 && (
+                                                        <Text className="mt-1 text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400 text-center">
+                                                            Shorter months use their last day
+                                                        </Text>
+                                                    )}
+                                                </View>
+                                            )}
+
+                                            {/* Times Of Day */}
+                                            <View>
+                                                <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                    Times Of Day
+                                                </Text>
+                                                <View className="flex-row gap-2">
+                                                    {TIMES_OF_DAY_OPTIONS.map((option) => {
+                                                        const isSelected = timesOfDayMode === option.value;
+                                                        return (
+                                                            <Pressable
+                                                                key={option.value}
+                                                                onPress={() => handleSelectOption(setTimesOfDayMode, option.value)}
+                                                                className={cn(
+                                                                    "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                    isSelected
+                                                                        ? "bg-neo-purple"
+                                                                        : "bg-white dark:bg-neo-dark-surface"
+                                                                )}
+                                                            >
+                                                                <Text
+                                                                    className={cn(
+                                                                        "text-xs font-black uppercase",
+                                                                        isSelected
+                                                                            ? "text-white"
+                                                                            : "text-black dark:text-white"
+                                                                    )}
+                                                                >
+                                                                    {option.label}
+                                                                </Text>
+                                                            </Pressable>
+                                                        );
+                                                    })}
+                                                </View>
+
+                                                {timesOfDayMode === "once" && (
+                                                    <Text className="mt-1 text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400 text-center">
+                                                        Due by the end of the day
+                                                    </Text>
+                                                )}
+
+                                                {timesOfDayMode === "times" && (
+                                                    <View className="mt-3">
+                                                        <View className="mb-3 flex-row flex-wrap gap-2">
+                                                            {times.map((time) => (
+                                                                <Pressable
+                                                                    key={time}
+                                                                    onPress={() => handleRemoveTime(time)}
+                                                                    accessibilityLabel={`Remove ${formatTimeOfDay(time)}`}
+                                                                    className="flex-row items-center gap-1 border-4 border-black bg-neo-blue px-2 py-1 dark:border-neo-primary"
+                                                                >
+                                                                    <Text className="text-xs font-black uppercase text-white">
+                                                                        {formatTimeOfDay(time)}
+                                                                    </Text>
+                                                                    {times.length > 1 && (
+                                                                        <Ionicons name="close-sharp" size={14} color="white" />
+                                                                    )}
+                                                                </Pressable>
+                                                            ))}
+                                                        </View>
+                                                        <Pressable
+                                                            onPress={() => setTimePickerTarget("add")}
+                                                            className="flex-row items-center justify-center gap-2 border-4 border-dashed border-gray-400 bg-transparent p-3 dark:border-neo-primary"
+                                                        >
+                                                            <Ionicons
+                                                                name="add-sharp"
+                                                                size={18}
+                                                                color={colorScheme === "dark" ? "#FF0055" : "#666"}
+                                                            />
+                                                            <Text className="font-black uppercase text-gray-500 dark:text-gray-400 text-sm">
+                                                                Add Time
+                                                            </Text>
+                                                        </Pressable>
+                                                    </View>
+                                                )}
+
+                                                {timesOfDayMode === "interval" && (
+                                                    <View className="mt-3 gap-3">
+                                                        <View className="flex-row items-center gap-3">
+                                                            <Pressable
+                                                                onPress={() => handleChangeEveryHours(-1)}
+                                                                className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-primary shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                            >
+                                                                <Ionicons name="remove-sharp" size={20} color="white" />
+                                                            </Pressable>
+                                                            <View className="flex-1 items-center justify-center border-4 border-black bg-white py-2 dark:border-neo-primary dark:bg-neo-dark-surface">
+                                                                <Text className="text-xl font-black text-black dark:text-white">
+                                                                    {everyHours}
+                                                                </Text>
+                                                                <Text className="text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                                                                    {everyHours === 1 ? "hour apart" : "hours apart"}
+                                                                </Text>
+                                                            </View>
+                                                            <Pressable
+                                                                onPress={() => handleChangeEveryHours(1)}
+                                                                className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-green shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                            >
+                                                                <Ionicons name="add-sharp" size={20} color="black" />
+                                                            </Pressable>
+                                                        </View>
+                                                        <View className="flex-row gap-2">
+                                                            <Pressable
+                                                                onPress={() => setTimePickerTarget("from")}
+                                                                className="flex-1 flex-row items-center gap-2 border-4 border-black bg-neo-blue p-3 dark:border-neo-primary"
+                                                            >
+                                                                <Ionicons name="time-sharp" size={18} color="white" />
+                                                                <Text className="font-black uppercase text-white text-sm">
+                                                                    From {formatTimeOfDay(fromTime)}
+                                                                </Text>
+                                                            </Pressable>
+                                                            <Pressable
+                                                                onPress={() => setTimePickerTarget("until")}
+                                                                className="flex-1 flex-row items-center gap-2 border-4 border-black bg-neo-blue p-3 dark:border-neo-primary"
+                                                            >
+                                                                <Ionicons name="time-sharp" size={18} color="white" />
+                                                                <Text className="font-black uppercase text-white text-sm">
+                                                                    Until {formatTimeOfDay(untilTime)}
+                                                                </Text>
+                                                            </Pressable>
+                                                        </View>
+                                                    </View>
+                                                )}
+
+                                                {timesOfDayMode !== "once" && (
+                                                    <Text
+                                                        className={cn(
+                                                            "mt-1 text-xs font-black uppercase tracking-wider text-center",
+                                                            timesPerDay > 0 ? "text-gray-500 dark:text-gray-400" : "text-neo-primary"
+                                                        )}
+                                                    >
+                                                        {timesPerDay > 0
+                                                            ? `${timesPerDay} a day, each with its own reminder`
+                                                            : "Start before the end time"}
+                                                    </Text>
+                                                )}
+                                            </View>
+
+                                            {/* Repeat From */}
+                                            <View>
+                                                <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                    Next Date
+                                                </Text>
+                                                <View className="flex-row gap-2">
+                                                    {REPEAT_FROM_OPTIONS.map((option) => {
+                                                        const isSelected = repeatFrom === option.value;
+                                                        return (
+                                                            <Pressable
+                                                                key={option.value}
+                                                                onPress={() => handleSelectOption(setRepeatFrom, option.value)}
+                                                                className={cn(
+                                                                    "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                    isSelected
+                                                                        ? "bg-neo-purple"
+                                                                        : "bg-white dark:bg-neo-dark-surface"
+                                                                )}
+                                                            >
+                                                                <Text
+                                                                    className={cn(
+                                                                        "text-xs font-black uppercase",
+                                                                        isSelected
+                                                                            ? "text-white"
+                                                                            : "text-black dark:text-white"
+                                                                    )}
+                                                                >
+                                                                    {option.label}
+                                                                </Text>
+                                                            </Pressable>
+                                                        );
+                                                    })}
+                                                </View>
+                                                <Text className="mt-1 text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400 text-center">
+                                                    {repeatFrom === "completion"
+                                                        ? "Counted from the day you finish it"
+                                                        : "Counted from the due date"}
+                                                </Text>
+                                            </View>
+
                                             {/* Start Date */}
                                             <View>
                                                 <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
@@ -535,12 +1137,40 @@ export default function RecurrencePicker({
                                                 </Pressable>
                                             </View>
 
-                                            {/* End Date */}
+                                            {/* End Condition */}
                                             <View>
                                                 <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
-                                                    End Date (Optional)
+                                                    Ends
                                                 </Text>
-                                                {endDate ? (
+                                                <View className="mb-3 flex-row gap-2">
+                                                    {END_MODE_OPTIONS.map((option) => {
+                                                        const isSelected = endMode === option.value;
+                                                        return (
+                                                            <Pressable
+                                                                key={option.value}
+                                                                onPress={() => handleSelectOption(setEndMode, option.value)}
+                                                                className={cn(
+                                                                    "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                    isSelected
+                                                                        ? "bg-neo-purple"
+                                                                        : "bg-white dark:bg-neo-dark-surface"
+                                                                )}
+                                                            >
+                                                                <Text
+                                                                    className={cn(
+                                                                        "text-xs font-black uppercase",
+                                                                        isSelected
+                                                                            ? "text-white"
+                                                                            : "text-black dark:text-white"
+                                                                    )}
+                                                                >
+                                                                    {option.label}
+                                                                </Text>
+                                                            </Pressable>
+                                                        );
+                                                    })}
+                                                </View>
+                                                {endMode === "date" && (endDate ? (
                                                     <View className="flex-row items-center gap-2">
                                                         <Pressable
                                                             onPress={() => setShowEndDatePicker(true)}
@@ -576,23 +1206,192 @@ export default function RecurrencePicker({
                                                             Set End Date
                                                         </Text>
                                                     </Pressable>
+                                                ))}
+                                                {endMode === "count" && (
+                                                    <View className="flex-row items-center gap-3">
+                                                        <Pressable
+                                                            onPress={() => handleChangeOccurrences(-1)}
+                                                            className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-primary shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                        >
+                                                            <Ionicons name="remove-sharp" size={20} color="white" />
+                                                        </Pressable>
+                                                        <View className="flex-1 items-center justify-center border-4 border-black bg-white py-2 dark:border-neo-primary dark:bg-neo-dark-surface">
+                                                            <Text className="text-xl font-black text-black dark:text-white">
+                                                                {occurrences}
+                                                            </Text>
+                                                            <Text className="text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                                                                {occurrences === 1 ? "time" : "times"}
+                                                            </Text>
+                                                        </View>
+                                                        <Pressable
+                                                            onPress={() => handleChangeOccurrences(1)}
+                                                            className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-green shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                        >
+                                                            <Ionicons name="add-sharp" size={20} color="black" />
+                                                        </Pressable>
+                                                    </View>
+                                                )}
+                                            </View>
+
+                                            {/* Skip Dates */}
+                                            <View>
+                                                <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                    Skip Dates
+                                                </Text>
+                                                <View className="mb-3 flex-row items-center gap-2">
+                                                    <Pressable
+                                                        onPress={handleToggleSkipHolidays}
+                                                        className={cn(
+                                                            "flex-1 flex-row items-center gap-2 border-4 border-black p-3 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                            skipHolidays
+                                                                ? "bg-neo-purple"
+                                                                : "bg-white dark:bg-neo-dark-surface"
+                                                        )}
+                                                    >
+                                                        <Ionicons
+                                                            name={skipHolidays ? "checkbox-sharp" : "square-outline"}
+                                                            size={18}
+                                                            color={skipHolidays || colorScheme === "dark" ? "white" : "black"}
+                                                        />
+                                                        <Text
+                                                            className={cn(
+                                                                "text-sm font-black uppercase",
+                                                                skipHolidays
+                                                                    ? "text-white"
+                                                                    : "text-black dark:text-white"
+                                                            )}
+                                                        >
+                                                            Holidays ({settings.holidays.length})
+                                                        </Text>
+                                                    </Pressable>
+                                                    <Pressable
+                                                        onPress={handleEditHolidays}
+                                                        accessibilityLabel="Edit holiday list"
+                                                        className="h-12 w-12 items-center justify-center border-4 border-black bg-neo-secondary shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm"
+                                                    >
+                                                        <Ionicons name="create-sharp" size={20} color="black" />
+                                                    </Pressable>
+                                                </View>
+                                                {exceptionDates.length > 0 && (
+                                                    <View className="mb-3 flex-row flex-wrap gap-2">
+                                                        {exceptionDates.map((key) => (
+                                                            <Pressable
+                                                                key={key}
+                                                                onPress={() => handleRemoveExceptionDate(key)}
+                                                                accessibilityLabel={`Stop skipping ${key}`}
+                                                                className="flex-row items-center gap-1 border-4 border-black bg-neo-orange px-2 py-1 dark:border-neo-primary"
+                                                            >
+                                                                <Text className="text-xs font-black uppercase text-white">
+                                                                    {parseDateKey(key).toLocaleDateString("en-US", {
+                                                                        month: "short",
+                                                                        day: "numeric",
+                                                                        year: "numeric",
+                                                                    })}
+                                                                </Text>
+                                                                <Ionicons name="close-sharp" size={14} color="white" />
+                                                            </Pressable>
+                                                        ))}
+                                                    </View>
+                                                )}
+                                                <Pressable
+                                                    onPress={() => setShowExceptionDatePicker(true)}
+                                                    className="flex-row items-center justify-center gap-2 border-4 border-dashed border-gray-400 bg-transparent p-3 dark:border-neo-primary"
+                                                >
+                                                    <Ionicons
+                                                        name="add-sharp"
+                                                        size={18}
+                                                        color={colorScheme === "dark" ? "#FF0055" : "#666"}
+                                                    />
+                                                    <Text className="font-black uppercase text-gray-500 dark:text-gray-400 text-sm">
+                                                        Add Date
+                                                    </Text>
+                                                </Pressable>
+                                                {(exceptionDates.length > 0 || skipHolidays) && (
+                                                    <>
+                                                        <Text className="mb-2 mt-3 text-xs font-black uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                                                            When A Date Is Skipped
+                                                        </Text>
+                                                        <View className="flex-row gap-2">
+                                                            {EXCLUSION_MODE_OPTIONS.map((option) => {
+                                                                const isSelected = onExcluded === option.value;
+                                                                return (
+                                                                    <Pressable
+                                                                        key={option.value}
+                                                                        onPress={() => handleSelectOption(setOnExcluded, option.value)}
+                                                                        className={cn(
+                                                                            "flex-1 items-center justify-center border-4 border-black py-2 shadow-brutal-sm active:translate-x-[2px] active:translate-y-[2px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark-sm",
+                                                                            isSelected
+                                                                                ? "bg-neo-purple"
+                                                                                : "bg-white dark:bg-neo-dark-surface"
+                                                                        )}
+                                                                    >
+                                                                        <Text
+                                                                            className={cn(
+                                                                                "text-xs font-black uppercase",
+                                                                                isSelected
+                                                                                    ? "text-white"
+                                                                                    : "text-black dark:text-white"
+                                                                            )}
+                                                                        >
+                                                                            {option.label}
+                                                                        </Text>
+                                                                    </Pressable>
+                                                                );
+                                                            })}
+                                                        </View>
+                                                    </>
                                                 )}
                                             </View>
 
+                                            {/* Upcoming Dates Preview */}
+                                            {previewDates.length > 0 && (
+                                                <View className="border-4 border-dashed border-black bg-white p-3 dark:border-neo-primary dark:bg-neo-dark-surface">
+                                                    <Text className="mb-2 text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-400">
+                                                        Next {previewDates.length === 1
+                                                            ? (timesPerDay > 0 ? "Time" : "Date")
+                                                            : `${previewDates.length} ${timesPerDay > 0 ? "Times" : "Dates"}`}
+                                                    </Text>
+                                                    {previewDates.map((date, index) => (
+                                                        <View key={date.toISOString()} className="flex-row items-center gap-2 py-0.5">
+                                                            <Text className="w-5 text-xs font-black text-gray-500 dark:text-gray-400">
+                                                                {index + 1}
+                                                            </Text>
+                                                            <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                                                {date.toLocaleDateString("en-US", {
+                                                                    weekday: "short",
+                                                                    month: "short",
+                                                                    day: "numeric",
+                                                                    year: "numeric",
+                                                                })}
+                                                                {timesPerDay > 0 && `, ${date.toLocaleTimeString("en-US", {
+                                                                    hour: "numeric",
+                                                                    minute: "2-digit",
+                                                                })}`}
+                                                            </Text>
+                                                        </View>
+                                                    ))}
+                                                    {repeatFrom === "completion" && (
+                                                        <Text className="mt-1 text-xs font-bold text-gray-500 dark:text-gray-400">
+                                                            Assuming each one is finished on its due date
+                                                        </Text>
+                                                    )}
+                                                </View>
+                                            )}
+
                                             {/* Save Button */}
                                             <Pressable
                                                 onPress={handleSave}
-                                                disabled={showDayPicker && selectedDays.length === 0}
+                                                disabled={isSaveDisabled}
                                                 className={cn(
                                                     "items-center justify-center border-5 border-black p-4 shadow-brutal active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:shadow-brutal-dark",
-                                                    (showDayPicker && selectedDays.length === 0)
+                                                    isSaveDisabled
                                                         ? "bg-gray-300 dark:bg-neo-dark-surface opacity-50"
                                                         : "bg-neo-green"
                                                 )}
                                             >
                                                 <Text className={cn(
                                                     "text-lg font-black uppercase",
-                                                    (showDayPicker && selectedDays.length === 0)
+                                                    isSaveDisabled
                                                         ? "text-gray-500"
                                                         : "text-black"
                                                 )}>
@@ -628,6 +1427,27 @@ export default function RecurrencePicker({
                     minimumDate={startDate || new Date()}
                     isDarkModeEnabled={colorScheme === "dark"}
                 />
+
+                {/* Exception Date Picker */}
+                <DateTimePickerModal
+                    isVisible={showExceptionDatePicker}
+                    mode="date"
+                    onConfirm={handleExceptionDateConfirm}
+                    onCancel={() => setShowExceptionDatePicker(false)}
+                    minimumDate={startDate || new Date()}
+                    isDarkModeEnabled={colorScheme === "dark"}
+                />
+
+                {/* Time Of Day Picker */}
+                <DateTimePickerModal
+                    isVisible={timePickerTarget !== null}
+                    mode="time"
+                    date={timePickerDate}
+                    onConfirm={handleTimeConfirm}
+                    onCancel={() => setTimePickerTarget(null)}
+                    isDarkModeEnabled={colorScheme === "dark"}
+                />
+
                 {/* Paywall Sheet */}
                 <PaywallSheet
                     visible={showPaywall}
@@ -19,14 +19,17 @@ import Animated, {
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import * as Clipboard from "expo-clipboard";
+import { router } from "expo-router";
 
 import { useSettings } from "@/context/SettingsContext";
 import { useUser } from "@/context/UserContext";
+import { useSync } from "@/context/SyncContext";
 import { useSubscription } from "@/context/SubscriptionContext";
 import { POMODORO_LIMITS } from "@/types/settings";
 import { FREE_TIER_LIMITS } from "@/types/subscription";
 import { canCustomizePomodoro } from "@/utils/featureGates";
 import { devResetReviewPrompt, devGetReviewStatus, maybeRequestReview } from "@/utils/storeReview";
+import { describeSyncStatus } from "@/utils/sync";
 import CompactNumberInput from "./CompactNumberInput";
 import PaywallSheet from "./PaywallSheet";
 
@@ -41,6 +44,7 @@ export default function SettingsPanel({ visible, onClose, onDismissAll }: Settin
     const colorScheme = useColorScheme();
     const { settings, updatePomodoroSettings, resetPomodoroSettings } = useSettings();
     const { userId } = useUser();
+    const { status: syncStatus } = useSync();
     const { isPremium, devSetPremium } = useSubscription();
     const [showPaywall, setShowPaywall] = useState(false);
     const [reviewRequested, setReviewRequested] = useState(false);
@@ -85,6 +89,20 @@ export default function SettingsPanel({ visible, onClose, onDismissAll }: Settin
         }
     }, [userId]);
 
+    const handleNavigate = useCallback(
+        (pathname: "/backup" | "/import-tasks" | "/todo-txt" | "/trash" | "/sync" | "/holidays") => {
+            // Close the panel and parent overlays before navigating
+            onClose();
+            setTimeout(() => {
+                onDismissAll?.();
+                setTimeout(() => {
+                    router.push(pathname);
+                }, 200);
+            }, 150);
+        },
+        [onClose, onDismissAll]
+    );
+
     const handleWorkDurationChange = useCallback(
         (value: number) => {
             updatePomodoroSettings({ workDuration: value });
@@ -369,6 +387,145 @@ export default function SettingsPanel({ visible, onClose, onDismissAll }: Settin
                         </Animated.View>
                     )}
 
+                    {/* Data Section */}
+                    <Animated.View entering={FadeIn.delay(225).duration(200)}>
+                        <View className="mt-5 mb-4 flex-row items-center gap-2">
+                            <View className="h-8 w-8 items-center justify-center border-4 border-black bg-neo-secondary dark:border-neo-primary">
+                                <Ionicons name="server-sharp" size={16} color="black" />
+                            </View>
+                            <Text className="text-base font-black uppercase tracking-tight text-black dark:text-white">
+                                Your Data
+                            </Text>
+                        </View>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/backup")}
+                            className="flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="cloud-download-sharp" size={20} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    Backup & Restore
+                                </Text>
+                                <Text className="text-xs font-bold text-gray-600 dark:text-gray-400">
+                                    Export or import all tasks, projects and settings
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/import-tasks")}
+                            className="mt-3 flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="enter-sharp" size={20} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    Import From Other Apps
+                                </Text>
+                                <Text className="text-xs font-bold text-gray-600 dark:text-gray-400">
+                                    Todoist, TickTick, Google Tasks or .ics files
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/todo-txt")}
+                            className="mt-3 flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="document-text-sharp" size={20} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    todo.txt Sync
+                                </Text>
+                                <Text className="text-xs font-bold text-gray-600 dark:text-gray-400">
+                                    Export and re-read a plain-text todo.txt file
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/sync")}
+                            className="mt-3 flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons
+                                name={syncStatus.state === "error" ? "cloud-offline-sharp" : "cloud-done-sharp"}
+                                size={20}
+                                color="#FF0055"
+                            />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    Device Sync
+                                </Text>
+                                <Text
+                                    className="text-xs font-bold text-gray-600 dark:text-gray-400"
+                                    numberOfLines={1}
+                                >
+                                    {describeSyncStatus(syncStatus)}
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/holidays")}
+                            className="mt-3 flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="calendar-sharp" size={20} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    Holidays
+                                </Text>
+                                <Text className="text-xs font-bold text-gray-600 dark:text-gray-400">
+                                    Dates recurring tasks can skip
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+
+                        <Pressable
+                            onPress={() => handleNavigate("/trash")}
+                            className="mt-3 flex-row items-center gap-3 border-5 border-black bg-white p-3 shadow-brutal-sm active:translate-x-[4px] active:translate-y-[4px] active:shadow-none dark:border-neo-primary dark:bg-neo-dark-surface dark:shadow-brutal-dark-sm"
+                        >
+                            <Ionicons name="trash-sharp" size={20} color="#FF0055" />
+                            <View className="flex-1">
+                                <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                    Trash
+                                </Text>
+                                <Text className="text-xs font-bold text-gray-600 dark:text-gray-400">
+                                    Restore deleted tasks before they are purged
+                                </Text>
+                            </View>
+                            <Ionicons
+                                name="chevron-forward-sharp"
+                                size={18}
+                                color={colorScheme === "dark" ? "white" : "black"}
+                            />
+                        </Pressable>
+                    </Animated.View>
+
                     {/* Future Settings Placeholder */}
                     <Animated.View entering={FadeIn.delay(250).duration(200)}>
                         <View className="mt-4 border-t-4 border-dashed border-gray-300 pt-4 dark:border-gray-700">
@@ -26,6 +26,9 @@ const SORT_OPTIONS: SortOption[] = [
     { value: "DUE_DESC", label: "DUE ↓", icon: "calendar-sharp" },
     { value: "ALPHA_ASC", label: "A → Z", icon: "text-sharp" },
     { value: "ALPHA_DESC", label: "Z → A", icon: "text-sharp" },
+    { value: "CREATED_DESC", label: "NEWEST", icon: "time-sharp" },
+    { value: "CREATED_ASC", label: "OLDEST", icon: "hourglass-sharp" },
+    { value: "UPDATED_DESC", label: "MODIFIED", icon: "create-sharp" },
 ];
 
 const SORT_DESCRIPTIONS: Record<SortType, string> = {
@@ -36,6 +39,9 @@ const SORT_DESCRIPTIONS: Record<SortType, string> = {
     DUE_DESC: "Latest due date first",
     ALPHA_ASC: "Alphabetical A to Z",
     ALPHA_DESC: "Alphabetical Z to A",
+    CREATED_DESC: "Newest tasks first",
+    CREATED_ASC: "Oldest tasks first",
+    UPDATED_DESC: "Recently modified first",
 };
 
 interface SortSelectorProps {
@@ -16,13 +16,18 @@ import {twMerge} from "tailwind-merge";
 import {clsx} from "clsx";
 import * as Haptics from "expo-haptics";
 import {router} from "expo-router";
+import DateTimePickerModal from "react-native-modal-datetime-picker";
 import {Todo, getPriorityOption, getReminders} from "@/types/todo";
 import {RecurrencePattern} from "@/types/recurrence";
 import {
     getRecurrenceShortLabel,
     isRecurrenceActive,
     formatRecurrencePattern,
+    getOccurrenceProgress,
+    getSeriesId,
+    getIntraDayTimes,
 } from "@/utils/recurrence";
+import {getDeviceTimeZone, getTodoTimeZone} from "@/utils/timezone";
 import {useBulkEdit} from "@/context/BulkEditContext";
 import {useColorScheme} from "@/hooks/use-color-scheme";
 
@@ -47,6 +52,8 @@ interface TodoItemProps {
     onClearDueDate: (id: string) => void;
     onSetRecurrence: (id: string, pattern: RecurrencePattern) => void;
     onClearRecurrence: (id: string) => void;
+    onSkipOccurrence: (id: string) => void;
+    onMoveOccurrence: (id: string, date: Date) => void;
     onAddSubtask: (id: string, text: string) => void;
     onToggleSubtask: (id: string, subtaskId: string) => void;
     onDeleteSubtask: (id: string, subtaskId: string) => void;
@@ -77,11 +84,14 @@ export default function TodoItem({
                                      onToggle,
                                      onEdit,
                                      onDelete,
+                                     onSkipOccurrence,
+                                     onMoveOccurrence,
                                      onToggleSubtask,
                                      onDeleteSubtask,
                                  }: TodoItemProps) {
     const colorClass = CARD_COLOR;
     const [showDetails, setShowDetails] = useState(false);
+    const [showMoveDatePicker, setShowMoveDatePicker] = useState(false);
     const {isBulkMode, selectedIds, toggleSelection} = useBulkEdit();
 
     const isSelected = selectedIds.has(item.id);
@@ -151,6 +161,24 @@ export default function TodoItem({
         [onDeleteSubtask, item.id]
     );
 
+    const handleSkipOccurrence = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        onSkipOccurrence(item.id);
+    }, [onSkipOccurrence, item.id]);
+
+    const handleMoveOccurrenceConfirm = useCallback((date: Date) => {
+        setShowMoveDatePicker(false);
+        onMoveOccurrence(item.id, date);
+    }, [onMoveOccurrence, item.id]);
+
+    const handleOpenSeries = useCallback(async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        router.push({
+            pathname: "/(tabs)/series",
+            params: {seriesId: getSeriesId(item)},
+        });
+    }, [item]);
+
     const handleStartZenMode = useCallback(async () => {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         zenButtonScale.value = withTiming(0.9, TIMING_CONFIG_FAST, () => {
@@ -178,13 +206,22 @@ export default function TodoItem({
         }
     };
 
+    // Anchored tasks show the day in their own time zone
+    const todoTimeZone = getTodoTimeZone(item);
+    const isAwayFromTimeZone = item.timeMode === "anchored" && todoTimeZone !== getDeviceTimeZone();
+
+    // Several times a day: the due date carries the time too
+    const hasTimesOfDay = !!item.recurrence && getIntraDayTimes(item.recurrence).length > 0;
+
     const formatDueDateFull = (dateString: string) => {
         const date = new Date(dateString);
-        return date.toLocaleDateString("en-US", {
+        return date.toLocaleString("en-US", {
             weekday: "long",
             month: "long",
             day: "numeric",
             year: "numeric",
+            ...(hasTimesOfDay && {hour: "numeric", minute: "2-digit"}),
+            timeZone: todoTimeZone,
         });
     };
 
@@ -204,6 +241,7 @@ export default function TodoItem({
     const isDueDateToday = (dateString: string) => getDatePriority(dateString) === 1;
     const isDueDateTomorrow = (dateString: string) => getDatePriority(dateString) === 2;
     const hasRecurrence = isRecurrenceActive(item.recurrence);
+    const occurrence = getOccurrenceProgress(item);
     const subtasks = item.subtasks || [];
     const subtaskCount = subtasks.length;
     const completedSubtasks = subtasks.filter((s) => s.completed).length;
@@ -325,6 +363,7 @@ export default function TodoItem({
                                         <Ionicons name="repeat-sharp" size={12} color="white"/>
                                         <Text className="text-xs font-black uppercase tracking-tight text-white">
                                             {getRecurrenceShortLabel(item.recurrence!)}
+                                            {occurrence && ` · ${occurrence.current} of ${occurrence.total}`}
                                         </Text>
                                     </View>
                                 )}
@@ -454,6 +493,11 @@ export default function TodoItem({
                                     ? formatDueDateFull(item.dueDate)
                                     : "Not set"}
                             </Text>
+                            {isAwayFromTimeZone && (
+                                <Text className="text-xs font-black uppercase text-gray-600 dark:text-gray-400">
+                                    {todoTimeZone} time
+                                </Text>
+                            )}
                         </View>
                     </View>
 
@@ -511,6 +555,44 @@ export default function TodoItem({
                                     ? formatRecurrencePattern(item.recurrence!)
                                     : "Does not repeat"}
                             </Text>
+                            {item.occurrenceDate && item.occurrenceDate !== item.dueDate && (
+                                <Text className="text-xs font-black uppercase text-gray-600 dark:text-gray-400">
+                                    Moved from {formatDueDateFull(item.occurrenceDate)}
+                                </Text>
+                            )}
+                            {hasRecurrence && (
+                                <View className="mt-2 flex-row gap-2">
+                                    <Pressable
+                                        onPress={handleSkipOccurrence}
+                                        className="flex-1 flex-row items-center justify-center gap-1 border-3 border-black bg-neo-orange py-2 dark:border-neo-primary"
+                                    >
+                                        <Ionicons name="play-skip-forward-sharp" size={14} color="white"/>
+                                        <Text className="text-xs font-black uppercase text-white">
+                                            Skip This One
+                                        </Text>
+                                    </Pressable>
+                                    <Pressable
+                                        onPress={() => setShowMoveDatePicker(true)}
+                                        className="flex-1 flex-row items-center justify-center gap-1 border-3 border-black bg-neo-accent py-2 dark:border-neo-primary"
+                                    >
+                                        <Ionicons name="calendar-number-sharp" size={14} color="black"/>
+                                        <Text className="text-xs font-black uppercase text-black">
+                                            Move To…
+                                        </Text>
+                                    </Pressable>
+                                </View>
+                            )}
+                            {(hasRecurrence || item.parentRecurrenceId) && (
+                                <Pressable
+                                    onPress={handleOpenSeries}
+                                    className="mt-2 flex-row items-center justify-center gap-1 border-3 border-black bg-white py-2 dark:border-neo-primary dark:bg-neo-dark-surface"
+                                >
+                                    <Ionicons name="albums-sharp" size={14} color="#B000FF"/>
+                                    <Text className="text-xs font-black uppercase text-black dark:text-white">
+                                        View Series
+                                    </Text>
+                                </Pressable>
+                            )}
                         </View>
                     </View>
 
@@ -583,6 +665,37 @@ export default function TodoItem({
                         </View>
                     )}
 
+                    {/* Timestamps */}
+                    {item.createdAt && (
+                        <View className="mb-3 flex-row items-start gap-3">
+                            <View
+                                className="h-8 w-8 items-center justify-center border-3 border-black bg-white dark:border-neo-primary">
+                                <Ionicons name="time-sharp" size={16} color="black"/>
+                            </View>
+                            <View className="flex-1">
+                                <Text
+                                    className="text-xs font-black uppercase tracking-widest text-gray-600 dark:text-gray-600">
+                                    History
+                                </Text>
+                                <View className="mt-1 gap-1">
+                                    <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                        Created {formatReminderFull(item.createdAt)}
+                                    </Text>
+                                    {item.updatedAt && item.updatedAt !== item.createdAt && (
+                                        <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                            Modified {formatReminderFull(item.updatedAt)}
+                                        </Text>
+                                    )}
+                                    {item.completedAt && (
+                                        <Text className="text-sm font-black uppercase text-black dark:text-white">
+                                            Completed {formatReminderFull(item.completedAt)}
+                                        </Text>
+                                    )}
+                                </View>
+                            </View>
+                        </View>
+                    )}
+
                     {/* Zen Mode Button */}
                     <Animated.View style={zenButtonAnimatedStyle}>
                         <Pressable
@@ -606,6 +719,18 @@ export default function TodoItem({
                     </View>
                 </Animated.View>
             )}
+
+            {/* Move Occurrence Date Picker */}
+            {hasRecurrence && (
+                <DateTimePickerModal
+                    isVisible={showMoveDatePicker}
+                    mode="date"
+                    date={item.dueDate ? new Date(item.dueDate) : new Date()}
+                    onConfirm={handleMoveOccurrenceConfirm}
+                    onCancel={() => setShowMoveDatePicker(false)}
+                    isDarkModeEnabled={colorScheme === "dark"}
+                />
+            )}
         </Animated.View>
     );
 }
\ No newline at end of file
@@ -12,6 +12,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 
 import { useToast } from "@/context/ToastContext";
+import { Todo } from "@/types/todo";
 
 const TIMING_CONFIG = {
     duration: 250,
@@ -24,7 +25,7 @@ const TIMING_CONFIG_FAST = {
 };
 
 interface UndoToastProps {
-    onUndo: () => void;
+    onUndo: (todos: Todo[]) => void;
 }
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
@@ -73,9 +74,9 @@ export default function UndoToast({ onUndo }: UndoToastProps) {
             withTiming(0.9, TIMING_CONFIG_FAST),
             withTiming(1, TIMING_CONFIG_FAST)
         );
-        const deletedTodo = undoDelete();
-        if (deletedTodo) {
-            onUndo();
+        const deletedTodos = undoDelete();
+        if (deletedTodos.length > 0) {
+            onUndo(deletedTodos);
         }
     }, [undoDelete, onUndo]);
 
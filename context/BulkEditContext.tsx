@@ -1,9 +1,7 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useRef } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import React, { createContext, useContext, useState, useCallback, ReactNode } from "react";
 import { Todo, getReminders } from "@/types/todo";
 import { cancelNotification } from "@/utils/notifications";
-
-const STORAGE_KEY = "@neo_brutal_todos_v2";
+import { useTodoStore } from "@/context/TodoStoreContext";
 
 interface BulkEditContextType {
     isBulkMode: boolean;
@@ -15,7 +13,6 @@ interface BulkEditContextType {
     deselectAll: () => void;
     deleteTasks: () => Promise<Todo[]>;
     moveTasks: (targetListId: string) => Promise<void>;
-    setTodosRef: (todos: Todo[], setTodos: React.Dispatch<React.SetStateAction<Todo[]>>) => void;
 }
 
 const BulkEditContext = createContext<BulkEditContextType | undefined>(undefined);
@@ -23,14 +20,7 @@ const BulkEditContext = createContext<BulkEditContextType | undefined>(undefined
 export function BulkEditProvider({ children }: { children: ReactNode }) {
     const [isBulkMode, setIsBulkMode] = useState(false);
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-
-    const todosRef = useRef<Todo[]>([]);
-    const setTodosCallbackRef = useRef<React.Dispatch<React.SetStateAction<Todo[]>> | null>(null);
-
-    const setTodosRef = useCallback((todos: Todo[], setTodos: React.Dispatch<React.SetStateAction<Todo[]>>) => {
-        todosRef.current = todos;
-        setTodosCallbackRef.current = setTodos;
-    }, []);
+    const { getTodo, deleteTodos, moveTodos } = useTodoStore();
 
     const enterBulkMode = useCallback(() => {
         setIsBulkMode(true);
@@ -63,23 +53,12 @@ export function BulkEditProvider({ children }: { children: ReactNode }) {
     }, []);
 
     const deleteTasks = useCallback(async (): Promise<Todo[]> => {
-        const todos = todosRef.current;
-        const setTodos = setTodosCallbackRef.current;
-        if (!setTodos || selectedIds.size === 0) return [];
-
-        const deletedTodos: Todo[] = [];
+        if (selectedIds.size === 0) return [];
 
         for (const id of selectedIds) {
-            const todo = todos.find((t) => t.id === id);
+            const todo = getTodo(id);
             if (todo) {
-                deletedTodos.push(todo);
-
-                // Cancel legacy notification
-                if (todo.notificationId) {
-                    await cancelNotification(todo.notificationId);
-                }
-
-                // Cancel all reminder notifications (including migrated legacy)
+                // Cancel all reminder notifications
                 const reminders = getReminders(todo);
                 for (const reminder of reminders) {
                     if (reminder.notificationId) {
@@ -89,27 +68,13 @@ export function BulkEditProvider({ children }: { children: ReactNode }) {
             }
         }
 
-        const newTodos = todos.filter((t) => !selectedIds.has(t.id));
-        setTodos(newTodos);
-
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(newTodos));
-
-        return deletedTodos;
-    }, [selectedIds]);
+        return await deleteTodos(Array.from(selectedIds));
+    }, [selectedIds, getTodo, deleteTodos]);
 
     const moveTasks = useCallback(async (targetListId: string) => {
-        const todos = todosRef.current;
-        const setTodos = setTodosCallbackRef.current;
-        if (!setTodos || selectedIds.size === 0) return;
-
-        const newTodos = todos.map((t) =>
-            selectedIds.has(t.id) ? { ...t, listId: targetListId } : t
-        );
-
-        setTodos(newTodos);
-
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(newTodos));
-    }, [selectedIds]);
+        if (selectedIds.size === 0) return;
+        await moveTodos(Array.from(selectedIds), targetListId);
+    }, [selectedIds, moveTodos]);
 
     return (
         <BulkEditContext.Provider
@@ -123,7 +88,6 @@ export function BulkEditProvider({ children }: { children: ReactNode }) {
                 deselectAll,
                 deleteTasks,
                 moveTasks,
-                setTodosRef,
             }}
         >
             {children}
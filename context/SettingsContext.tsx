@@ -1,15 +1,20 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { AppSettings, PomodoroSettings, DEFAULT_SETTINGS } from "@/types/settings";
+import { AppSettings, Holiday, PomodoroSettings, DEFAULT_SETTINGS } from "@/types/settings";
+import { isAppSettings, loadValidated, saveValidated } from "@/utils/persistence";
 
-const SETTINGS_STORAGE_KEY = "@neo_brutal_settings_v1";
+export const SETTINGS_STORAGE_KEY = "@neo_brutal_settings_v1";
 
 interface SettingsContextType {
     settings: AppSettings;
     isLoading: boolean;
+    loadError: string | null;
+    loadSettings: () => Promise<void>;
     updatePomodoroSettings: (updates: Partial<PomodoroSettings>) => Promise<void>;
     resetPomodoroSettings: () => Promise<void>;
+    updateTrashRetention: (days: number) => Promise<void>;
+    updateHolidays: (holidays: Holiday[]) => Promise<void>;
     resetAllSettings: () => Promise<void>;
+    replaceSettings: (settings: AppSettings) => Promise<void>;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -17,12 +22,14 @@ const SettingsContext = createContext<SettingsContextType | undefined>(undefined
 export function SettingsProvider({ children }: { children: ReactNode }) {
     const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
     const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
 
     const loadSettings = useCallback(async () => {
         try {
-            const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
-            if (stored) {
-                const parsed: AppSettings = JSON.parse(stored);
+            const result = await loadValidated(SETTINGS_STORAGE_KEY, isAppSettings);
+            setLoadError(result.status === "corrupt" ? result.error : null);
+            if (result.status === "ok") {
+                const parsed = result.data;
                 // Merge with defaults to handle new settings added in updates
                 setSettings({
                     ...DEFAULT_SETTINGS,
@@ -41,12 +48,14 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     }, []);
 
     const saveSettings = useCallback(async (newSettings: AppSettings) => {
+        // Never write over settings that failed to load
+        if (loadError) return;
         try {
-            await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+            await saveValidated(SETTINGS_STORAGE_KEY, newSettings, isAppSettings);
         } catch (e) {
             console.error("Failed to save settings:", e);
         }
-    }, []);
+    }, [loadError]);
 
     useEffect(() => {
         loadSettings();
@@ -73,18 +82,54 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         await saveSettings(newSettings);
     }, [settings, saveSettings]);
 
+    const updateTrashRetention = useCallback(async (days: number) => {
+        const newSettings: AppSettings = {
+            ...settings,
+            trashRetentionDays: days,
+        };
+        setSettings(newSettings);
+        await saveSettings(newSettings);
+    }, [settings, saveSettings]);
+
+    const updateHolidays = useCallback(async (holidays: Holiday[]) => {
+        const newSettings: AppSettings = {
+            ...settings,
+            holidays,
+        };
+        setSettings(newSettings);
+        await saveSettings(newSettings);
+    }, [settings, saveSettings]);
+
     const resetAllSettings = useCallback(async () => {
         setSettings(DEFAULT_SETTINGS);
         await saveSettings(DEFAULT_SETTINGS);
     }, [saveSettings]);
+
+    const replaceSettings = useCallback(async (newSettings: AppSettings) => {
+        const merged: AppSettings = {
+            ...DEFAULT_SETTINGS,
+            ...newSettings,
+            pomodoro: {
+                ...DEFAULT_SETTINGS.pomodoro,
+                ...newSettings.pomodoro,
+            },
+        };
+        setSettings(merged);
+        await saveSettings(merged);
+    }, [saveSettings]);
     return (
         <SettingsContext.Provider
             value={{
                 settings,
                 isLoading,
+                loadError,
+                loadSettings,
                 updatePomodoroSettings,
                 resetPomodoroSettings,
+                updateTrashRetention,
+                updateHolidays,
                 resetAllSettings,
+                replaceSettings,
             }}
         >
             {children}
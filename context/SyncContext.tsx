@@ -0,0 +1,178 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { AppState } from "react-native";
+import { useUser } from "@/context/UserContext";
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { useTodoList } from "@/context/TodoListContext";
+import { TodoList } from "@/types/todoList";
+import { SyncConfig, SyncStatus } from "@/types/sync";
+import { clearSyncLog, countPendingSyncChanges } from "@/utils/database";
+import {
+    SyncError,
+    SyncMerge,
+    applySyncMerge,
+    createHttpTransport,
+    loadSyncConfig,
+    runSync,
+    saveSyncConfig,
+    seedSyncLog,
+} from "@/utils/sync";
+
+// Local edits are pushed once they have settled for this long
+const SYNC_DEBOUNCE_MS = 5000;
+
+interface SyncContextType {
+    config: SyncConfig | null;
+    status: SyncStatus;
+    enableSync: (endpoint: string, syncKey?: string) => Promise<void>;
+    disableSync: () => Promise<void>;
+    syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+/**
+ * Optional sync with a self-hosted server. Runs when turned on, when the app
+ * comes to the foreground and shortly after local changes.
+ */
+export function SyncProvider({ children }: { children: ReactNode }) {
+    const { userId } = useUser();
+    const { todos, trashedTodos, applySyncedTodos, reconcileReminders } = useTodoStore();
+    const { lists, applySyncedLists } = useTodoList();
+    const [config, setConfig] = useState<SyncConfig | null>(null);
+    const [status, setStatus] = useState<SyncStatus>({ state: "off", pendingChanges: 0 });
+    const isSyncingRef = useRef(false);
+
+    useEffect(() => {
+        loadSyncConfig()
+            .then((loaded) => {
+                setConfig(loaded);
+                setStatus({
+                    state: loaded.enabled ? "idle" : "off",
+                    lastSyncedAt: loaded.lastSyncedAt,
+                    pendingChanges: 0,
+                });
+            })
+            .catch((e) => console.error("Failed to load sync settings:", e));
+    }, []);
+
+    /**
+     * Write synced project fields into the current projects
+     */
+    const applyLists = useCallback(async (merge: SyncMerge) => {
+        const now = new Date().toISOString();
+        const base = new Map(lists.map((l) => [l.id, l]));
+        const result = applySyncMerge("list", lists, base, merge, (id): TodoList => ({
+            id,
+            name: "Untitled",
+            createdAt: now,
+        }));
+        const changed = new Set(result.changedIds);
+        await applySyncedLists(result.next.filter((l) => changed.has(l.id)), merge.deletedIds);
+        return result.applied;
+    }, [lists, applySyncedLists]);
+
+    const syncNow = useCallback(async () => {
+        if (!config?.enabled || !userId || isSyncingRef.current) return;
+        isSyncingRef.current = true;
+        setStatus((prev) => ({ ...prev, state: "syncing", error: undefined }));
+        // What the tasks looked like before the pull; edits made during it win
+        const base = [...todos, ...trashedTodos];
+        try {
+            const next = await runSync(createHttpTransport(config.endpoint, userId, config.syncKey), config, {
+                // Notifications stay on each device: reconcile schedules them for the merged reminders
+                applyTodos: async (merge) => {
+                    const applied = await applySyncedTodos(merge, base);
+                    await reconcileReminders();
+                    return applied;
+                },
+                applyLists,
+            });
+            await saveSyncConfig(next);
+            setConfig(next);
+            setStatus({
+                state: "idle",
+                lastSyncedAt: next.lastSyncedAt,
+                pendingChanges: await countPendingSyncChanges(),
+            });
+        } catch (e) {
+            console.error("Sync failed:", e);
+            setStatus({
+                state: "error",
+                lastSyncedAt: config.lastSyncedAt,
+                error: e instanceof SyncError ? e.message : "Something went wrong while syncing",
+                pendingChanges: await countPendingSyncChanges().catch(() => 0),
+            });
+        } finally {
+            isSyncingRef.current = false;
+        }
+    }, [config, userId, todos, trashedTodos, applySyncedTodos, reconcileReminders, applyLists]);
+
+    // Keep the latest syncNow for timers and listeners that outlive a render
+    const syncNowRef = useRef(syncNow);
+    useEffect(() => {
+        syncNowRef.current = syncNow;
+    }, [syncNow]);
+
+    useEffect(() => {
+        if (!config?.enabled) return;
+        const timeout = setTimeout(() => syncNowRef.current(), SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [config?.enabled, todos, trashedTodos, lists]);
+
+    useEffect(() => {
+        if (!config?.enabled) return;
+        const subscription = AppState.addEventListener("change", (state) => {
+            if (state === "active") syncNowRef.current();
+        });
+        return () => subscription.remove();
+    }, [config?.enabled]);
+
+    const enableSync = useCallback(async (endpoint: string, syncKey?: string) => {
+        const current = config ?? (await loadSyncConfig());
+        // Start from scratch so this device receives everything the server has
+        await clearSyncLog();
+        const next: SyncConfig = {
+            ...current,
+            enabled: true,
+            endpoint: endpoint.trim(),
+            // Joining another device takes over its key
+            syncKey: syncKey || current.syncKey,
+            cursor: null,
+        };
+        await saveSyncConfig(next);
+        await seedSyncLog([...todos, ...trashedTodos], lists, next.deviceId);
+        setConfig(next);
+        setStatus({ state: "idle", lastSyncedAt: next.lastSyncedAt, pendingChanges: await countPendingSyncChanges() });
+    }, [config, todos, trashedTodos, lists]);
+
+    const disableSync = useCallback(async () => {
+        if (!config) return;
+        const next: SyncConfig = { ...config, enabled: false, cursor: null };
+        await saveSyncConfig(next);
+        await clearSyncLog();
+        setConfig(next);
+        setStatus({ state: "off", lastSyncedAt: next.lastSyncedAt, pendingChanges: 0 });
+    }, [config]);
+
+    return (
+        <SyncContext.Provider
+            value={{
+                config,
+                status,
+                enableSync,
+                disableSync,
+                syncNow,
+            }}
+        >
+            {children}
+        </SyncContext.Provider>
+    );
+}
+
+export function useSync() {
+    const context = useContext(SyncContext);
+    if (!context) {
+        throw new Error("useSync must be used within a SyncProvider");
+    }
+    return context;
+}
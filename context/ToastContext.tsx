@@ -4,14 +4,14 @@ import { Todo } from "@/types/todo";
 interface ToastState {
     visible: boolean;
     message: string;
-    deletedTodo: Todo | null;
+    deletedTodos: Todo[];
 }
 
 interface ToastContextType {
     toast: ToastState;
-    showDeleteToast: (todo: Todo, message?: string) => void;
+    showDeleteToast: (todos: Todo[], message?: string) => void;
     hideToast: () => void;
-    undoDelete: () => Todo | null;
+    undoDelete: () => Todo[];
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -22,7 +22,7 @@ export function ToastProvider({ children }: { children: ReactNode }) {
     const [toast, setToast] = useState<ToastState>({
         visible: false,
         message: "",
-        deletedTodo: null,
+        deletedTodos: [],
     });
     const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -31,10 +31,12 @@ export function ToastProvider({ children }: { children: ReactNode }) {
             clearTimeout(timeoutRef.current);
             timeoutRef.current = null;
         }
-        setToast((prev) => ({ ...prev, visible: false, deletedTodo: null }));
+        setToast((prev) => ({ ...prev, visible: false, deletedTodos: [] }));
     }, []);
 
-    const showDeleteToast = useCallback((todo: Todo, message?: string) => {
+    const showDeleteToast = useCallback((todos: Todo[], message?: string) => {
+        if (todos.length === 0) return;
+
         // Clear any existing timeout
         if (timeoutRef.current !== null) {
             clearTimeout(timeoutRef.current);
@@ -42,8 +44,8 @@ export function ToastProvider({ children }: { children: ReactNode }) {
 
         setToast({
             visible: true,
-            message: message || `"${todo.text}" deleted`,
-            deletedTodo: todo,
+            message: message || `"${todos[0].text}" moved to trash`,
+            deletedTodos: todos,
         });
 
         // Auto-hide after duration
@@ -53,11 +55,11 @@ export function ToastProvider({ children }: { children: ReactNode }) {
         }, TOAST_DURATION) as any;
     }, [hideToast]);
 
-    const undoDelete = useCallback((): Todo | null => {
-        const deletedTodo = toast.deletedTodo;
+    const undoDelete = useCallback((): Todo[] => {
+        const deletedTodos = toast.deletedTodos;
         hideToast();
-        return deletedTodo;
-    }, [toast.deletedTodo, hideToast]);
+        return deletedTodos;
+    }, [toast.deletedTodos, hideToast]);
 
     return (
         <ToastContext.Provider
@@ -1,18 +1,24 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { TodoList, DEFAULT_LIST, DEFAULT_LIST_ID } from "@/types/todoList";
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { PersistenceError, isTodoListArray, recordSnapshot } from "@/utils/persistence";
+import { loadAllLists, replaceAllLists } from "@/utils/database";
+import { loadSyncConfig, recordSyncChanges } from "@/utils/sync";
 
-const LISTS_STORAGE_KEY = "@neo_brutal_lists_v1";
-const TODOS_STORAGE_KEY = "@neo_brutal_todos_v2";
+// Lists live in SQLite; this key now only names their snapshot ring
+export const LISTS_STORAGE_KEY = "@neo_brutal_lists_v1";
 
 interface TodoListContextType {
     lists: TodoList[];
     selectedListId: string;
     selectedList: TodoList | undefined;
+    loadError: string | null;
     setSelectedListId: (id: string) => void;
     addList: (name: string) => Promise<TodoList>;
     updateList: (id: string, name: string) => Promise<void>;
     deleteList: (id: string) => Promise<void>;
+    replaceLists: (lists: TodoList[]) => Promise<void>;
+    applySyncedLists: (updated: TodoList[], deletedIds: string[]) => Promise<void>;
     loadLists: () => Promise<void>;
 }
 
@@ -21,31 +27,40 @@ const TodoListContext = createContext<TodoListContextType | undefined>(undefined
 export function TodoListProvider({ children }: { children: ReactNode }) {
     const [lists, setLists] = useState<TodoList[]>([DEFAULT_LIST]);
     const [selectedListId, setSelectedListId] = useState<string>(DEFAULT_LIST_ID);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const { todos, trashedTodos, moveTodos } = useTodoStore();
 
     const loadLists = useCallback(async () => {
         try {
-            const stored = await AsyncStorage.getItem(LISTS_STORAGE_KEY);
-            if (stored) {
-                const parsedLists: TodoList[] = JSON.parse(stored);
-                // Ensure default list always exists
-                const hasDefault = parsedLists.some(l => l.id === DEFAULT_LIST_ID);
-                if (!hasDefault) {
-                    setLists([DEFAULT_LIST, ...parsedLists]);
-                } else {
-                    setLists(parsedLists);
-                }
+            const parsedLists = await loadAllLists();
+            setLoadError(null);
+            // Ensure default list always exists
+            const hasDefault = parsedLists.some(l => l.id === DEFAULT_LIST_ID);
+            if (!hasDefault) {
+                setLists([DEFAULT_LIST, ...parsedLists]);
             } else {
-                setLists([DEFAULT_LIST]);
+                setLists(parsedLists);
             }
         } catch (e) {
             console.error("Failed to load lists", e);
-            setLists([DEFAULT_LIST]);
+            setLoadError(e instanceof Error ? e.message : String(e));
         }
     }, []);
 
-    const saveLists = async (newLists: TodoList[]) => {
+    const saveLists = async (newLists: TodoList[], fromSync = false) => {
+        // Never write over lists that failed to load
+        if (loadError) return;
         try {
-            await AsyncStorage.setItem(LISTS_STORAGE_KEY, JSON.stringify(newLists));
+            if (!isTodoListArray(newLists)) {
+                throw new PersistenceError("Refusing to save invalid lists");
+            }
+            // Changes that came from sync are not recorded for sync again
+            const previous = !fromSync && (await loadSyncConfig()).enabled ? await loadAllLists() : null;
+            await replaceAllLists(newLists);
+            await recordSnapshot(LISTS_STORAGE_KEY, () => JSON.stringify(newLists));
+            if (previous) {
+                await recordSyncChanges("list", previous, newLists);
+            }
         } catch (e) {
             console.error("Failed to save lists", e);
         }
@@ -79,19 +94,9 @@ export function TodoListProvider({ children }: { children: ReactNode }) {
     const deleteList = useCallback(async (id: string) => {
         if (id === DEFAULT_LIST_ID) return; // Can't delete default list
 
-        // Move tasks from deleted list to Inbox
-        try {
-            const stored = await AsyncStorage.getItem(TODOS_STORAGE_KEY);
-            if (stored) {
-                const todos = JSON.parse(stored);
-                const updated = todos.map((t: { listId?: string }) =>
-                    t.listId === id ? { ...t, listId: DEFAULT_LIST_ID } : t
-                );
-                await AsyncStorage.setItem(TODOS_STORAGE_KEY, JSON.stringify(updated));
-            }
-        } catch (e) {
-            console.error("Failed to move tasks to inbox", e);
-        }
+        // Move tasks from deleted list to Inbox, trashed ones too so a restore finds a project
+        const orphanedIds = [...todos, ...trashedTodos].filter(t => t.listId === id).map(t => t.id);
+        await moveTodos(orphanedIds, DEFAULT_LIST_ID);
 
         const newLists = lists.filter(l => l.id !== id);
         setLists(newLists);
@@ -99,6 +104,34 @@ export function TodoListProvider({ children }: { children: ReactNode }) {
         if (selectedListId === id) {
             setSelectedListId(DEFAULT_LIST_ID);
         }
+    }, [lists, selectedListId, todos, trashedTodos, moveTodos]);
+
+    const replaceLists = useCallback(async (newLists: TodoList[]) => {
+        // Ensure default list always exists
+        const withDefault = newLists.some(l => l.id === DEFAULT_LIST_ID)
+            ? newLists
+            : [DEFAULT_LIST, ...newLists];
+        setLists(withDefault);
+        await saveLists(withDefault);
+        if (!withDefault.some(l => l.id === selectedListId)) {
+            setSelectedListId(DEFAULT_LIST_ID);
+        }
+    }, [selectedListId]);
+
+    const applySyncedLists = useCallback(async (updated: TodoList[], deletedIds: string[]) => {
+        const updatedById = new Map(updated.map((l) => [l.id, l]));
+        const listIds = new Set(lists.map((l) => l.id));
+        // The Inbox is never deleted, even if another device says so
+        const removed = new Set(deletedIds.filter((id) => id !== DEFAULT_LIST_ID));
+        const newLists = [
+            ...lists.filter((l) => !removed.has(l.id)).map((l) => updatedById.get(l.id) || l),
+            ...updated.filter((l) => !listIds.has(l.id)),
+        ];
+        setLists(newLists);
+        await saveLists(newLists, true);
+        if (removed.has(selectedListId)) {
+            setSelectedListId(DEFAULT_LIST_ID);
+        }
     }, [lists, selectedListId]);
 
     const selectedList = lists.find(l => l.id === selectedListId);
@@ -109,10 +142,13 @@ export function TodoListProvider({ children }: { children: ReactNode }) {
                 lists,
                 selectedListId,
                 selectedList,
+                loadError,
                 setSelectedListId,
                 addList,
                 updateList,
                 deleteList,
+                replaceLists,
+                applySyncedLists,
                 loadLists,
             }}
         >
@@ -0,0 +1,564 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from "react";
+import { Todo, getReminders } from "@/types/todo";
+import { SyncChange } from "@/types/sync";
+import { useSettings } from "@/context/SettingsContext";
+import { PersistenceError, isTodoArray, recordSnapshot } from "@/utils/persistence";
+import { TodoSets, loadTodoSets, planTodoWrite, writeTodos } from "@/utils/database";
+import {
+    ReminderReconcileReport,
+    cancelNotification,
+    cancelTodoReminders,
+    reconcileReminderNotifications,
+    scheduleNotification,
+    scheduleTodoReminders,
+} from "@/utils/notifications";
+import { createNextRecurringTodo, isRecurrenceActive } from "@/utils/recurrence";
+import { SyncMerge, applySyncMerge, recordSyncChanges } from "@/utils/sync";
+import { needsTimeZoneReplan, replanTodoTimeZone } from "@/utils/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CARD_COLORS_COUNT = 6;
+
+// Todos live in SQLite; this key now only names their snapshot ring
+export const TODOS_STORAGE_KEY = "@neo_brutal_todos_v2";
+
+type TodoUpdate = Partial<Todo> | ((todo: Todo) => Todo);
+
+interface TodoStoreContextType {
+    todos: Todo[];
+    activeTodos: Todo[];
+    archivedTodos: Todo[];
+    trashedTodos: Todo[];
+    isLoading: boolean;
+    loadError: string | null;
+    reload: () => Promise<void>;
+    getTodo: (id: string) => Todo | undefined;
+    addTodo: (todo: Todo) => Promise<void>;
+    updateTodo: (id: string, update: TodoUpdate) => Promise<void>;
+    archiveTodo: (id: string, nextTodo?: Todo) => Promise<void>;
+    completeTodo: (id: string) => Promise<Todo | null>;
+    snoozeReminder: (todoId: string, reminderId: string, until: Date) => Promise<void>;
+    reconcileReminders: () => Promise<ReminderReconcileReport>;
+    replanTimeZone: (timeZone: string, fallbackZone: string) => Promise<number>;
+    skipTodo: (id: string, nextTodo?: Todo) => Promise<void>;
+    restoreTodo: (id: string) => Promise<void>;
+    deleteTodos: (ids: string[]) => Promise<Todo[]>;
+    restoreDeletedTodos: (ids: string[]) => Promise<void>;
+    purgeTodos: (ids: string[]) => Promise<void>;
+    emptyTrash: () => Promise<void>;
+    moveTodos: (ids: string[], targetListId: string) => Promise<void>;
+    replaceTodos: (todos: Todo[]) => Promise<void>;
+    applySyncedTodos: (merge: SyncMerge, base: Todo[]) => Promise<SyncChange[]>;
+}
+
+const TodoStoreContext = createContext<TodoStoreContextType | undefined>(undefined);
+
+// The collection split the way screens read it; `todos` is everything outside the trash
+interface TodoView extends TodoSets {
+    todos: Todo[];
+}
+
+/**
+ * Split the collection in one pass, keeping stored order within each part
+ */
+function splitTodos(all: Todo[]): TodoView {
+    const view: TodoView = { todos: [], active: [], archived: [], trashed: [] };
+    for (const todo of all) {
+        if (todo.deletedAt) {
+            view.trashed.push(todo);
+            continue;
+        }
+        view.todos.push(todo);
+        (todo.archivedAt ? view.archived : view.active).push(todo);
+    }
+    return view;
+}
+
+/**
+ * Fill in lifecycle timestamps a todo is missing: new tasks, imports and restored data
+ */
+function withTimestamps(todo: Todo, now: string): Todo {
+    if (todo.createdAt && todo.updatedAt && (todo.completedAt || todo.skippedAt || !todo.archivedAt)) {
+        return todo;
+    }
+    const createdAt = todo.createdAt || now;
+    return {
+        ...todo,
+        createdAt,
+        updatedAt: todo.updatedAt || createdAt,
+        completedAt: todo.completedAt || (todo.skippedAt ? undefined : todo.archivedAt),
+    };
+}
+
+/**
+ * Single owner of the todos collection. Every screen reads from and writes
+ * through this store; writes are applied in order and persisted one at a time.
+ * Only the rows a change touches are written to the database.
+ *
+ * Deleted tasks stay in the collection with `deletedAt` set until they are
+ * restored, purged, or outlive the trash retention period.
+ */
+export function TodoStoreProvider({ children }: { children: ReactNode }) {
+    const { settings, isLoading: isSettingsLoading } = useSettings();
+    const [view, setView] = useState<TodoView>({ todos: [], active: [], archived: [], trashed: [] });
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const todosRef = useRef<Todo[]>([]);
+    // The todos as last written to the database, and each one's stored row position
+    const writtenRef = useRef<Todo[]>([]);
+    const positionsRef = useRef<Map<string, number>>(new Map());
+    const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+    const loadTodos = useCallback(async () => {
+        try {
+            // Each set comes from its own indexed query; stored order joins them back up
+            const sets = await loadTodoSets(positionsRef.current);
+            const positions = positionsRef.current;
+            const byPosition = (a: Todo, b: Todo) => positions.get(a.id)! - positions.get(b.id)!;
+            const todos = [...sets.active, ...sets.archived].sort(byPosition);
+            todosRef.current = [...todos, ...sets.trashed].sort(byPosition);
+            writtenRef.current = todosRef.current;
+            setView({ ...sets, todos });
+            setLoadError(null);
+        } catch (e) {
+            console.error("Failed to load todos", e);
+            setLoadError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTodos();
+    }, [loadTodos]);
+
+    /**
+     * Apply a change to the latest todos and queue it for persistence.
+     * Resolves once this change (and every change before it) is written, and
+     * rejects if it could not be. Each write covers everything that differs
+     * from what the database holds, so one that fails is retried by the next;
+     * without a next one the todos are read back from the database.
+     * Changes that came from sync are not recorded for sync again.
+     */
+    const commit = useCallback((mutate: (current: Todo[]) => Todo[], fromSync = false): Promise<void> => {
+        // Never write over data that failed to load; the recovery screen handles it
+        if (loadError) {
+            return writeQueueRef.current;
+        }
+
+        const prev = todosRef.current;
+        const next = mutate(prev);
+        if (next === prev) {
+            return writeQueueRef.current;
+        }
+        todosRef.current = next;
+        setView(splitTodos(next));
+
+        const written = writeQueueRef.current.then(async () => {
+            const stored = writtenRef.current;
+            const positions = new Map(positionsRef.current);
+            const write = planTodoWrite(stored, next, positions);
+            try {
+                if (!isTodoArray(write.upserts.map((u) => u.todo))) {
+                    throw new PersistenceError("Refusing to save invalid todos");
+                }
+                await writeTodos(write);
+            } catch (e) {
+                console.error("Failed to save todos", e);
+                if (todosRef.current === next) {
+                    await loadTodos();
+                }
+                throw e;
+            }
+            writtenRef.current = next;
+            positionsRef.current = positions;
+
+            try {
+                await recordSnapshot(TODOS_STORAGE_KEY, () => JSON.stringify(next));
+                if (!fromSync) {
+                    await recordSyncChanges("todo", stored, next);
+                }
+            } catch (e) {
+                console.error("Failed to record saved todos", e);
+            }
+        });
+        writeQueueRef.current = written.catch(() => undefined);
+        return written;
+    }, [loadError, loadTodos]);
+
+    const getTodo = useCallback((id: string) => {
+        return todosRef.current.find((t) => t.id === id && !t.deletedAt);
+    }, []);
+
+    const addTodo = useCallback(async (todo: Todo) => {
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.some((t) => t.id === todo.id)
+                ? current
+                : [withTimestamps(todo, now), ...current]
+        );
+    }, [commit]);
+
+    const updateTodo = useCallback(async (id: string, update: TodoUpdate) => {
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.map((t) => {
+                if (t.id !== id) return t;
+                const updated = typeof update === "function" ? update(t) : { ...t, ...update };
+                return updated === t ? t : { ...updated, updatedAt: now };
+            })
+        );
+    }, [commit]);
+
+    const archiveTodo = useCallback(async (id: string, nextTodo?: Todo) => {
+        const now = new Date().toISOString();
+        await commit((current) => {
+            const updated = current.map((t) =>
+                t.id === id
+                    ? { ...t, completed: true, archivedAt: now, completedAt: now, updatedAt: now }
+                    : t
+            );
+            return nextTodo
+                ? [{ ...nextTodo, createdAt: now, updatedAt: now }, ...updated]
+                : updated;
+        });
+    }, [commit]);
+
+    /**
+     * Complete a task: cancel its reminders and archive it. An active
+     * recurring task brings in its next occurrence, with reminders scheduled,
+     * and returns it.
+     */
+    const completeTodo = useCallback(async (id: string): Promise<Todo | null> => {
+        const todo = todosRef.current.find((t) => t.id === id && !t.deletedAt && !t.archivedAt);
+        if (!todo) return null;
+
+        await cancelTodoReminders(todo);
+
+        const nextTodo = !todo.completed && isRecurrenceActive(todo.recurrence)
+            ? createNextRecurringTodo(
+                todo,
+                Math.floor(Math.random() * CARD_COLORS_COUNT),
+                new Date(),
+                settings.holidays
+            )
+            : null;
+        const scheduled = nextTodo ? await scheduleTodoReminders(nextTodo) : null;
+        await archiveTodo(id, scheduled || undefined);
+        return scheduled;
+    }, [archiveTodo, settings.holidays]);
+
+    /**
+     * Move one reminder to a later time and schedule its notification again
+     */
+    const snoozeReminder = useCallback(async (todoId: string, reminderId: string, until: Date) => {
+        const todo = todosRef.current.find((t) => t.id === todoId && !t.deletedAt && !t.archivedAt);
+        const reminder = todo && getReminders(todo).find((r) => r.id === reminderId);
+        if (!todo || !reminder) return;
+
+        if (reminder.notificationId) {
+            await cancelNotification(reminder.notificationId);
+        }
+        const notificationId = await scheduleNotification(todo.text, until, { todoId, reminderId });
+        await updateTodo(todoId, (t) => ({
+            ...t,
+            reminders: getReminders(t).map((r) =>
+                r.id === reminderId ? { ...r, date: until.toISOString(), notificationId } : r
+            ),
+        }));
+    }, [updateTodo]);
+
+    /**
+     * Bring scheduled notifications back in line with the stored reminders.
+     * Runs at startup and after bulk changes. Tasks whose reminders changed
+     * while it ran keep them, and the notifications made for them are dropped.
+     * Nothing is touched while the todos failed to load: an empty store would
+     * make every scheduled reminder look orphaned.
+     */
+    const reconcileReminders = useCallback(async (): Promise<ReminderReconcileReport> => {
+        if (loadError) {
+            return { rescheduled: 0, cancelled: 0 };
+        }
+        const snapshot = new Map(todosRef.current.map((t) => [t.id, t.reminders]));
+        const { reminders, report } = await reconcileReminderNotifications(todosRef.current);
+        if (reminders.size === 0) return report;
+
+        const superseded: string[] = [];
+        await commit((current) =>
+            current.map((t) => {
+                const fixed = reminders.get(t.id);
+                if (!fixed) return t;
+                if (t.reminders !== snapshot.get(t.id)) {
+                    const kept = new Set(getReminders(t).map((r) => r.notificationId));
+                    superseded.push(...fixed.flatMap((r) =>
+                        r.notificationId && !kept.has(r.notificationId) ? [r.notificationId] : []
+                    ));
+                    return t;
+                }
+                return { ...t, reminders: fixed };
+            })
+        );
+        for (const id of superseded) {
+            await cancelNotification(id);
+        }
+        return report;
+    }, [loadError, commit]);
+
+    /**
+     * Move floating tasks planned in another time zone to the same local times
+     * in `timeZone`, then schedule their reminders again. Returns how many
+     * tasks moved. Tasks edited while the notifications were scheduled keep
+     * their edits, and the notifications made for them are dropped.
+     */
+    const replanTimeZone = useCallback(async (timeZone: string, fallbackZone: string): Promise<number> => {
+        const isStale = (t: Todo) => !t.deletedAt && needsTimeZoneReplan(t, timeZone, fallbackZone);
+        const stale: Todo[] = [];
+        const replanned = new Map<string, Todo>();
+        const now = new Date().toISOString();
+        await commit((current) => {
+            if (!current.some(isStale)) return current;
+            return current.map((t) => {
+                if (!isStale(t)) return t;
+                const todo = { ...replanTodoTimeZone(t, timeZone, fallbackZone), updatedAt: now };
+                stale.push(t);
+                replanned.set(t.id, todo);
+                return todo;
+            });
+        });
+        if (stale.length === 0) return 0;
+
+        const scheduled = new Map<string, Todo>();
+        for (const todo of stale) {
+            await cancelTodoReminders(todo);
+            const next = await scheduleTodoReminders(replanned.get(todo.id)!);
+            scheduled.set(todo.id, next);
+        }
+
+        const superseded: string[] = [];
+        await commit((current) =>
+            current.map((t) => {
+                const next = scheduled.get(t.id);
+                if (!next) return t;
+                if (t.reminders !== replanned.get(t.id)!.reminders) {
+                    superseded.push(...getReminders(next).flatMap((r) =>
+                        r.notificationId ? [r.notificationId] : []
+                    ));
+                    return t;
+                }
+                return { ...t, reminders: next.reminders };
+            })
+        );
+        for (const id of superseded) {
+            await cancelNotification(id);
+        }
+        return stale.length;
+    }, [commit]);
+
+    /**
+     * Set one occurrence of a recurring task aside without completing it. It
+     * stays in the archive as part of its series, marked as skipped.
+     */
+    const skipTodo = useCallback(async (id: string, nextTodo?: Todo) => {
+        const now = new Date().toISOString();
+        await commit((current) => {
+            const updated = current.map((t) =>
+                t.id === id
+                    ? { ...t, completed: false, archivedAt: now, skippedAt: now, updatedAt: now }
+                    : t
+            );
+            return nextTodo
+                ? [{ ...nextTodo, createdAt: now, updatedAt: now }, ...updated]
+                : updated;
+        });
+    }, [commit]);
+
+    const restoreTodo = useCallback(async (id: string) => {
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.map((t) =>
+                t.id === id
+                    ? {
+                        ...t,
+                        completed: false,
+                        archivedAt: undefined,
+                        completedAt: undefined,
+                        skippedAt: undefined,
+                        updatedAt: now,
+                    }
+                    : t
+            )
+        );
+    }, [commit]);
+
+    /**
+     * Move tasks to the trash. Callers cancel their notifications first; the
+     * reminder dates are kept so a restore can schedule them again.
+     */
+    const deleteTodos = useCallback(async (ids: string[]): Promise<Todo[]> => {
+        const idSet = new Set(ids);
+        const deleted = todosRef.current.filter((t) => idSet.has(t.id) && !t.deletedAt);
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.map((t) =>
+                idSet.has(t.id) && !t.deletedAt
+                    ? {
+                        ...t,
+                        deletedAt: now,
+                        reminders: getReminders(t).map((r) => ({ ...r, notificationId: undefined })),
+                    }
+                    : t
+            )
+        );
+        return deleted;
+    }, [commit]);
+
+    /**
+     * Take tasks out of the trash and reschedule their future reminders
+     */
+    const restoreDeletedTodos = useCallback(async (ids: string[]) => {
+        const idSet = new Set(ids);
+        const restored = await Promise.all(
+            todosRef.current
+                .filter((t) => idSet.has(t.id) && t.deletedAt)
+                .map((t) => (t.archivedAt ? t : scheduleTodoReminders(t)))
+        );
+        const byId = new Map(restored.map((t) => [t.id, t]));
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.map((t) => {
+                const todo = byId.get(t.id);
+                return todo ? { ...todo, deletedAt: undefined, updatedAt: now } : t;
+            })
+        );
+    }, [commit]);
+
+    /**
+     * Permanently remove tasks
+     */
+    const purgeTodos = useCallback(async (ids: string[]) => {
+        const idSet = new Set(ids);
+        await commit((current) =>
+            current.some((t) => idSet.has(t.id)) ? current.filter((t) => !idSet.has(t.id)) : current
+        );
+    }, [commit]);
+
+    const emptyTrash = useCallback(async () => {
+        await commit((current) =>
+            current.some((t) => t.deletedAt) ? current.filter((t) => !t.deletedAt) : current
+        );
+    }, [commit]);
+
+    // Purge tasks that have been in the trash longer than the retention period
+    useEffect(() => {
+        if (isLoading || isSettingsLoading) return;
+        const cutoff = Date.now() - settings.trashRetentionDays * DAY_MS;
+        commit((current) =>
+            current.some((t) => t.deletedAt && new Date(t.deletedAt).getTime() < cutoff)
+                ? current.filter((t) => !t.deletedAt || new Date(t.deletedAt).getTime() >= cutoff)
+                : current
+        );
+    }, [isLoading, isSettingsLoading, settings.trashRetentionDays, commit]);
+
+    const moveTodos = useCallback(async (ids: string[], targetListId: string) => {
+        const idSet = new Set(ids);
+        const now = new Date().toISOString();
+        await commit((current) =>
+            current.map((t) => (idSet.has(t.id) ? { ...t, listId: targetListId, updatedAt: now } : t))
+        );
+    }, [commit]);
+
+    /**
+     * Replace every task outside the trash. Trashed tasks are kept unless
+     * the new collection brings the same task back.
+     */
+    const replaceTodos = useCallback(async (newTodos: Todo[]) => {
+        const now = new Date().toISOString();
+        const newIds = new Set(newTodos.map((t) => t.id));
+        await commit((current) => [
+            ...newTodos.map((t) => withTimestamps(t, now)),
+            ...current.filter((t) => t.deletedAt && !newIds.has(t.id)),
+        ]);
+    }, [commit]);
+
+    /**
+     * Write the fields other devices changed into the current tasks. `base`
+     * is what the tasks looked like when the sync started; fields edited here
+     * since then keep the local value. New tasks go to the top. Notifications
+     * of changed and deleted tasks are cancelled; reconcileReminders schedules
+     * the ones still needed. Returns the changes that were applied.
+     */
+    const applySyncedTodos = useCallback(async (merge: SyncMerge, base: Todo[]): Promise<SyncChange[]> => {
+        const baseById = new Map(base.map((t) => [t.id, t]));
+        const stale: string[] = [];
+        let applied: SyncChange[] = [];
+        await commit((current) => {
+            const result = applySyncMerge("todo", current, baseById, merge, (id): Todo => ({
+                id,
+                text: "",
+                completed: false,
+            }));
+            applied = result.applied;
+            if (applied.length === 0) return current;
+
+            const touched = new Set([...result.changedIds, ...merge.deletedIds]);
+            for (const todo of current) {
+                if (!touched.has(todo.id)) continue;
+                stale.push(...getReminders(todo).flatMap((r) =>
+                    r.notificationId ? [r.notificationId] : []
+                ));
+            }
+            const changed = new Set(result.changedIds);
+            return result.next.map((t) =>
+                changed.has(t.id) && t.reminders
+                    ? { ...t, reminders: t.reminders.map((r) => ({ ...r, notificationId: undefined })) }
+                    : t
+            );
+        }, true);
+        for (const id of stale) {
+            await cancelNotification(id);
+        }
+        return applied;
+    }, [commit]);
+
+    return (
+        <TodoStoreContext.Provider
+            value={{
+                todos: view.todos,
+                activeTodos: view.active,
+                archivedTodos: view.archived,
+                trashedTodos: view.trashed,
+                isLoading,
+                loadError,
+                reload: loadTodos,
+                getTodo,
+                addTodo,
+                updateTodo,
+                archiveTodo,
+                completeTodo,
+                snoozeReminder,
+                reconcileReminders,
+                replanTimeZone,
+                skipTodo,
+                restoreTodo,
+                deleteTodos,
+                restoreDeletedTodos,
+                purgeTodos,
+                emptyTrash,
+                moveTodos,
+                replaceTodos,
+                applySyncedTodos,
+            }}
+        >
+            {children}
+        </TodoStoreContext.Provider>
+    );
+}
+
+export function useTodoStore() {
+    const context = useContext(TodoStoreContext);
+    if (!context) {
+        throw new Error("useTodoStore must be used within a TodoStoreProvider");
+    }
+    return context;
+}
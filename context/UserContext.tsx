@@ -8,6 +8,7 @@ interface UserContextType {
     userId: string | null;
     isLoading: boolean;
     regenerateUserId: () => Promise<void>;
+    adoptUserId: (id: string) => Promise<void>;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -62,12 +63,22 @@ export function UserProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    /**
+     * Take over the ID of another device so both share one sync log
+     */
+    const adoptUserId = useCallback(async (id: string) => {
+        const normalized = id.trim().toUpperCase();
+        await AsyncStorage.setItem(USER_ID_STORAGE_KEY, normalized);
+        setUserId(normalized);
+    }, []);
+
     return (
         <UserContext.Provider
             value={{
                 userId,
                 isLoading,
                 regenerateUserId,
+                adoptUserId,
             }}
         >
             {children}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef } from "react";
+import * as Notifications from "expo-notifications";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import {
+    ReminderAction,
+    ReminderNotificationData,
+    getSnoozeDate,
+    registerReminderActionsAsync,
+} from "@/utils/notifications";
+
+const isReminderAction = (action: string): action is ReminderAction =>
+    action === "complete" || action === "snooze10" || action === "snoozeTomorrow";
+
+/**
+ * Handle the Complete and Snooze actions of task reminders. A response that
+ * launched the app is picked up once the tasks are loaded; later ones arrive
+ * through the listener.
+ */
+export function useReminderActions() {
+    const { isLoading, completeTodo, snoozeReminder } = useTodoStore();
+    const handledRef = useRef<Set<string>>(new Set());
+    const pendingRef = useRef<Notifications.NotificationResponse[]>([]);
+    const isLoadingRef = useRef(isLoading);
+
+    useEffect(() => {
+        registerReminderActionsAsync().catch((e) =>
+            console.error("Failed to register reminder actions:", e)
+        );
+    }, []);
+
+    const handleResponse = useCallback(async (response: Notifications.NotificationResponse) => {
+        const { identifier, content } = response.notification.request;
+        const data = content.data as Partial<ReminderNotificationData> | undefined;
+        const action = response.actionIdentifier;
+        if (data?.type !== "reminder" || !data.todoId || !data.reminderId || !isReminderAction(action)) {
+            return;
+        }
+
+        // The same response comes back from the listener and the last-response check
+        const key = `${identifier}:${action}`;
+        if (handledRef.current.has(key)) return;
+        handledRef.current.add(key);
+
+        try {
+            if (action === "complete") {
+                await completeTodo(data.todoId);
+            } else {
+                await snoozeReminder(data.todoId, data.reminderId, getSnoozeDate(action));
+            }
+            await Notifications.dismissNotificationAsync(identifier);
+            await Notifications.clearLastNotificationResponseAsync();
+        } catch (e) {
+            console.error("Failed to handle reminder action:", e);
+        }
+    }, [completeTodo, snoozeReminder]);
+
+    // Responses that come in before the tasks are loaded wait for them
+    const receive = useCallback((response: Notifications.NotificationResponse) => {
+        if (isLoadingRef.current) {
+            pendingRef.current.push(response);
+        } else {
+            handleResponse(response);
+        }
+    }, [handleResponse]);
+
+    useEffect(() => {
+        const subscription = Notifications.addNotificationResponseReceivedListener(receive);
+        return () => subscription.remove();
+    }, [receive]);
+
+    useEffect(() => {
+        isLoadingRef.current = isLoading;
+        if (isLoading) return;
+
+        const pending = pendingRef.current;
+        pendingRef.current = [];
+        (async () => {
+            const lastResponse = await Notifications.getLastNotificationResponseAsync();
+            for (const response of lastResponse ? [...pending, lastResponse] : pending) {
+                await handleResponse(response);
+            }
+        })();
+    }, [isLoading, handleResponse]);
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { Alert } from "react-native";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { formatReconcileReport } from "@/utils/notifications";
+
+/**
+ * Once the tasks are loaded, check their reminders against the notifications
+ * the OS still has scheduled, and say so when anything had to be fixed.
+ * A failed load skips it; it runs again once a reload succeeds.
+ */
+export function useReminderReconcile() {
+    const { isLoading, loadError, reconcileReminders } = useTodoStore();
+    const hasRunRef = useRef(false);
+
+    useEffect(() => {
+        if (loadError) {
+            hasRunRef.current = false;
+            return;
+        }
+        if (isLoading || hasRunRef.current) return;
+        hasRunRef.current = true;
+
+        reconcileReminders()
+            .then((report) => {
+                const summary = formatReconcileReport(report);
+                if (summary) {
+                    Alert.alert("Reminders Repaired", summary);
+                }
+            })
+            .catch((e) => console.error("Failed to reconcile reminders:", e));
+    }, [isLoading, loadError, reconcileReminders]);
+}
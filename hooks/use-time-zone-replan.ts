@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef } from "react";
+import { Alert, AppState } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { useTodoStore } from "@/context/TodoStoreContext";
+import { getDeviceTimeZone } from "@/utils/timezone";
+
+// The device time zone last seen, for tasks saved before they recorded their own
+const TIME_ZONE_STORAGE_KEY = "@neo_brutal_time_zone_v1";
+
+/**
+ * Keep floating tasks on the same local times after the device changes time
+ * zone, or when sync brings in tasks planned in another one. Runs once the
+ * tasks are loaded and whenever the app returns to the foreground.
+ */
+export function useTimeZoneReplan() {
+    const { isLoading, replanTimeZone } = useTodoStore();
+    const isReplanningRef = useRef(false);
+
+    const replan = useCallback(async () => {
+        if (isReplanningRef.current) return;
+        isReplanningRef.current = true;
+        try {
+            const timeZone = getDeviceTimeZone();
+            const lastZone = (await AsyncStorage.getItem(TIME_ZONE_STORAGE_KEY)) || timeZone;
+            const count = await replanTimeZone(timeZone, lastZone);
+            if (lastZone !== timeZone) {
+                await AsyncStorage.setItem(TIME_ZONE_STORAGE_KEY, timeZone);
+            }
+
+            if (count > 0) {
+                Alert.alert(
+                    "Time Zone Changed",
+                    `${count} ${count === 1 ? "task keeps its" : "tasks keep their"} local times in ${timeZone}. Tasks anchored to a time zone were left as they were.`
+                );
+            }
+        } catch (e) {
+            console.error("Failed to re-plan tasks for the time zone:", e);
+        } finally {
+            isReplanningRef.current = false;
+        }
+    }, [replanTimeZone]);
+
+    useEffect(() => {
+        if (isLoading) return;
+        replan();
+        const subscription = AppState.addEventListener("change", (state) => {
+            if (state === "active") replan();
+        });
+        return () => subscription.remove();
+    }, [isLoading, replan]);
+}
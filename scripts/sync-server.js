@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal self-hosted sync server for Brutaldo.
+ *
+ * Keeps one append-only change log per user in a JSON file. It stores and
+ * returns changes in order and nothing else; each device resolves conflicts
+ * itself. Put it behind HTTPS before exposing it beyond your own network.
+ *
+ * Every request must send the user's sync key as `Authorization: Bearer {key}`.
+ * A new user id is bound to the first key it is used with (stored as a SHA-256
+ * hash) and any other key is turned away with 403, so a user id alone grants
+ * no access.
+ *
+ *   PORT=8787 SYNC_DATA_FILE=./sync-data.json node ./scripts/sync-server.js
+ *
+ * Change logs kept from before sync keys have no key and answer 403 until
+ * their owner binds one, with the Sync Key shown in the app:
+ *
+ *   SYNC_DATA_FILE=./sync-data.json node ./scripts/sync-server.js claim {userId} {key}
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+const fs = require("fs");
+const path = require("path");
+
+const PORT = parseInt(process.env.PORT || "8787", 10);
+const DATA_FILE = path.resolve(process.env.SYNC_DATA_FILE || "sync-data.json");
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const KEY_PATTERN = /^[A-Za-z0-9]{16,128}$/;
+
+/**
+ * Users by id, without a prototype so ids such as "constructor" find nothing.
+ * Logs from before sync keys are bare arrays of changes.
+ * @type {Record<string, { keyHash: string, changes: object[] } | object[]>}
+ */
+const users = Object.create(null);
+if (fs.existsSync(DATA_FILE)) {
+    Object.assign(users, JSON.parse(fs.readFileSync(DATA_FILE, "utf8")));
+}
+
+function save() {
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(users));
+    fs.renameSync(tmp, DATA_FILE);
+}
+
+function hashKey(key) {
+    return crypto.createHash("sha256").update(key).digest();
+}
+
+/**
+ * Find the user the request's sync key opens, binding the key to a new user id.
+ * Returns an HTTP status instead when it opens nothing.
+ */
+function authorize(req, userId) {
+    const key = (req.headers.authorization || "").replace(/^Bearer /, "");
+    if (!KEY_PATTERN.test(key)) return 401;
+
+    const hash = hashKey(key);
+    if (!Object.hasOwn(users, userId)) {
+        users[userId] = { keyHash: hash.toString("hex"), changes: [] };
+        save();
+        return users[userId];
+    }
+
+    const user = users[userId];
+    if (Array.isArray(user)) return 403;
+    return crypto.timingSafeEqual(hash, Buffer.from(user.keyHash, "hex")) ? user : 403;
+}
+
+/**
+ * Bind a key to a change log kept from before sync keys
+ */
+function claim(userId, key) {
+    if (!userId || !KEY_PATTERN.test(key || "")) {
+        console.error("Usage: sync-server.js claim {userId} {key}");
+        process.exit(1);
+    }
+    if (!Object.hasOwn(users, userId) || !Array.isArray(users[userId])) {
+        console.error(`No change log without a sync key for ${userId}`);
+        process.exit(1);
+    }
+    users[userId] = { keyHash: hashKey(key).toString("hex"), changes: users[userId] };
+    save();
+    console.log(`Bound the sync key to ${userId}`);
+}
+
+function send(res, status, body) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+        req.on("data", (chunk) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error("Body too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        req.on("error", reject);
+    });
+}
+
+async function handle(req, res) {
+    const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+    const match = url.pathname.match(/^\/users\/([A-Za-z0-9]{1,64})\/changes\/?$/);
+    if (!match) {
+        send(res, 404, { error: "Not found" });
+        return;
+    }
+
+    const user = authorize(req, match[1]);
+    if (typeof user === "number") {
+        send(res, user, { error: user === 401 ? "Missing sync key" : "Wrong sync key" });
+        return;
+    }
+    const log = user.changes;
+
+    if (req.method === "GET") {
+        const since = Math.max(0, parseInt(url.searchParams.get("since") || "0", 10) || 0);
+        send(res, 200, { changes: log.slice(since), cursor: String(log.length) });
+        return;
+    }
+
+    if (req.method === "POST") {
+        try {
+            const body = JSON.parse(await readBody(req));
+            if (typeof body.deviceId !== "string" || !Array.isArray(body.changes)) {
+                send(res, 400, { error: "Expected { deviceId, changes }" });
+                return;
+            }
+            log.push(...body.changes.map((change) => ({ ...change, deviceId: body.deviceId })));
+            save();
+            send(res, 200, { cursor: String(log.length) });
+        } catch (e) {
+            send(res, 400, { error: e.message });
+        }
+        return;
+    }
+
+    send(res, 405, { error: "Method not allowed" });
+}
+
+if (process.argv[2] === "claim") {
+    claim(process.argv[3], process.argv[4]);
+} else {
+    const server = http.createServer(async (req, res) => {
+        try {
+            await handle(req, res);
+        } catch (e) {
+            console.error("Request failed:", e);
+            if (!res.headersSent) send(res, 500, { error: "Internal error" });
+        }
+    });
+
+    server.listen(PORT, () => {
+        console.log(`Sync server listening on port ${PORT}, storing changes in ${DATA_FILE}`);
+    });
+}
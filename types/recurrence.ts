@@ -1,11 +1,46 @@
-export type RecurrenceType = "once" | "daily" | "weekly" | "monthly";
+export type RecurrenceType = "once" | "daily" | "weekly" | "monthly" | "yearly";
+
+// Whether the next occurrence follows the schedule or counts from completion
+export type RepeatFrom = "schedule" | "completion";
+
+// What happens to an occurrence that lands on an excluded date
+export type ExclusionMode = "skip" | "shift";
+
+// How a finished occurrence of a series went
+export type OccurrenceOutcome = "onTime" | "late" | "skipped";
+
+// How an intra-day schedule picks its times: a fixed list, or every few hours in a window
+export type IntraDayMode = "times" | "interval";
+
+// Several occurrences on each day the rule picks
+export interface IntraDaySchedule {
+    mode: IntraDayMode;
+    times?: string[];       // "HH:MM" local times (mode "times")
+    everyHours?: number;    // Hours between occurrences (mode "interval")
+    from?: string;          // "HH:MM" first occurrence of the day (mode "interval")
+    until?: string;         // "HH:MM" none later than this (mode "interval")
+}
+
+// How a monthly or yearly rule picks its day
+export type MonthlyRule = "day" | "weekday" | "lastDay";
 
 export interface RecurrencePattern {
     type: RecurrenceType;
     interval?: number;      // Every N days/weeks/months (default 1)
     daysOfWeek?: number[];  // 0=Sunday, 1=Monday, ..., 6=Saturday (for weekly)
+    monthlyBy?: MonthlyRule; // Monthly/yearly: fixed day (default), Nth weekday or last day
+    dayOfMonth?: number;    // 1-31, clamped to the last day of shorter months
+    weekOfMonth?: number;   // 1-4, or -1 for the last one (with monthlyBy "weekday")
+    weekday?: number;       // 0=Sunday ... 6=Saturday (with monthlyBy "weekday")
+    month?: number;         // 0=January ... 11=December (for yearly)
+    repeatFrom?: RepeatFrom; // Count the next date from the due date (default) or the completion
+    intraDay?: IntraDaySchedule; // Times of day; without it each occurrence is due by the end of its day
+    exceptionDates?: string[]; // Local dates (YYYY-MM-DD) the series must not land on
+    skipHolidays?: boolean; // Also avoid the dates in the holiday list
+    onExcluded?: ExclusionMode; // Drop excluded occurrences (default) or move them to the next working day
     startDate?: string;     // Optional start date for the recurrence
     endDate?: string;       // Optional end date for the recurrence
+    occurrences?: number;   // Optional total number of occurrences (counts Todo.recurrenceCount)
 }
 
 export const RECURRENCE_OPTIONS: {
@@ -19,6 +54,23 @@ export const RECURRENCE_OPTIONS: {
     { type: "daily", label: "Every day", shortLabel: "DAILY", icon: "sunny-sharp" },
     { type: "weekly", label: "Every week", shortLabel: "WEEKLY", icon: "calendar-sharp", showDayPicker: true },
     { type: "monthly", label: "Every month", shortLabel: "MONTHLY", icon: "moon-sharp" },
+    { type: "yearly", label: "Every year", shortLabel: "YEARLY", icon: "planet-sharp" },
+];
+
+export const WEEK_OF_MONTH_OPTIONS: {
+    value: number;
+    label: string;
+}[] = [
+    { value: 1, label: "1st" },
+    { value: 2, label: "2nd" },
+    { value: 3, label: "3rd" },
+    { value: 4, label: "4th" },
+    { value: -1, label: "Last" },
+];
+
+export const MONTHS: string[] = [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December",
 ];
 
 export const DAYS_OF_WEEK: {
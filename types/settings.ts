@@ -5,8 +5,16 @@ export interface PomodoroSettings {
     sessionsBeforeLongBreak: number;
 }
 
+export interface Holiday {
+    id: string;
+    name: string;
+    date: string; // MM-DD repeats every year, YYYY-MM-DD is a single day
+}
+
 export interface AppSettings {
     pomodoro: PomodoroSettings;
+    trashRetentionDays: number; // Deleted tasks are purged after this many days
+    holidays: Holiday[]; // Dates recurring tasks can be set to avoid
 }
 
 export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
@@ -16,10 +24,24 @@ export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
     sessionsBeforeLongBreak: 4,
 };
 
+// Bundled starting list of widely observed fixed-date holidays; users edit it to match their calendar
+export const DEFAULT_HOLIDAYS: Holiday[] = [
+    { id: "new-years-day", name: "New Year's Day", date: "01-01" },
+    { id: "labour-day", name: "Labour Day", date: "05-01" },
+    { id: "christmas-eve", name: "Christmas Eve", date: "12-24" },
+    { id: "christmas-day", name: "Christmas Day", date: "12-25" },
+    { id: "boxing-day", name: "Boxing Day", date: "12-26" },
+    { id: "new-years-eve", name: "New Year's Eve", date: "12-31" },
+];
+
 export const DEFAULT_SETTINGS: AppSettings = {
     pomodoro: DEFAULT_POMODORO_SETTINGS,
+    trashRetentionDays: 30,
+    holidays: DEFAULT_HOLIDAYS,
 };
 
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
 export const POMODORO_LIMITS = {
     workDuration: { min: 1, max: 90, step: 1 },
     shortBreakDuration: { min: 1, max: 30, step: 1 },
@@ -42,7 +42,7 @@ export const PREMIUM_FEATURES = [
     {
         icon: "repeat-sharp" as const,
         title: "Advanced Recurrence",
-        description: "Set custom intervals for daily, weekly, and monthly repeating tasks",
+        description: "Set custom intervals for daily, weekly, monthly and yearly repeating tasks",
     },
     {
         icon: "timer-sharp" as const,
@@ -53,7 +53,7 @@ export const PREMIUM_FEATURES = [
 
 export const FREE_TIER_LIMITS = {
     maxRemindersPerTask: 1,
-    allowedRecurrenceTypes: ["once", "daily", "weekly", "monthly"] as const,
+    allowedRecurrenceTypes: ["once", "daily", "weekly", "monthly", "yearly"] as const,
     pomodoroDefaults: {
         workDuration: 25,
         shortBreakDuration: 5,
@@ -0,0 +1,34 @@
+export type SyncEntity = "todo" | "list";
+
+/**
+ * One field of one todo or list as set on some device. A deleted entity is
+ * a change to the `_deleted` field.
+ */
+export interface SyncChange {
+    entity: SyncEntity;
+    id: string;
+    field: string;
+    value: unknown;
+    changedAt: string;
+    deviceId: string;
+}
+
+export const DELETED_FIELD = "_deleted";
+
+export interface SyncConfig {
+    enabled: boolean;
+    endpoint: string;
+    deviceId: string;
+    syncKey: string;            // Shared by the user's devices; the server turns away any other
+    cursor: string | null;      // Server position of the last change pulled
+    lastSyncedAt?: string;
+}
+
+export type SyncState = "off" | "idle" | "syncing" | "error";
+
+export interface SyncStatus {
+    state: SyncState;
+    lastSyncedAt?: string;
+    error?: string;
+    pendingChanges: number;
+}
@@ -12,17 +12,20 @@ export interface Reminder {
     id: string;
     date: string;
     notificationId?: string;
+    offsetMinutes?: number; // Minutes before the due date; `date` follows the due date when set
 }
 
+// Floating times keep their local time wherever the device goes; anchored ones stay fixed in their time zone
+export type TimeMode = "floating" | "anchored";
+
+// The series' own values, kept on an occurrence that was edited as a one-off
+export type SeriesTemplate = Partial<Pick<Todo, "text" | "dueDate" | "reminders" | "recurrence" | "subtasks" | "priority">>;
+
 export interface Todo {
     id: string;
     text: string;
     completed: boolean;
     colorVariant?: number;
-    // Legacy single reminder fields (for migration)
-    reminderDate?: string;
-    notificationId?: string;
-    // New multiple reminders
     reminders?: Reminder[];
     dueDate?: string;
     listId?: string;
@@ -31,11 +34,31 @@ export interface Todo {
     isRecurring?: boolean;
     parentRecurrenceId?: string;
     recurrenceCount?: number;
+    skippedCount?: number;  // Earlier occurrences of the series that were skipped; they don't count as done
+    occurrenceDate?: string; // The date the series scheduled this occurrence for, once moved
+    skippedAt?: string;     // Archived as a skipped occurrence rather than done
+    seriesTemplate?: SeriesTemplate; // What the next occurrence copies instead of this one's edits
+    timeMode?: TimeMode;    // Floating when unset
+    timeZone?: string;      // IANA zone the due date and reminders were planned in
     subtasks?: Subtask[];
     priority?: Priority;
+    createdAt?: string;
+    updatedAt?: string;     // Any change to the task or its subtasks
+    completedAt?: string;   // Cleared again when the task is restored
+    deletedAt?: string;     // Set while the task sits in the trash
 }
 
-export type SortType = "DEFAULT" | "ALPHA_ASC" | "ALPHA_DESC" | "DUE_ASC" | "DUE_DESC" | "PRIORITY_ASC" | "PRIORITY_DESC";
+export type SortType =
+    | "DEFAULT"
+    | "ALPHA_ASC"
+    | "ALPHA_DESC"
+    | "DUE_ASC"
+    | "DUE_DESC"
+    | "PRIORITY_ASC"
+    | "PRIORITY_DESC"
+    | "CREATED_DESC"
+    | "CREATED_ASC"
+    | "UPDATED_DESC";
 
 export interface SortOption {
     value: SortType;
@@ -43,6 +66,17 @@ export interface SortOption {
     icon: string;
 }
 
+// Reminders that follow the due date
+export const RELATIVE_REMINDER_OPTIONS: {
+    offsetMinutes: number;
+    label: string;
+}[] = [
+    { offsetMinutes: 0, label: "At Due" },
+    { offsetMinutes: 30, label: "30 Min" },
+    { offsetMinutes: 60, label: "1 Hour" },
+    { offsetMinutes: 24 * 60, label: "1 Day" },
+];
+
 export const PRIORITY_OPTIONS: {
     value: Priority;
     label: string;
@@ -109,22 +143,10 @@ export const getPriorityOption = (priority?: Priority) => {
 };
 
 /**
- * Get all reminders from a task, including migration from legacy format
+ * Get all reminders from a task
  */
 export const getReminders = (todo: Todo): Reminder[] => {
-    // If new reminders array exists, use it
-    if (todo.reminders && todo.reminders.length > 0) {
-        return todo.reminders;
-    }
-    // Migrate from legacy single reminder
-    if (todo.reminderDate) {
-        return [{
-            id: `legacy-${todo.id}`,
-            date: todo.reminderDate,
-            notificationId: todo.notificationId,
-        }];
-    }
-    return [];
+    return todo.reminders || [];
 };
 
 /**
@@ -132,4 +154,20 @@ export const getReminders = (todo: Todo): Reminder[] => {
  */
 export const hasReminders = (todo: Todo): boolean => {
     return getReminders(todo).length > 0;
-};
\ No newline at end of file
+};
+/**
+ * Creation time in ms. Tasks created before timestamps existed fall back to
+ * their Date.now() id.
+ */
+export const getCreatedTime = (todo: Todo): number => {
+    if (todo.createdAt) return new Date(todo.createdAt).getTime();
+    const fromId = parseInt(todo.id, 10);
+    return Number.isNaN(fromId) ? 0 : fromId;
+};
+
+/**
+ * Last modification time in ms, falling back to creation time
+ */
+export const getUpdatedTime = (todo: Todo): number => {
+    return todo.updatedAt ? new Date(todo.updatedAt).getTime() : getCreatedTime(todo);
+};
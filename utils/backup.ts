@@ -0,0 +1,179 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import * as DocumentPicker from "expo-document-picker";
+import { SortType, Todo } from "@/types/todo";
+import { TodoList } from "@/types/todoList";
+import { AppSettings } from "@/types/settings";
+import { isAppSettings, isObject, isTodoArray, isTodoListArray } from "@/utils/persistence";
+import { CURRENT_SCHEMA_VERSION, StoredData, migrateStoredData } from "@/utils/migrations";
+
+const SORT_STORAGE_KEY = "@neo_brutal_sort_v1";
+const BACKUP_FORMAT = "brutaldo-backup";
+const BACKUP_VERSION = 1;
+
+export type ImportMode = "replace" | "merge";
+
+export interface BackupData {
+    todos: Todo[];
+    lists: TodoList[];
+    settings: AppSettings | null;
+    sort: SortType | null;
+}
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    schemaVersion: number;
+    exportedAt: string;
+    data: BackupData;
+}
+
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BackupError";
+    }
+}
+
+/**
+ * Wrap the current app data in a backup envelope
+ */
+export function createBackup(data: BackupData): BackupFile {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        data,
+    };
+}
+
+/**
+ * Parse and validate the contents of a backup file.
+ * Throws a BackupError describing the first problem found.
+ */
+export function parseBackup(contents: string): BackupFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(contents);
+    } catch {
+        throw new BackupError("This file is not valid JSON.");
+    }
+
+    if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || !isObject(parsed.data)) {
+        throw new BackupError("This file is not a BrutalDo backup.");
+    }
+    if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+        throw new BackupError("This backup was made by a newer version of the app. Please update first.");
+    }
+    const schemaVersion = typeof parsed.schemaVersion === "number" ? parsed.schemaVersion : CURRENT_SCHEMA_VERSION;
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+        throw new BackupError("This backup uses a newer data format. Please update the app first.");
+    }
+
+    const { todos, lists, settings, sort } = parsed.data;
+    if (!isTodoArray(todos)) {
+        throw new BackupError("The tasks in this backup are damaged.");
+    }
+    if (!isTodoListArray(lists)) {
+        throw new BackupError("The projects in this backup are damaged.");
+    }
+    if (settings !== null && settings !== undefined && !isAppSettings(settings)) {
+        throw new BackupError("The settings in this backup are damaged.");
+    }
+
+    // Older backups go through the same migrations stored data did, legacy fields included
+    const migrated = migrateStoredData({ todos: todos as StoredData["todos"], lists }, schemaVersion);
+
+    return {
+        format: BACKUP_FORMAT,
+        version: parsed.version,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+        data: {
+            todos: migrated.todos,
+            lists: migrated.lists,
+            settings: settings ?? null,
+            sort: typeof sort === "string" ? (sort as SortType) : null,
+        },
+    };
+}
+
+/**
+ * Merge two collections by id. Items already present locally win.
+ */
+export function mergeById<T extends { id: string }>(local: T[], incoming: T[]): { merged: T[]; added: T[] } {
+    const localIds = new Set(local.map((item) => item.id));
+    const added = incoming.filter((item) => !localIds.has(item.id));
+    return { merged: [...local, ...added], added };
+}
+
+/**
+ * Write text to a file in the cache directory and open the share sheet for it
+ */
+export async function shareTextFile(
+    fileName: string,
+    contents: string,
+    options: { mimeType: string; UTI: string; dialogTitle: string }
+): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new BackupError("Sharing is not available on this device.");
+    }
+
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) {
+        file.delete();
+    }
+    file.create();
+    file.write(contents);
+
+    await Sharing.shareAsync(file.uri, options);
+}
+
+/**
+ * Write the backup to a file and open the share sheet for it
+ */
+export async function shareBackup(backup: BackupFile): Promise<void> {
+    const date = backup.exportedAt.slice(0, 10);
+    await shareTextFile(`brutaldo-backup-${date}.json`, JSON.stringify(backup, null, 2), {
+        mimeType: "application/json",
+        dialogTitle: "Export BrutalDo Backup",
+        UTI: "public.json",
+    });
+}
+
+export interface PickedFile {
+    name: string;
+    text: string;
+}
+
+/**
+ * Let the user pick a file and return its name and text, or null if they cancelled
+ */
+export async function pickTextFile(types: string[] = ["application/json", "text/plain"]): Promise<PickedFile | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+        type: types,
+        copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) {
+        return null;
+    }
+    const asset = result.assets[0];
+    return { name: asset.name, text: await new File(asset.uri).text() };
+}
+
+/**
+ * Read the stored sort preference for inclusion in a backup
+ */
+export async function loadSortPreference(): Promise<SortType | null> {
+    const stored = await AsyncStorage.getItem(SORT_STORAGE_KEY);
+    return stored ? (stored as SortType) : null;
+}
+
+/**
+ * Write a sort preference restored from a backup
+ */
+export async function saveSortPreference(sort: SortType): Promise<void> {
+    await AsyncStorage.setItem(SORT_STORAGE_KEY, sort);
+}
@@ -0,0 +1,68 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes)
+ * into an array of rows. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            if (row.some((f) => f !== "")) rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    row.push(field);
+    if (row.some((f) => f !== "")) rows.push(row);
+
+    return rows;
+}
+
+/**
+ * Turn parsed CSV rows into records keyed by the header row.
+ * `headerIndex` skips preamble lines some exporters put before the header.
+ */
+export function csvToRecords(rows: string[][], headerIndex: number = 0): Record<string, string>[] {
+    const header = rows[headerIndex];
+    if (!header) return [];
+
+    return rows.slice(headerIndex + 1).map((row) => {
+        const record: Record<string, string> = {};
+        header.forEach((name, i) => {
+            record[name.trim()] = (row[i] ?? "").trim();
+        });
+        return record;
+    });
+}
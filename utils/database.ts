@@ -0,0 +1,604 @@
+import * as SQLite from "expo-sqlite";
+import { Reminder, Subtask, Todo } from "@/types/todo";
+import { TodoList } from "@/types/todoList";
+import { SyncChange, SyncEntity } from "@/types/sync";
+
+const DATABASE_NAME = "brutaldo.db";
+
+/**
+ * Ordered table definitions. Each entry runs once and bumps PRAGMA user_version
+ * to its 1-based position. Never edit a shipped entry — append a new one instead.
+ */
+const DATABASE_MIGRATIONS: string[] = [
+    `
+    CREATE TABLE IF NOT EXISTS todos (
+        id TEXT PRIMARY KEY NOT NULL,
+        list_id TEXT,
+        text TEXT NOT NULL,
+        completed INTEGER NOT NULL DEFAULT 0,
+        color_variant INTEGER,
+        due_date TEXT,
+        archived_at TEXT,
+        priority TEXT,
+        recurrence TEXT,
+        is_recurring INTEGER,
+        parent_recurrence_id TEXT,
+        recurrence_count INTEGER,
+        position REAL NOT NULL DEFAULT 0,
+        extra TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_todos_list_id ON todos (list_id);
+    CREATE INDEX IF NOT EXISTS idx_todos_archived_at ON todos (archived_at);
+    CREATE INDEX IF NOT EXISTS idx_todos_due_date ON todos (due_date);
+
+    CREATE TABLE IF NOT EXISTS subtasks (
+        id TEXT NOT NULL,
+        todo_id TEXT NOT NULL REFERENCES todos (id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        completed INTEGER NOT NULL DEFAULT 0,
+        position INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_subtasks_todo_id ON subtasks (todo_id);
+
+    CREATE TABLE IF NOT EXISTS reminders (
+        id TEXT NOT NULL,
+        todo_id TEXT NOT NULL REFERENCES todos (id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        notification_id TEXT,
+        position INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_reminders_todo_id ON reminders (todo_id);
+
+    CREATE TABLE IF NOT EXISTS lists (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        color_variant INTEGER,
+        created_at TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0
+    );
+    `,
+    `
+    ALTER TABLE todos ADD COLUMN deleted_at TEXT;
+    CREATE INDEX IF NOT EXISTS idx_todos_state ON todos (deleted_at, archived_at, position);
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS sync_changes (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        value TEXT,
+        changed_at TEXT NOT NULL,
+        device_id TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_field_versions (
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        changed_at TEXT NOT NULL,
+        device_id TEXT NOT NULL,
+        PRIMARY KEY (entity, entity_id, field)
+    );
+    `,
+    `
+    ALTER TABLE reminders ADD COLUMN offset_minutes INTEGER;
+    `,
+];
+
+interface TodoRow {
+    id: string;
+    list_id: string | null;
+    text: string;
+    completed: number;
+    color_variant: number | null;
+    due_date: string | null;
+    archived_at: string | null;
+    deleted_at: string | null;
+    priority: string | null;
+    recurrence: string | null;
+    is_recurring: number | null;
+    parent_recurrence_id: string | null;
+    recurrence_count: number | null;
+    position: number;
+    extra: string | null;
+}
+
+interface SubtaskRow {
+    id: string;
+    todo_id: string;
+    text: string;
+    completed: number;
+}
+
+interface ReminderRow {
+    id: string;
+    todo_id: string;
+    date: string;
+    notification_id: string | null;
+    offset_minutes: number | null;
+}
+
+interface SyncChangeRow {
+    seq: number;
+    entity: SyncEntity;
+    entity_id: string;
+    field: string;
+    value: string | null;
+    changed_at: string;
+    device_id: string;
+}
+
+interface ListRow {
+    id: string;
+    name: string;
+    color_variant: number | null;
+    created_at: string;
+}
+
+// Todo fields with their own column; anything else is kept in `extra`
+const TODO_COLUMN_FIELDS = new Set([
+    "id", "listId", "text", "completed", "colorVariant", "dueDate", "archivedAt", "deletedAt", "priority",
+    "recurrence", "isRecurring", "parentRecurrenceId", "recurrenceCount", "subtasks", "reminders",
+]);
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Open the database once and bring its tables up to date
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!databasePromise) {
+        databasePromise = (async () => {
+            const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+            await db.execAsync("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+
+            const row = await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+            const version = row?.user_version ?? 0;
+            for (let i = version; i < DATABASE_MIGRATIONS.length; i++) {
+                await db.withExclusiveTransactionAsync(async (txn) => {
+                    await txn.execAsync(DATABASE_MIGRATIONS[i]);
+                    await txn.execAsync(`PRAGMA user_version = ${i + 1}`);
+                });
+            }
+            return db;
+        })().catch((e) => {
+            // Let the next call try again instead of caching the failure
+            databasePromise = null;
+            throw e;
+        });
+    }
+    return databasePromise;
+}
+
+const toBool = (value: number | null) => value === 1;
+const fromBool = (value: boolean | undefined) => (value ? 1 : 0);
+
+function rowToTodo(row: TodoRow, subtasks: Subtask[] | undefined, reminders: Reminder[] | undefined): Todo {
+    const todo: Todo = {
+        ...(row.extra ? JSON.parse(row.extra) : {}),
+        id: row.id,
+        text: row.text,
+        completed: toBool(row.completed),
+    };
+    if (row.list_id !== null) todo.listId = row.list_id;
+    if (row.color_variant !== null) todo.colorVariant = row.color_variant;
+    if (row.due_date !== null) todo.dueDate = row.due_date;
+    if (row.archived_at !== null) todo.archivedAt = row.archived_at;
+    if (row.deleted_at !== null) todo.deletedAt = row.deleted_at;
+    if (row.priority !== null) todo.priority = row.priority as Todo["priority"];
+    if (row.recurrence !== null) todo.recurrence = JSON.parse(row.recurrence);
+    if (row.is_recurring !== null) todo.isRecurring = toBool(row.is_recurring);
+    if (row.parent_recurrence_id !== null) todo.parentRecurrenceId = row.parent_recurrence_id;
+    if (row.recurrence_count !== null) todo.recurrenceCount = row.recurrence_count;
+    if (subtasks) todo.subtasks = subtasks;
+    if (reminders) todo.reminders = reminders;
+    return todo;
+}
+
+function todoToParams(todo: Todo, position: number): SQLite.SQLiteBindValue[] {
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(todo)) {
+        if (!TODO_COLUMN_FIELDS.has(key) && value !== undefined) {
+            extra[key] = value;
+        }
+    }
+
+    return [
+        todo.id,
+        todo.listId ?? null,
+        todo.text,
+        fromBool(todo.completed),
+        todo.colorVariant ?? null,
+        todo.dueDate ?? null,
+        todo.archivedAt ?? null,
+        todo.deletedAt ?? null,
+        todo.priority ?? null,
+        todo.recurrence ? JSON.stringify(todo.recurrence) : null,
+        todo.isRecurring === undefined ? null : fromBool(todo.isRecurring),
+        todo.parentRecurrenceId ?? null,
+        todo.recurrenceCount ?? null,
+        position,
+        Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+    ];
+}
+
+/**
+ * Read the todos a WHERE clause picks, with subtasks and reminders, in stored order
+ */
+async function queryTodos(
+    db: SQLite.SQLiteDatabase,
+    where: string,
+    positions?: Map<string, number>
+): Promise<Todo[]> {
+    const children = where ? `WHERE todo_id IN (SELECT id FROM todos ${where})` : "";
+    const [rows, subtaskRows, reminderRows] = await Promise.all([
+        db.getAllAsync<TodoRow>(`SELECT * FROM todos ${where} ORDER BY position`),
+        db.getAllAsync<SubtaskRow>(`SELECT * FROM subtasks ${children} ORDER BY todo_id, position`),
+        db.getAllAsync<ReminderRow>(`SELECT * FROM reminders ${children} ORDER BY todo_id, position`),
+    ]);
+
+    const subtasks = new Map<string, Subtask[]>();
+    for (const row of subtaskRows) {
+        const list = subtasks.get(row.todo_id) || [];
+        list.push({ id: row.id, text: row.text, completed: toBool(row.completed) });
+        subtasks.set(row.todo_id, list);
+    }
+
+    const reminders = new Map<string, Reminder[]>();
+    for (const row of reminderRows) {
+        const list = reminders.get(row.todo_id) || [];
+        const reminder: Reminder = { id: row.id, date: row.date };
+        if (row.notification_id !== null) reminder.notificationId = row.notification_id;
+        if (row.offset_minutes !== null) reminder.offsetMinutes = row.offset_minutes;
+        list.push(reminder);
+        reminders.set(row.todo_id, list);
+    }
+
+    return rows.map((row) => {
+        positions?.set(row.id, row.position);
+        return rowToTodo(row, subtasks.get(row.id), reminders.get(row.id));
+    });
+}
+
+/**
+ * Read every todo, with subtasks and reminders, in stored order.
+ * Pass `positions` to receive each todo's stored position for planTodoWrite.
+ */
+export async function loadAllTodos(positions?: Map<string, number>): Promise<Todo[]> {
+    const db = await getDatabase();
+    positions?.clear();
+    return queryTodos(db, "", positions);
+}
+
+export interface TodoSets {
+    active: Todo[];
+    archived: Todo[];
+    trashed: Todo[];
+}
+
+// The rows of each set, picked through idx_todos_state
+const TODO_SET_FILTERS: Record<keyof TodoSets, string> = {
+    active: "WHERE deleted_at IS NULL AND archived_at IS NULL",
+    archived: "WHERE deleted_at IS NULL AND archived_at IS NOT NULL",
+    trashed: "WHERE deleted_at IS NOT NULL",
+};
+
+/**
+ * Read active, archived and trashed todos as separate sets, each in stored order.
+ * Pass `positions` to receive each todo's stored position for planTodoWrite.
+ */
+export async function loadTodoSets(positions?: Map<string, number>): Promise<TodoSets> {
+    const db = await getDatabase();
+    positions?.clear();
+    const [active, archived, trashed] = await Promise.all([
+        queryTodos(db, TODO_SET_FILTERS.active, positions),
+        queryTodos(db, TODO_SET_FILTERS.archived, positions),
+        queryTodos(db, TODO_SET_FILTERS.trashed, positions),
+    ]);
+    return { active, archived, trashed };
+}
+
+export interface TodoWrite {
+    upserts: { todo: Todo; position: number }[];
+    deletedIds: string[];
+}
+
+/**
+ * Work out which rows a change from `prev` to `next` touches. Unchanged todos
+ * (same object) keep their row. New todos at the front or back get positions
+ * outside the current range so nothing else has to be renumbered.
+ */
+export function planTodoWrite(prev: Todo[], next: Todo[], positions: Map<string, number>): TodoWrite {
+    const prevById = new Map(prev.map((t) => [t.id, t]));
+    const nextIds = new Set(next.map((t) => t.id));
+    const deletedIds = prev.filter((t) => !nextIds.has(t.id)).map((t) => t.id);
+
+    // Surviving todos must keep their relative order, with new ones only at the ends
+    const knownIndexes = next.flatMap((t, index) => (positions.has(t.id) ? [index] : []));
+    const firstKnown = knownIndexes.length > 0 ? knownIndexes[0] : next.length;
+    const lastKnown = knownIndexes.length > 0 ? knownIndexes[knownIndexes.length - 1] : -1;
+    let inOrder = knownIndexes.length === 0 || lastKnown - firstKnown + 1 === knownIndexes.length;
+    for (let k = 1; inOrder && k < knownIndexes.length; k++) {
+        inOrder = positions.get(next[knownIndexes[k]].id)! > positions.get(next[knownIndexes[k - 1]].id)!;
+    }
+
+    const upserts: { todo: Todo; position: number }[] = [];
+    if (!inOrder) {
+        next.forEach((todo, index) => {
+            positions.set(todo.id, index);
+            upserts.push({ todo, position: index });
+        });
+    } else {
+        const known = next.filter((t) => positions.has(t.id)).map((t) => positions.get(t.id)!);
+        let low = known.length > 0 ? Math.min(...known) : 0;
+        let high = known.length > 0 ? Math.max(...known) : -1;
+
+        // New todos before the first known one count down from the lowest position
+        for (let i = firstKnown - 1; i >= 0; i--) {
+            positions.set(next[i].id, --low);
+        }
+        next.forEach((todo) => {
+            if (!positions.has(todo.id)) {
+                positions.set(todo.id, ++high);
+            }
+            if (prevById.get(todo.id) !== todo) {
+                upserts.push({ todo, position: positions.get(todo.id)! });
+            }
+        });
+    }
+
+    for (const id of deletedIds) {
+        positions.delete(id);
+    }
+    return { upserts, deletedIds };
+}
+
+async function applyTodoWrite(txn: SQLite.SQLiteDatabase, { upserts, deletedIds }: TodoWrite): Promise<void> {
+    const upsertTodo = await txn.prepareAsync(`
+        INSERT INTO todos (id, list_id, text, completed, color_variant, due_date, archived_at, deleted_at,
+            priority, recurrence, is_recurring, parent_recurrence_id, recurrence_count, position, extra)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+            list_id = excluded.list_id, text = excluded.text, completed = excluded.completed,
+            color_variant = excluded.color_variant, due_date = excluded.due_date,
+            archived_at = excluded.archived_at, deleted_at = excluded.deleted_at, priority = excluded.priority,
+            recurrence = excluded.recurrence, is_recurring = excluded.is_recurring,
+            parent_recurrence_id = excluded.parent_recurrence_id,
+            recurrence_count = excluded.recurrence_count, position = excluded.position,
+            extra = excluded.extra
+    `);
+    const clearSubtasks = await txn.prepareAsync("DELETE FROM subtasks WHERE todo_id = ?");
+    const clearReminders = await txn.prepareAsync("DELETE FROM reminders WHERE todo_id = ?");
+    const insertSubtask = await txn.prepareAsync(
+        "INSERT INTO subtasks (id, todo_id, text, completed, position) VALUES (?, ?, ?, ?, ?)"
+    );
+    const insertReminder = await txn.prepareAsync(
+        "INSERT INTO reminders (id, todo_id, date, notification_id, offset_minutes, position) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    const deleteTodo = await txn.prepareAsync("DELETE FROM todos WHERE id = ?");
+
+    try {
+        for (const id of deletedIds) {
+            await deleteTodo.executeAsync([id]);
+        }
+        for (const { todo, position } of upserts) {
+            await upsertTodo.executeAsync(todoToParams(todo, position));
+            await clearSubtasks.executeAsync([todo.id]);
+            await clearReminders.executeAsync([todo.id]);
+            for (const [index, subtask] of (todo.subtasks || []).entries()) {
+                await insertSubtask.executeAsync([
+                    subtask.id, todo.id, subtask.text, fromBool(subtask.completed), index,
+                ]);
+            }
+            for (const [index, reminder] of (todo.reminders || []).entries()) {
+                await insertReminder.executeAsync([
+                    reminder.id, todo.id, reminder.date, reminder.notificationId ?? null,
+                    reminder.offsetMinutes ?? null, index,
+                ]);
+            }
+        }
+    } finally {
+        await Promise.all([
+            upsertTodo.finalizeAsync(),
+            clearSubtasks.finalizeAsync(),
+            clearReminders.finalizeAsync(),
+            insertSubtask.finalizeAsync(),
+            insertReminder.finalizeAsync(),
+            deleteTodo.finalizeAsync(),
+        ]);
+    }
+}
+
+/**
+ * Apply a planned write in one transaction
+ */
+export async function writeTodos(write: TodoWrite): Promise<void> {
+    if (write.upserts.length === 0 && write.deletedIds.length === 0) return;
+
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync((txn) => applyTodoWrite(txn, write));
+}
+
+/**
+ * Replace every stored todo. Used by restores and schema migrations.
+ */
+export async function replaceAllTodos(todos: Todo[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.execAsync("DELETE FROM todos");
+        await applyTodoWrite(txn, {
+            upserts: todos.map((todo, index) => ({ todo, position: index })),
+            deletedIds: [],
+        });
+    });
+}
+
+/**
+ * Insert todos whose id is not stored yet, after the existing ones
+ */
+export async function insertMissingTodos(todos: Todo[]): Promise<number> {
+    const stored = await loadAllTodos();
+    const storedIds = new Set(stored.map((t) => t.id));
+    const missing = todos.filter((t) => !storedIds.has(t.id));
+    await writeTodos({
+        upserts: missing.map((todo, index) => ({ todo, position: stored.length + index })),
+        deletedIds: [],
+    });
+    return missing.length;
+}
+
+/**
+ * Read every list in stored order
+ */
+export async function loadAllLists(): Promise<TodoList[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<ListRow>("SELECT * FROM lists ORDER BY position");
+    return rows.map((row) => {
+        const list: TodoList = { id: row.id, name: row.name, createdAt: row.created_at };
+        if (row.color_variant !== null) list.colorVariant = row.color_variant;
+        return list;
+    });
+}
+
+/**
+ * Replace every stored list. Lists are few, so they are always written together.
+ */
+export async function replaceAllLists(lists: TodoList[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync("DELETE FROM lists");
+        for (const [index, list] of lists.entries()) {
+            await txn.runAsync(
+                "INSERT INTO lists (id, name, color_variant, created_at, position) VALUES (?, ?, ?, ?, ?)",
+                [list.id, list.name, list.colorVariant ?? null, list.createdAt, index]
+            );
+        }
+    });
+}
+
+async function upsertSyncFieldVersions(txn: SQLite.SQLiteDatabase, changes: SyncChange[]): Promise<void> {
+    for (const change of changes) {
+        await txn.runAsync(
+            `INSERT INTO sync_field_versions (entity, entity_id, field, changed_at, device_id)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (entity, entity_id, field) DO UPDATE SET
+                changed_at = excluded.changed_at, device_id = excluded.device_id
+            WHERE (excluded.changed_at, excluded.device_id) > (changed_at, device_id)`,
+            [change.entity, change.id, change.field, change.changedAt, change.deviceId]
+        );
+    }
+}
+
+/**
+ * Queue local changes for the next push and mark them as the latest version of their field
+ */
+export async function appendSyncChanges(changes: SyncChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const change of changes) {
+            await txn.runAsync(
+                `INSERT INTO sync_changes (entity, entity_id, field, value, changed_at, device_id)
+                VALUES (?, ?, ?, ?, ?, ?)`,
+                [
+                    change.entity,
+                    change.id,
+                    change.field,
+                    change.value === undefined ? null : JSON.stringify(change.value),
+                    change.changedAt,
+                    change.deviceId,
+                ]
+            );
+        }
+        await upsertSyncFieldVersions(txn, changes);
+    });
+}
+
+/**
+ * Local changes not pushed yet, oldest first. `lastSeq` is passed to
+ * deleteSyncChanges once the server has them.
+ */
+export async function loadPendingSyncChanges(): Promise<{ changes: SyncChange[]; lastSeq: number }> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<SyncChangeRow>("SELECT * FROM sync_changes ORDER BY seq");
+    return {
+        changes: rows.map((row) => ({
+            entity: row.entity,
+            id: row.entity_id,
+            field: row.field,
+            value: row.value === null ? undefined : JSON.parse(row.value),
+            changedAt: row.changed_at,
+            deviceId: row.device_id,
+        })),
+        lastSeq: rows.length > 0 ? rows[rows.length - 1].seq : 0,
+    };
+}
+
+export async function countPendingSyncChanges(): Promise<number> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ count: number }>("SELECT COUNT(*) AS count FROM sync_changes");
+    return row?.count ?? 0;
+}
+
+/**
+ * Drop pushed changes up to and including `lastSeq`
+ */
+export async function deleteSyncChanges(lastSeq: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM sync_changes WHERE seq <= ?", [lastSeq]);
+}
+
+/**
+ * The winning version of every field of the given entities, keyed by syncFieldKey
+ */
+export async function loadSyncFieldVersions(
+    entities: { entity: SyncEntity; id: string }[]
+): Promise<Map<string, { changedAt: string; deviceId: string }>> {
+    const db = await getDatabase();
+    const versions = new Map<string, { changedAt: string; deviceId: string }>();
+    const ids = Array.from(new Set(entities.map((e) => e.id)));
+
+    // Stay well below SQLite's bound parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+        const chunk = ids.slice(i, i + 500);
+        const rows = await db.getAllAsync<{
+            entity: SyncEntity;
+            entity_id: string;
+            field: string;
+            changed_at: string;
+            device_id: string;
+        }>(
+            `SELECT * FROM sync_field_versions WHERE entity_id IN (${chunk.map(() => "?").join(", ")})`,
+            chunk
+        );
+        for (const row of rows) {
+            versions.set(syncFieldKey(row.entity, row.entity_id, row.field), {
+                changedAt: row.changed_at,
+                deviceId: row.device_id,
+            });
+        }
+    }
+    return versions;
+}
+
+export const syncFieldKey = (entity: SyncEntity, id: string, field: string) => `${entity}:${id}:${field}`;
+
+/**
+ * Remember remote changes that won, so older ones arriving later lose to them
+ */
+export async function saveSyncFieldVersions(changes: SyncChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync((txn) => upsertSyncFieldVersions(txn, changes));
+}
+
+/**
+ * Forget every queued change and field version. Used when sync is turned off.
+ */
+export async function clearSyncLog(): Promise<void> {
+    const db = await getDatabase();
+    await db.execAsync("DELETE FROM sync_changes; DELETE FROM sync_field_versions;");
+}
@@ -43,7 +43,7 @@ export function canCustomizePomodoro(isPremium: boolean): boolean {
 
 /**
  * Check if a recurrence type is available for the user's subscription tier
- * All 4 types are available to all users
+ * All 5 types are available to all users
  */
 export function isRecurrenceTypeAvailable(
     type: RecurrenceType,
@@ -0,0 +1,304 @@
+import { Priority, Todo, getReminders } from "@/types/todo";
+import { TodoList, DEFAULT_LIST_ID } from "@/types/todoList";
+import { formatICalDate, formatRRule, parseICalDate } from "@/utils/rrule";
+import { shareTextFile } from "@/utils/backup";
+import { fromZonedLocal, getTodoTimeZone, getWallTime, isValidTimeZone } from "@/utils/timezone";
+
+const PRODUCT_ID = "-//BrutalDo//Tasks//EN";
+const UID_DOMAIN = "brutaldo";
+
+// iCalendar priorities run 1 (highest) to 9 (lowest); 0 means undefined
+const ICAL_PRIORITIES: Record<Priority, number> = {
+    high: 1,
+    medium: 5,
+    low: 9,
+    none: 0,
+};
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 characters (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+    if (line.length <= 75) return line;
+    const chunks = [line.slice(0, 75)];
+    for (let i = 75; i < line.length; i += 74) {
+        chunks.push(" " + line.slice(i, i + 74));
+    }
+    return chunks.join("\r\n");
+}
+
+const todoUid = (id: string) => `${id}@${UID_DOMAIN}`;
+
+/**
+ * A date-time property in UTC or, with `onWallClock`, in the task's local
+ * time: tied to its zone when anchored and floating otherwise
+ */
+function dateTimeProperty(name: string, iso: string, todo: Todo, onWallClock: boolean): string {
+    const date = new Date(iso);
+    if (!onWallClock) return `${name}:${formatICalDate(date)}`;
+
+    const timeZone = getTodoTimeZone(todo);
+    const wallTime = formatICalDate(new Date(getWallTime(date, timeZone))).replace(/Z$/, "");
+    return todo.timeMode === "anchored" ? `${name};TZID=${timeZone}:${wallTime}` : `${name}:${wallTime}`;
+}
+
+/**
+ * Lines for one VTODO, plus VTODOs for its subtasks linked back with RELATED-TO.
+ * Repeat settings the RRULE leaves out are added to `warnings`.
+ */
+function todoToComponents(
+    todo: Todo,
+    listName: string | undefined,
+    stamp: string,
+    warnings: string[]
+): string[][] {
+    const uid = todoUid(todo.id);
+    const lines = [
+        "BEGIN:VTODO",
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        `SUMMARY:${escapeText(todo.text)}`,
+        `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+    ];
+
+    if (todo.completed && todo.archivedAt) {
+        lines.push(`COMPLETED:${formatICalDate(new Date(todo.archivedAt))}`);
+    }
+    if (listName) {
+        lines.push(`CATEGORIES:${escapeText(listName)}`);
+    }
+    if (todo.priority && ICAL_PRIORITIES[todo.priority]) {
+        lines.push(`PRIORITY:${ICAL_PRIORITIES[todo.priority]}`);
+    }
+
+    const { rule: rrule, unsupported } = todo.recurrence
+        ? formatRRule(todo.recurrence)
+        : { rule: null, unsupported: [] };
+    const start = todo.recurrence?.startDate || todo.dueDate;
+    // BYHOUR and BYMINUTE follow the clock DTSTART is written in
+    const onWallClock = !!rrule?.includes(";BYHOUR=");
+    if (rrule && start) {
+        // RRULE is anchored on DTSTART
+        lines.push(dateTimeProperty("DTSTART", start, todo, onWallClock));
+    }
+    if (todo.dueDate) {
+        lines.push(dateTimeProperty("DUE", todo.dueDate, todo, onWallClock));
+    }
+    if (rrule && start && unsupported.length > 0) {
+        warnings.push(`Repeat settings left out (${unsupported.join(", ")}): "${todo.text}"`);
+    }
+    if (rrule && start) {
+        lines.push(`RRULE:${rrule}`);
+        const exceptions = todo.recurrence?.exceptionDates || [];
+        if (exceptions.length > 0) {
+            lines.push(`EXDATE;VALUE=DATE:${exceptions.map((d) => d.replace(/-/g, "")).join(",")}`);
+        }
+    }
+
+    for (const reminder of getReminders(todo)) {
+        lines.push(
+            "BEGIN:VALARM",
+            "ACTION:DISPLAY",
+            `DESCRIPTION:${escapeText(todo.text)}`,
+            `TRIGGER;VALUE=DATE-TIME:${formatICalDate(new Date(reminder.date))}`,
+            "END:VALARM"
+        );
+    }
+    lines.push("END:VTODO");
+
+    const subtasks = (todo.subtasks || []).map((subtask) => [
+        "BEGIN:VTODO",
+        `UID:${todoUid(`${todo.id}-${subtask.id}`)}`,
+        `DTSTAMP:${stamp}`,
+        `SUMMARY:${escapeText(subtask.text)}`,
+        `STATUS:${subtask.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+        `RELATED-TO;RELTYPE=PARENT:${uid}`,
+        "END:VTODO",
+    ]);
+
+    return [lines, ...subtasks];
+}
+
+/**
+ * Build an .ics calendar with one VTODO per task. `warnings` lists the repeat
+ * settings that could not be written, the way imports report what they skip.
+ */
+export function buildICalendar(
+    todos: Todo[],
+    lists: TodoList[],
+    calendarName: string
+): { text: string; warnings: string[] } {
+    const warnings: string[] = [];
+    const stamp = formatICalDate(new Date());
+    const listNames = new Map(lists.map((list) => [list.id, list.name]));
+
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ];
+    for (const todo of todos) {
+        const listName = listNames.get(todo.listId || DEFAULT_LIST_ID);
+        for (const component of todoToComponents(todo, listName, stamp, warnings)) {
+            lines.push(...component);
+        }
+    }
+    lines.push("END:VCALENDAR");
+
+    return { text: lines.map(foldLine).join("\r\n") + "\r\n", warnings };
+}
+
+/**
+ * Write the calendar to an .ics file and open the share sheet for it
+ */
+export async function shareICalendar(contents: string, calendarName: string): Promise<void> {
+    const slug = calendarName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "tasks";
+    await shareTextFile(`brutaldo-${slug}.ics`, contents, {
+        mimeType: "text/calendar",
+        dialogTitle: "Export to Calendar",
+        UTI: "public.calendar-event",
+    });
+}
+
+export interface ICalProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+export interface ICalComponent {
+    type: string;
+    properties: ICalProperty[];
+    components: ICalComponent[];
+}
+
+/**
+ * Undo TEXT escaping (RFC 5545 §3.3.11)
+ */
+export function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/**
+ * Split "NAME;PARAM=a;PARAM2="b:c":value" into its parts. Colons inside quoted
+ * parameter values do not end the parameter list.
+ */
+function parseContentLine(line: string): ICalProperty | null {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ":" && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon === -1) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf("=");
+        if (eq > 0) {
+            params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+        }
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse .ics text into its component tree. Returns the top-level components
+ * (normally a single VCALENDAR).
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+    // Unfold continuation lines (a CRLF followed by a space or tab)
+    const lines = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+    const roots: ICalComponent[] = [];
+    const stack: ICalComponent[] = [];
+
+    for (const line of lines) {
+        if (!line.trim()) continue;
+        const property = parseContentLine(line);
+        if (!property) continue;
+
+        if (property.name === "BEGIN") {
+            const component: ICalComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+            if (stack.length > 0) {
+                stack[stack.length - 1].components.push(component);
+            } else {
+                roots.push(component);
+            }
+            stack.push(component);
+        } else if (property.name === "END") {
+            stack.pop();
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].properties.push(property);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * First property with the given name
+ */
+export function getICalProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+    return component.properties.find((p) => p.name === name);
+}
+
+/**
+ * Every property with the given name, for properties that may repeat (EXDATE)
+ */
+export function getICalProperties(component: ICalComponent, name: string): ICalProperty[] {
+    return component.properties.filter((p) => p.name === name);
+}
+
+/**
+ * Parse a DATE or DATE-TIME property. Date-only values resolve to the end of that day.
+ * Local values are wall times in their TZID, or on the device without one.
+ * `timeZone` is the TZID they were read in, when it is one this device knows.
+ */
+export function parseICalPropertyDate(
+    property: ICalProperty
+): { date: Date; allDay: boolean; timeZone?: string } | null {
+    const allDay = property.params.VALUE === "DATE" || /^\d{8}$/.test(property.value.trim());
+    const date = parseICalDate(property.value);
+    if (!date) return null;
+    if (allDay) {
+        date.setHours(23, 59, 59, 999);
+    }
+
+    const tzid = property.params.TZID;
+    const timeZone = tzid && !property.value.trim().endsWith("Z") && isValidTimeZone(tzid) ? tzid : undefined;
+    return { date: timeZone ? fromZonedLocal(date, timeZone) : date, allDay, timeZone };
+}
+
+/**
+ * Parse an iCalendar DURATION ("-PT15M", "P1D", "PT1H30M") into milliseconds
+ */
+export function parseICalDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms =
+        ((parseInt(weeks || "0", 10) * 7 + parseInt(days || "0", 10)) * 24 * 60 * 60 +
+            parseInt(hours || "0", 10) * 60 * 60 +
+            parseInt(minutes || "0", 10) * 60 +
+            parseInt(seconds || "0", 10)) * 1000;
+    return sign === "-" ? -ms : ms;
+}
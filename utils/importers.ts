@@ -0,0 +1,790 @@
+import { Priority, Reminder, Subtask, Todo } from "@/types/todo";
+import { TodoList, DEFAULT_LIST_ID } from "@/types/todoList";
+import { DAYS_OF_WEEK, RecurrencePattern } from "@/types/recurrence";
+import { csvToRecords, parseCsv } from "@/utils/csv";
+import { parseICalDate, parseRRule } from "@/utils/rrule";
+import { getNextOccurrenceDate, toDateKey } from "@/utils/recurrence";
+import { fromZonedLocal, getDeviceTimeZone, toZonedLocal } from "@/utils/timezone";
+import {
+    ICalComponent,
+    getICalProperties,
+    getICalProperty,
+    parseICalDuration,
+    parseICalPropertyDate,
+    parseICalendar,
+    unescapeText,
+} from "@/utils/ical";
+
+const CARD_COLORS_COUNT = 6;
+
+export type ImportSource = "todoist" | "ticktick" | "google-tasks" | "ical";
+
+export const IMPORT_SOURCES: {
+    value: ImportSource;
+    label: string;
+    description: string;
+    icon: string;
+    fileTypes: string[];
+}[] = [
+    {
+        value: "todoist",
+        label: "Todoist",
+        description: "Project exported as CSV",
+        icon: "checkmark-done-circle-sharp",
+        fileTypes: ["text/csv", "text/comma-separated-values", "text/plain"],
+    },
+    {
+        value: "ticktick",
+        label: "TickTick",
+        description: "Backup exported as CSV",
+        icon: "checkbox-sharp",
+        fileTypes: ["text/csv", "text/comma-separated-values", "text/plain"],
+    },
+    {
+        value: "google-tasks",
+        label: "Google Tasks",
+        description: "Tasks.json from Google Takeout",
+        icon: "logo-google",
+        fileTypes: ["application/json", "text/plain"],
+    },
+    {
+        value: "ical",
+        label: "Calendar (.ics)",
+        description: "Tasks and events from an .ics file",
+        icon: "calendar-sharp",
+        fileTypes: ["text/calendar", "text/plain", "application/octet-stream"],
+    },
+];
+
+export interface ImportedTask {
+    listName: string;
+    todo: Todo;
+}
+
+export interface ImportPreview {
+    source: ImportSource;
+    listNames: string[];
+    tasks: ImportedTask[];
+    // Human-readable notes about data that could not be carried over
+    warnings: string[];
+    // Number of calendar events in the file (.ics only), imported on request
+    eventCount?: number;
+}
+
+export interface ImportOptions {
+    includeEvents?: boolean;
+}
+
+export class ImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImportError";
+    }
+}
+
+let idCounter = 0;
+const generateId = () => `${Date.now()}-${idCounter++}-${Math.random().toString(36).slice(2, 8)}`;
+const randomColor = () => Math.floor(Math.random() * CARD_COLORS_COUNT);
+
+/**
+ * Build a todo with the fields every importer fills the same way
+ */
+function createImportedTodo(text: string, fields: Partial<Todo> = {}): Todo {
+    const recurrence = fields.recurrence;
+    return {
+        id: generateId(),
+        text,
+        completed: false,
+        colorVariant: randomColor(),
+        isRecurring: !!recurrence && recurrence.type !== "once",
+        ...fields,
+    };
+}
+
+const endOfDay = (date: Date): Date => {
+    const result = new Date(date);
+    result.setHours(23, 59, 59, 999);
+    return result;
+};
+
+/**
+ * Counts repeated warnings so the preview shows "3 tasks had notes" instead of three lines
+ */
+class WarningCollector {
+    private counts = new Map<string, number>();
+
+    add(message: string) {
+        this.counts.set(message, (this.counts.get(message) || 0) + 1);
+    }
+
+    toArray(): string[] {
+        return Array.from(this.counts.entries()).map(([message, count]) =>
+            count > 1 ? `${message} (×${count})` : message
+        );
+    }
+}
+
+/**
+ * Group flat tasks under their parents. Children become subtasks and are
+ * removed from the top level; grandchildren are flattened onto the top-level parent.
+ */
+function nestSubtasks(
+    tasks: { key: string; parentKey?: string; imported: ImportedTask }[],
+    warnings: WarningCollector
+): ImportedTask[] {
+    const byKey = new Map(tasks.map((t) => [t.key, t]));
+    const findRoot = (key: string) => {
+        let current = byKey.get(key);
+        const seen = new Set<string>();
+        while (current?.parentKey && byKey.has(current.parentKey) && !seen.has(current.key)) {
+            seen.add(current.key);
+            current = byKey.get(current.parentKey);
+        }
+        return current;
+    };
+
+    const roots: ImportedTask[] = [];
+    for (const task of tasks) {
+        if (!task.parentKey || !byKey.has(task.parentKey)) {
+            roots.push(task.imported);
+            continue;
+        }
+        const root = findRoot(task.key);
+        if (!root || root === task) {
+            roots.push(task.imported);
+            continue;
+        }
+        if (byKey.get(task.parentKey) !== root) {
+            warnings.add("Nested subtasks were flattened to one level");
+        }
+        const subtask: Subtask = {
+            id: generateId(),
+            text: task.imported.todo.text,
+            completed: task.imported.todo.completed,
+        };
+        root.imported.todo.subtasks = [...(root.imported.todo.subtasks || []), subtask];
+    }
+    return roots;
+}
+
+const uniqueListNames = (tasks: ImportedTask[]) =>
+    Array.from(new Set(tasks.map((t) => t.listName)));
+
+// ---------------------------------------------------------------------------
+// Todoist
+// ---------------------------------------------------------------------------
+
+const DAY_NAMES: Record<string, number> = DAYS_OF_WEEK.reduce((acc, d) => {
+    const name = d.label.toLowerCase();
+    acc[name] = d.value;
+    acc[name.slice(0, 3)] = d.value;
+    return acc;
+}, {} as Record<string, number>);
+
+/**
+ * Translate a Todoist natural-language recurrence ("every 2 weeks", "every mon, fri",
+ * "every weekday") into a RecurrencePattern. Returns null if it cannot be expressed.
+ */
+export function parseRecurrenceText(text: string): RecurrencePattern | null {
+    const rule = text.toLowerCase().trim();
+    const pattern = parseRecurrenceRule(rule.replace(/^every!/, "every").replace(/\s+(at|@)\s+.*$/, "").trim());
+    // "every!" counts from the completion date
+    return pattern && rule.startsWith("every!") ? { ...pattern, repeatFrom: "completion" } : pattern;
+}
+
+function parseRecurrenceRule(rule: string): RecurrencePattern | null {
+    if (rule === "daily") return { type: "daily", interval: 1 };
+    if (rule === "weekly") return { type: "weekly", interval: 1 };
+    if (rule === "monthly") return { type: "monthly", interval: 1 };
+    if (rule === "yearly") return { type: "yearly", interval: 1 };
+
+    const match = rule.match(/^every\s+(other\s+|\d+\s+)?(.+)$/);
+    if (!match) return null;
+
+    const interval = match[1]?.trim() === "other" ? 2 : match[1] ? parseInt(match[1], 10) : 1;
+    const unit = match[2].trim();
+
+    if (/^days?$/.test(unit)) return { type: "daily", interval };
+    if (/^weeks?$/.test(unit)) return { type: "weekly", interval };
+    if (/^months?$/.test(unit)) return { type: "monthly", interval };
+    if (/^years?$/.test(unit)) return { type: "yearly", interval };
+    if (unit === "weekday" || unit === "workday") {
+        return { type: "weekly", interval: 1, daysOfWeek: [1, 2, 3, 4, 5] };
+    }
+    if (unit === "weekend") {
+        return { type: "weekly", interval: 1, daysOfWeek: [0, 6] };
+    }
+
+    const dayTokens = unit.split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean);
+    const days = dayTokens.map((token) => DAY_NAMES[token.replace(/s$/, "")]);
+    if (days.length > 0 && days.every((d) => d !== undefined)) {
+        return { type: "weekly", interval, daysOfWeek: Array.from(new Set(days)).sort((a, b) => a - b) };
+    }
+
+    return null;
+}
+
+/**
+ * Parse the date forms Todoist writes into its CSV: ISO dates, "today", "tomorrow"
+ * and anything Date.parse understands.
+ */
+function parseLooseDate(text: string): Date | null {
+    const value = text.trim().toLowerCase();
+    const today = new Date();
+    if (value === "today") return endOfDay(today);
+    if (value === "tomorrow") {
+        today.setDate(today.getDate() + 1);
+        return endOfDay(today);
+    }
+
+    const isoDateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (isoDateOnly) {
+        return endOfDay(new Date(
+            parseInt(isoDateOnly[1], 10),
+            parseInt(isoDateOnly[2], 10) - 1,
+            parseInt(isoDateOnly[3], 10)
+        ));
+    }
+
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/**
+ * First date on or after today that matches the pattern
+ */
+function firstOccurrence(pattern: RecurrencePattern): Date {
+    const date = endOfDay(new Date());
+    if (pattern.type === "weekly" && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+        while (!pattern.daysOfWeek.includes(date.getDay())) {
+            date.setDate(date.getDate() + 1);
+        }
+    }
+    return date;
+}
+
+const TODOIST_PRIORITIES: Record<string, Priority> = {
+    "1": "high",
+    "2": "medium",
+    "3": "low",
+    "4": "none",
+};
+
+/**
+ * Parse a Todoist project CSV export. Todoist exports one project per file,
+ * so the project name comes from the file name.
+ */
+export function parseTodoistCsv(text: string, projectName: string): ImportPreview {
+    const records = csvToRecords(parseCsv(text));
+    if (records.length === 0 || !("TYPE" in records[0]) || !("CONTENT" in records[0])) {
+        throw new ImportError("This does not look like a Todoist CSV export.");
+    }
+
+    const warnings = new WarningCollector();
+    const listName = projectName.trim() || "Todoist";
+    const tasks: { key: string; parentKey?: string; imported: ImportedTask }[] = [];
+    const lastAtIndent: string[] = [];
+
+    records.forEach((record, index) => {
+        const type = record.TYPE.toLowerCase();
+        if (type === "section") {
+            warnings.add("Sections are not supported; their tasks were kept in the project");
+            return;
+        }
+        if (type === "note") {
+            warnings.add("Comments were not imported");
+            return;
+        }
+        if (type !== "task" || !record.CONTENT) return;
+
+        const fields: Partial<Todo> = {
+            priority: TODOIST_PRIORITIES[record.PRIORITY] || undefined,
+        };
+        if (fields.priority === "none") fields.priority = undefined;
+
+        const date = record.DATE;
+        if (date) {
+            if (/^every/i.test(date) || /^(daily|weekly|monthly|yearly)$/i.test(date)) {
+                const recurrence = parseRecurrenceText(date);
+                if (recurrence) {
+                    fields.recurrence = recurrence;
+                    fields.dueDate = firstOccurrence(recurrence).toISOString();
+                } else {
+                    warnings.add(`Recurrence "${date}" could not be mapped`);
+                }
+            } else {
+                const due = parseLooseDate(date);
+                if (due) {
+                    fields.dueDate = due.toISOString();
+                } else {
+                    warnings.add(`Due date "${date}" could not be read`);
+                }
+            }
+        }
+        if (record.DESCRIPTION) {
+            warnings.add("Task descriptions were not imported");
+        }
+
+        const indent = Math.max(1, parseInt(record.INDENT, 10) || 1);
+        const key = String(index);
+        lastAtIndent[indent] = key;
+        lastAtIndent.length = indent + 1;
+
+        tasks.push({
+            key,
+            parentKey: indent > 1 ? lastAtIndent[indent - 1] : undefined,
+            imported: { listName, todo: createImportedTodo(record.CONTENT, fields) },
+        });
+    });
+
+    const nested = nestSubtasks(tasks, warnings);
+    return { source: "todoist", listNames: uniqueListNames(nested), tasks: nested, warnings: warnings.toArray() };
+}
+
+// ---------------------------------------------------------------------------
+// TickTick
+// ---------------------------------------------------------------------------
+
+const TICKTICK_PRIORITIES: Record<string, Priority | undefined> = {
+    "0": undefined,
+    "1": "low",
+    "3": "medium",
+    "5": "high",
+};
+
+/**
+ * TickTick writes offsets as +0000; Date.parse wants +00:00
+ */
+function parseTickTickDate(value: string): Date | null {
+    if (!value) return null;
+    const normalized = value.replace(/([+-]\d{2})(\d{2})$/, "$1:$2");
+    const parsed = Date.parse(normalized);
+    return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/**
+ * Split checklist content into subtasks. TickTick marks items with ▫ (open) or ▪ (done).
+ */
+function parseChecklist(content: string): Subtask[] {
+    return content
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => ({
+            id: generateId(),
+            text: line.replace(/^[▫▪□■✓✔☐☑-]\s*/, ""),
+            completed: /^[▪■✓✔☑]/.test(line),
+        }));
+}
+
+/**
+ * Parse a TickTick backup CSV (Settings → Backup & Import → Generate backup)
+ */
+export function parseTickTickCsv(text: string): ImportPreview {
+    const rows = parseCsv(text);
+    const headerIndex = rows.findIndex((row) => row.includes("Title") && row.includes("List Name"));
+    if (headerIndex === -1) {
+        throw new ImportError("This does not look like a TickTick backup.");
+    }
+
+    const warnings = new WarningCollector();
+    const tasks: { key: string; parentKey?: string; imported: ImportedTask }[] = [];
+
+    csvToRecords(rows, headerIndex).forEach((record, index) => {
+        if (!record.Title) return;
+        if (record.Kind === "NOTE") {
+            warnings.add("Notes were not imported");
+            return;
+        }
+
+        const fields: Partial<Todo> = {
+            priority: TICKTICK_PRIORITIES[record.Priority],
+        };
+
+        const due = parseTickTickDate(record["Due Date"] || record["Start Date"]);
+        if (due) {
+            fields.dueDate = (record["Is All Day"] === "true" ? endOfDay(due) : due).toISOString();
+        }
+
+        if (record.Repeat) {
+            const { pattern, unsupported } = parseRRule(record.Repeat);
+            if (pattern) {
+                fields.recurrence = pattern;
+            }
+            if (!pattern || unsupported.length > 0) {
+                warnings.add(`Repeat rule "${record.Repeat}" could not be fully mapped`);
+            }
+        }
+
+        if (record["Is Check list"] === "Y" && record.Content) {
+            fields.subtasks = parseChecklist(record.Content);
+        } else if (record.Content) {
+            warnings.add("Task descriptions were not imported");
+        }
+
+        if (record.Reminder) {
+            warnings.add("Reminders were not imported");
+        }
+
+        // Status: 0 = open, 1 = completed, 2 = archived
+        if (record.Status === "1" || record.Status === "2") {
+            const completedAt = parseTickTickDate(record["Completed Time"]);
+            fields.completed = true;
+            fields.archivedAt = (completedAt || new Date()).toISOString();
+        }
+
+        tasks.push({
+            key: record.taskId || String(index),
+            parentKey: record.parentId || undefined,
+            imported: {
+                listName: record["List Name"] || "TickTick",
+                todo: createImportedTodo(record.Title, fields),
+            },
+        });
+    });
+
+    const nested = nestSubtasks(tasks, warnings);
+    return { source: "ticktick", listNames: uniqueListNames(nested), tasks: nested, warnings: warnings.toArray() };
+}
+
+// ---------------------------------------------------------------------------
+// Google Tasks
+// ---------------------------------------------------------------------------
+
+interface GoogleTask {
+    id: string;
+    title?: string;
+    notes?: string;
+    status?: "needsAction" | "completed";
+    due?: string;
+    completed?: string;
+    parent?: string;
+    deleted?: boolean;
+}
+
+interface GoogleTaskList {
+    title?: string;
+    items?: GoogleTask[];
+}
+
+/**
+ * Parse Tasks.json from a Google Takeout export
+ */
+export function parseGoogleTasksJson(text: string): ImportPreview {
+    let parsed: { items?: GoogleTaskList[] };
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new ImportError("This file is not valid JSON.");
+    }
+    if (!parsed || !Array.isArray(parsed.items)) {
+        throw new ImportError("This does not look like a Google Tasks export.");
+    }
+
+    const warnings = new WarningCollector();
+    const tasks: { key: string; parentKey?: string; imported: ImportedTask }[] = [];
+
+    for (const list of parsed.items) {
+        const listName = list.title || "Google Tasks";
+        for (const task of list.items || []) {
+            if (task.deleted || !task.title) continue;
+
+            const fields: Partial<Todo> = {};
+            if (task.due) {
+                // Google stores due dates as midnight UTC of the chosen day
+                const due = new Date(task.due);
+                if (!Number.isNaN(due.getTime())) {
+                    fields.dueDate = endOfDay(
+                        new Date(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate())
+                    ).toISOString();
+                }
+            }
+            if (task.status === "completed") {
+                fields.completed = true;
+                fields.archivedAt = task.completed || new Date().toISOString();
+            }
+            if (task.notes) {
+                warnings.add("Task notes were not imported");
+            }
+
+            tasks.push({
+                key: task.id,
+                parentKey: task.parent,
+                imported: { listName, todo: createImportedTodo(task.title, fields) },
+            });
+        }
+    }
+
+    const nested = nestSubtasks(tasks, warnings);
+    return { source: "google-tasks", listNames: uniqueListNames(nested), tasks: nested, warnings: warnings.toArray() };
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar
+// ---------------------------------------------------------------------------
+
+/**
+ * Map iCalendar PRIORITY (1 = highest … 9 = lowest, 0 = undefined)
+ */
+function mapICalPriority(value: string | undefined): Priority | undefined {
+    const priority = parseInt(value || "0", 10);
+    if (priority >= 1 && priority <= 4) return "high";
+    if (priority === 5) return "medium";
+    if (priority >= 6 && priority <= 9) return "low";
+    return undefined;
+}
+
+/**
+ * Roll a recurring date forward to the first occurrence that is not in the past,
+ * stepping on the wall clock of `timeZone`. Returns null when the series ended
+ * before today.
+ */
+function rollForward(date: Date, pattern: Todo["recurrence"], timeZone: string): Date | null {
+    if (!pattern || pattern.type === "once") return date;
+    const now = toZonedLocal(new Date(), timeZone);
+    let current: Date | null = toZonedLocal(date, timeZone);
+    // Bounded so a malformed rule cannot spin forever
+    for (let i = 0; current && current < now && i < 5000; i++) {
+        current = getNextOccurrenceDate(current, pattern);
+    }
+    return current && current >= now ? fromZonedLocal(current, timeZone) : null;
+}
+
+/**
+ * Convert VALARMs into reminders. Relative triggers resolve against the start
+ * (or the end, with RELATED=END); absolute triggers are used as-is.
+ */
+function alarmsToReminders(
+    component: ICalComponent,
+    start: Date | undefined,
+    end: Date | undefined,
+    warnings: WarningCollector
+): Reminder[] {
+    const reminders: Reminder[] = [];
+    for (const alarm of component.components.filter((c) => c.type === "VALARM")) {
+        const trigger = getICalProperty(alarm, "TRIGGER");
+        if (!trigger) continue;
+
+        let date: Date | null = null;
+        if (trigger.params.VALUE === "DATE-TIME") {
+            date = parseICalPropertyDate(trigger)?.date || null;
+        } else {
+            const offset = parseICalDuration(trigger.value);
+            const anchor = trigger.params.RELATED === "END" ? end || start : start || end;
+            if (offset !== null && anchor) {
+                date = new Date(anchor.getTime() + offset);
+            }
+        }
+
+        if (date) {
+            reminders.push({ id: generateId(), date: date.toISOString() });
+        } else {
+            warnings.add("Some alarms could not be converted to reminders");
+        }
+    }
+    return reminders;
+}
+
+/**
+ * Parse an .ics file. VTODOs always become tasks; VEVENTs only with `includeEvents`.
+ * Everything lands in one list, chosen when the import is applied.
+ */
+export function parseICalendarTasks(text: string, fileName: string, options: ImportOptions = {}): ImportPreview {
+    const calendar = parseICalendar(text).find((c) => c.type === "VCALENDAR");
+    if (!calendar) {
+        throw new ImportError("This does not look like an iCalendar (.ics) file.");
+    }
+
+    const warnings = new WarningCollector();
+    const listName = unescapeText(getICalProperty(calendar, "X-WR-CALNAME")?.value || "") ||
+        fileName.replace(/\.[^.]+$/, "") || "Calendar";
+    const events = calendar.components.filter((c) => c.type === "VEVENT");
+    const tasks: { key: string; parentKey?: string; imported: ImportedTask }[] = [];
+
+    const components = calendar.components.filter(
+        (c) => c.type === "VTODO" || (options.includeEvents && c.type === "VEVENT")
+    );
+
+    components.forEach((component, index) => {
+        const isEvent = component.type === "VEVENT";
+        const title = unescapeText(getICalProperty(component, "SUMMARY")?.value || "").trim();
+        if (!title) return;
+
+        const status = getICalProperty(component, "STATUS")?.value.toUpperCase();
+        if (status === "CANCELLED") {
+            warnings.add("Cancelled items were skipped");
+            return;
+        }
+
+        const startProperty = getICalProperty(component, "DTSTART");
+        const dueProperty = getICalProperty(component, isEvent ? "DTSTART" : "DUE");
+        const parsedStart = startProperty ? parseICalPropertyDate(startProperty) : null;
+        const parsedDue = dueProperty ? parseICalPropertyDate(dueProperty) : null;
+        let start = parsedStart?.date;
+        let due = parsedDue?.date;
+        for (const property of [startProperty, dueProperty]) {
+            const tzid = property?.params.TZID;
+            if (tzid && !parseICalPropertyDate(property)?.timeZone) {
+                warnings.add(`Times in ${tzid} were read as local time`);
+            }
+        }
+
+        const fields: Partial<Todo> = {
+            priority: mapICalPriority(getICalProperty(component, "PRIORITY")?.value),
+        };
+        // Times given in a zone stay on that zone's clock wherever the device goes
+        const timeZone = parsedDue?.timeZone || parsedStart?.timeZone;
+        if (timeZone) {
+            fields.timeMode = "anchored";
+            fields.timeZone = timeZone;
+        }
+
+        const rrule = getICalProperty(component, "RRULE");
+        if (rrule) {
+            const { pattern, unsupported } = parseRRule(rrule.value);
+            if (!pattern) {
+                warnings.add(`Not repeated (unsupported rule ${unsupported.join(", ")}): "${title}"`);
+            } else {
+                fields.recurrence = pattern;
+                if (unsupported.length > 0) {
+                    warnings.add(`Repeat rule parts ignored: ${unsupported.join(", ")}`);
+                }
+            }
+        }
+        const exceptionDates = getICalProperties(component, "EXDATE")
+            .flatMap((property) => property.value.split(","))
+            .map((value) => parseICalDate(value))
+            .filter((date): date is Date => !!date)
+            .map(toDateKey);
+        if (fields.recurrence && exceptionDates.length > 0) {
+            fields.recurrence.exceptionDates = [...new Set(exceptionDates)].sort();
+        }
+        if (getICalProperty(component, "RDATE")) {
+            warnings.add("Extra dates (RDATE) were ignored");
+        }
+        if (getICalProperty(component, "DESCRIPTION")) {
+            warnings.add("Descriptions were not imported");
+        }
+
+        const completed = status === "COMPLETED" || !!getICalProperty(component, "COMPLETED");
+        if (completed) {
+            const completedProperty = getICalProperty(component, "COMPLETED");
+            fields.completed = true;
+            fields.archivedAt = (
+                (completedProperty && parseICalPropertyDate(completedProperty)?.date) || new Date()
+            ).toISOString();
+        } else if (due && due < new Date()) {
+            if (fields.recurrence) {
+                // Schedules usually start in the past; begin at the next upcoming occurrence
+                const next = rollForward(due, fields.recurrence, timeZone || getDeviceTimeZone());
+                if (!next) {
+                    if (isEvent) {
+                        warnings.add("Recurring events that already ended were skipped");
+                        return;
+                    }
+                } else {
+                    const shift = next.getTime() - due.getTime();
+                    start = start ? new Date(start.getTime() + shift) : undefined;
+                    due = next;
+                }
+            } else if (isEvent) {
+                warnings.add("Past events were skipped");
+                return;
+            }
+        }
+
+        if (due) {
+            fields.dueDate = due.toISOString();
+        }
+        const end = isEvent ? undefined : due;
+        const reminders = alarmsToReminders(component, start, end, warnings);
+        if (reminders.length > 0) {
+            fields.reminders = reminders;
+        }
+
+        const related = getICalProperty(component, "RELATED-TO");
+        const isChild = related && (!related.params.RELTYPE || related.params.RELTYPE.toUpperCase() === "PARENT");
+
+        tasks.push({
+            key: getICalProperty(component, "UID")?.value || String(index),
+            parentKey: isChild ? related.value : undefined,
+            imported: { listName, todo: createImportedTodo(title, fields) },
+        });
+    });
+
+    const nested = nestSubtasks(tasks, warnings);
+    return {
+        source: "ical",
+        listNames: uniqueListNames(nested),
+        tasks: nested,
+        warnings: warnings.toArray(),
+        eventCount: events.length,
+    };
+}
+
+/**
+ * Parse a file for the given source
+ */
+export function parseImportFile(
+    source: ImportSource,
+    text: string,
+    fileName: string,
+    options: ImportOptions = {}
+): ImportPreview {
+    switch (source) {
+        case "todoist":
+            return parseTodoistCsv(text, fileName.replace(/\.[^.]+$/, ""));
+        case "ticktick":
+            return parseTickTickCsv(text);
+        case "google-tasks":
+            return parseGoogleTasksJson(text);
+        case "ical":
+            return parseICalendarTasks(text, fileName, options);
+    }
+}
+
+/**
+ * Match imported project names against existing lists (case-insensitive) and
+ * create lists for the rest. Returns the lists to add and todos with list ids set.
+ * With `targetListId` every task goes into that list instead.
+ */
+export function resolveImportLists(
+    preview: ImportPreview,
+    existingLists: TodoList[],
+    targetListId?: string
+): { newLists: TodoList[]; todos: Todo[] } {
+    if (targetListId) {
+        return { newLists: [], todos: preview.tasks.map(({ todo }) => ({ ...todo, listId: targetListId })) };
+    }
+
+    const listIdByName = new Map<string, string>();
+    for (const list of existingLists) {
+        listIdByName.set(list.name.trim().toLowerCase(), list.id);
+    }
+
+    const newLists: TodoList[] = [];
+    for (const name of preview.listNames) {
+        const key = name.trim().toLowerCase();
+        if (key === "inbox") {
+            listIdByName.set(key, listIdByName.get(key) || DEFAULT_LIST_ID);
+            continue;
+        }
+        if (listIdByName.has(key)) continue;
+
+        const list: TodoList = {
+            id: generateId(),
+            name: name.trim(),
+            colorVariant: randomColor(),
+            createdAt: new Date().toISOString(),
+        };
+        newLists.push(list);
+        listIdByName.set(key, list.id);
+    }
+
+    const todos = preview.tasks.map(({ listName, todo }) => ({
+        ...todo,
+        listId: listIdByName.get(listName.trim().toLowerCase()) || DEFAULT_LIST_ID,
+    }));
+
+    return { newLists, todos };
+}
@@ -0,0 +1,317 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Todo } from "@/types/todo";
+import { TodoList, DEFAULT_LIST_ID } from "@/types/todoList";
+import { migrateRecurrencePattern } from "@/utils/recurrence";
+import { isTodoArray, isTodoListArray } from "@/utils/persistence";
+import {
+    insertMissingTodos,
+    loadAllLists,
+    loadAllTodos,
+    replaceAllLists,
+    replaceAllTodos,
+} from "@/utils/database";
+
+const TODOS_STORAGE_KEY = "@neo_brutal_todos_v2";
+const LISTS_STORAGE_KEY = "@neo_brutal_lists_v1";
+const SCHEMA_VERSION_KEY = "@neo_brutal_schema_version";
+const MIGRATION_BACKUP_KEY = "@neo_brutal_migration_backup";
+
+/**
+ * The persisted collections a migration may rewrite.
+ * Todos are loosely typed because older versions carry fields the current model dropped.
+ */
+export interface StoredData {
+    todos: (Todo & Record<string, unknown>)[];
+    lists: TodoList[];
+}
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (data: StoredData) => StoredData;
+}
+
+export type MigrationResult =
+    | { status: "up-to-date"; version: number }
+    | { status: "migrated"; fromVersion: number; version: number }
+    | { status: "failed"; version: number; failedVersion: number; error: string };
+
+/**
+ * Ordered list of schema migrations. Each runs exactly once, in order,
+ * and bumps the stored schema version to its own `version`.
+ * Never edit a shipped migration — append a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: "Move the legacy single reminder into the reminders array",
+        migrate: (data) => ({
+            ...data,
+            todos: data.todos.map((todo) => {
+                const { reminderDate, notificationId, ...rest } = todo;
+                if (typeof reminderDate !== "string" || !reminderDate || (todo.reminders && todo.reminders.length > 0)) {
+                    return rest;
+                }
+                return {
+                    ...rest,
+                    reminders: [{
+                        id: `legacy-${todo.id}`,
+                        date: reminderDate,
+                        notificationId: typeof notificationId === "string" ? notificationId : undefined,
+                    }],
+                };
+            }),
+        }),
+    },
+    {
+        version: 2,
+        description: "Normalize recurrence patterns to the current shape",
+        migrate: (data) => ({
+            ...data,
+            todos: data.todos.map((todo) => {
+                if (!todo.recurrence) return todo;
+                const recurrence = migrateRecurrencePattern(todo.recurrence);
+                return {
+                    ...todo,
+                    recurrence,
+                    isRecurring: !!recurrence && recurrence.type !== "once",
+                };
+            }),
+        }),
+    },
+    {
+        version: 3,
+        description: "Assign unlisted or orphaned tasks to the Inbox",
+        migrate: (data) => {
+            const listIds = new Set([DEFAULT_LIST_ID, ...data.lists.map((l) => l.id)]);
+            return {
+                ...data,
+                todos: data.todos.map((todo) =>
+                    todo.listId && listIds.has(todo.listId)
+                        ? todo
+                        : { ...todo, listId: DEFAULT_LIST_ID }
+                ),
+            };
+        },
+    },
+    {
+        version: 4,
+        description: "Backfill created, updated and completed timestamps",
+        migrate: (data) => ({
+            ...data,
+            todos: data.todos.map((todo) => {
+                // Ids were Date.now() strings, the best record of when a task was made
+                const fromId = parseInt(todo.id, 10);
+                const createdAt = todo.createdAt ||
+                    (fromId > 1e12 && fromId < 1e14 ? new Date(fromId).toISOString() : new Date().toISOString());
+                return {
+                    ...todo,
+                    createdAt,
+                    updatedAt: todo.updatedAt || todo.archivedAt || createdAt,
+                    completedAt: todo.completedAt || todo.archivedAt,
+                };
+            }),
+        }),
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring collections saved at an older schema version up to the current one
+ */
+export function migrateStoredData(data: StoredData, fromVersion: number): StoredData {
+    return MIGRATIONS
+        .filter((m) => m.version > fromVersion)
+        .reduce((migrated, migration) => migration.migrate(migrated), data);
+}
+
+/**
+ * Read the stored schema version. Installs that predate versioning report 0.
+ */
+export async function getSchemaVersion(): Promise<number> {
+    const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    const version = stored ? parseInt(stored, 10) : 0;
+    return Number.isNaN(version) ? 0 : version;
+}
+
+/**
+ * Where the collections live. Installs from before the SQLite store keep them
+ * in the JSON keys until moveJsonToDatabase() has run.
+ */
+type DataSource = "json" | "database";
+
+interface MigrationBackup {
+    version: number;
+    source?: DataSource;
+    todos: string | null;
+    lists: string | null;
+}
+
+/**
+ * Read the raw collections from wherever they currently live
+ */
+async function readRawData(): Promise<{ source: DataSource; todos: string | null; lists: string | null }> {
+    const [[, jsonTodos], [, jsonLists]] = await AsyncStorage.multiGet([
+        TODOS_STORAGE_KEY,
+        LISTS_STORAGE_KEY,
+    ]);
+    if (jsonTodos !== null || jsonLists !== null) {
+        return { source: "json", todos: jsonTodos, lists: jsonLists };
+    }
+
+    const [todos, lists] = await Promise.all([loadAllTodos(), loadAllLists()]);
+    return {
+        source: "database",
+        todos: todos.length > 0 ? JSON.stringify(todos) : null,
+        lists: lists.length > 0 ? JSON.stringify(lists) : null,
+    };
+}
+
+/**
+ * Write raw collections back to their source. A null value leaves that collection untouched.
+ */
+async function writeRawData(source: DataSource, todos: string | null, lists: string | null): Promise<void> {
+    if (source === "json") {
+        const writes: [string, string][] = [];
+        if (todos !== null) writes.push([TODOS_STORAGE_KEY, todos]);
+        if (lists !== null) writes.push([LISTS_STORAGE_KEY, lists]);
+        await AsyncStorage.multiSet(writes);
+        return;
+    }
+    if (todos !== null) await replaceAllTodos(JSON.parse(todos));
+    if (lists !== null) await replaceAllLists(JSON.parse(lists));
+}
+
+/**
+ * Run every pending migration against the stored data, then move data still
+ * held in the JSON keys into the database.
+ * Must be called once at startup, before any provider reads storage.
+ *
+ * The raw pre-migration values are kept under a backup key. If a migration
+ * throws, the backup is written back and the version stays where it was,
+ * so the app can retry on the next launch without losing anything.
+ */
+export async function runMigrations(): Promise<MigrationResult> {
+    const result = await applyPendingMigrations();
+    if (result.status === "failed") {
+        return result;
+    }
+
+    try {
+        await moveJsonToDatabase();
+    } catch (e) {
+        console.error("Moving data into the database failed:", e);
+        return {
+            status: "failed",
+            version: result.version,
+            failedVersion: result.version,
+            error: e instanceof Error ? e.message : String(e),
+        };
+    }
+    return result;
+}
+
+async function applyPendingMigrations(): Promise<MigrationResult> {
+    const fromVersion = await getSchemaVersion();
+    const pending = MIGRATIONS.filter((m) => m.version > fromVersion);
+
+    if (pending.length === 0) {
+        return { status: "up-to-date", version: fromVersion };
+    }
+
+    let failedVersion = pending[0].version;
+    try {
+        const raw = await readRawData();
+
+        // Nothing stored yet (fresh install): just stamp the current version
+        if (raw.todos === null && raw.lists === null) {
+            await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+            return { status: "up-to-date", version: CURRENT_SCHEMA_VERSION };
+        }
+
+        const backup: MigrationBackup = { version: fromVersion, ...raw };
+        await AsyncStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+
+        let data: StoredData = {
+            todos: raw.todos ? JSON.parse(raw.todos) : [],
+            lists: raw.lists ? JSON.parse(raw.lists) : [],
+        };
+
+        for (const migration of pending) {
+            failedVersion = migration.version;
+            data = migration.migrate(data);
+        }
+
+        failedVersion = CURRENT_SCHEMA_VERSION;
+        await writeRawData(
+            raw.source,
+            JSON.stringify(data.todos),
+            raw.lists !== null ? JSON.stringify(data.lists) : null
+        );
+        await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+        await AsyncStorage.removeItem(MIGRATION_BACKUP_KEY);
+
+        return { status: "migrated", fromVersion, version: CURRENT_SCHEMA_VERSION };
+    } catch (e) {
+        console.error(`Migration to schema v${failedVersion} failed:`, e);
+        await restoreMigrationBackup();
+        return {
+            status: "failed",
+            version: fromVersion,
+            failedVersion,
+            error: e instanceof Error ? e.message : String(e),
+        };
+    }
+}
+
+/**
+ * One-time move of the JSON-encoded collections into SQLite. Rows already in
+ * the database win, so a retry after an interrupted move cannot duplicate or
+ * overwrite anything. The JSON keys are removed only once the rows are written;
+ * their snapshot rings stay where they are.
+ */
+async function moveJsonToDatabase(): Promise<void> {
+    const [[, rawTodos], [, rawLists]] = await AsyncStorage.multiGet([
+        TODOS_STORAGE_KEY,
+        LISTS_STORAGE_KEY,
+    ]);
+    if (rawTodos === null && rawLists === null) return;
+
+    if (rawTodos !== null) {
+        const todos: unknown = JSON.parse(rawTodos);
+        if (!isTodoArray(todos)) {
+            throw new Error("Stored tasks have an unexpected shape");
+        }
+        await insertMissingTodos(todos);
+    }
+    if (rawLists !== null) {
+        const lists: unknown = JSON.parse(rawLists);
+        if (!isTodoListArray(lists)) {
+            throw new Error("Stored projects have an unexpected shape");
+        }
+        const stored = await loadAllLists();
+        const storedIds = new Set(stored.map((l) => l.id));
+        await replaceAllLists([...stored, ...lists.filter((l) => !storedIds.has(l.id))]);
+    }
+
+    await AsyncStorage.multiRemove([TODOS_STORAGE_KEY, LISTS_STORAGE_KEY]);
+}
+
+/**
+ * Write the pre-migration values back. Used after a failed migration.
+ */
+export async function restoreMigrationBackup(): Promise<boolean> {
+    try {
+        const stored = await AsyncStorage.getItem(MIGRATION_BACKUP_KEY);
+        if (!stored) return false;
+
+        const backup: MigrationBackup = JSON.parse(stored);
+        await writeRawData(backup.source ?? "json", backup.todos, backup.lists);
+        await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(backup.version));
+        return true;
+    } catch (e) {
+        console.error("Failed to restore migration backup:", e);
+        return false;
+    }
+}
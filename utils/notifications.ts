@@ -1,6 +1,9 @@
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
 import {Platform} from "react-native";
+import {Reminder, Todo, getReminders} from "@/types/todo";
+import {resolveRelativeReminders} from "@/utils/reminders";
+import {getTodoTimeZone} from "@/utils/timezone";
 
 // Configure how notifications should be displayed
 Notifications.setNotificationHandler({
@@ -48,12 +51,59 @@ export async function registerForPushNotificationsAsync(): Promise<boolean> {
     }
 }
 
+// Category of task reminders, which carry the Complete and Snooze actions
+export const REMINDER_CATEGORY = "reminder";
+
+export type ReminderAction = "complete" | "snooze10" | "snoozeTomorrow";
+
+export const REMINDER_ACTIONS: { identifier: ReminderAction; buttonTitle: string }[] = [
+    { identifier: "complete", buttonTitle: "Complete" },
+    { identifier: "snooze10", buttonTitle: "Snooze 10 min" },
+    { identifier: "snoozeTomorrow", buttonTitle: "Snooze until tomorrow" },
+];
+
+export interface ReminderNotificationData {
+    type: "reminder";
+    todoId: string;
+    reminderId: string;
+    [key: string]: unknown; // Allow index signature for Record<string, unknown> compatibility
+}
+
 /**
- * Schedule a notification for a specific date/time
+ * Register the actions shown on task reminders. Each one opens the app:
+ * actions that stay in the background are never delivered to a killed app.
+ */
+export async function registerReminderActionsAsync() {
+    await Notifications.setNotificationCategoryAsync(
+        REMINDER_CATEGORY,
+        REMINDER_ACTIONS.map((action) => ({
+            ...action,
+            options: { opensAppToForeground: true },
+        }))
+    );
+}
+
+/**
+ * When a snoozed reminder fires again
+ */
+export function getSnoozeDate(action: Exclude<ReminderAction, "complete">, now: Date = new Date()): Date {
+    const date = new Date(now);
+    if (action === "snooze10") {
+        date.setMinutes(date.getMinutes() + 10);
+    } else {
+        date.setDate(date.getDate() + 1);
+    }
+    return date;
+}
+
+/**
+ * Schedule a notification for a specific date/time. Task reminders pass
+ * their ids so the notification's actions know what to act on.
  */
 export async function scheduleNotification(
     todoText: string,
-    reminderDate: Date
+    reminderDate: Date,
+    reminder?: { todoId: string; reminderId: string }
 ): Promise<string> {
     return await Notifications.scheduleNotificationAsync({
         content: {
@@ -61,6 +111,10 @@ export async function scheduleNotification(
             body: todoText,
             sound: true,
             priority: Notifications.AndroidNotificationPriority.HIGH,
+            ...(reminder && {
+                categoryIdentifier: REMINDER_CATEGORY,
+                data: { type: "reminder", ...reminder } as ReminderNotificationData,
+            }),
         },
         trigger: {
             type: Notifications.SchedulableTriggerInputTypes.DATE,
@@ -69,6 +123,169 @@ export async function scheduleNotification(
     });
 }
 
+/**
+ * Schedule notifications for a task's future reminders.
+ * Past reminders are kept but lose their notification id.
+ */
+export async function scheduleTodoReminders(todo: Todo): Promise<Todo> {
+    const now = new Date();
+    const reminders: Reminder[] = await Promise.all(
+        getReminders(todo).map(async (r) => {
+            const date = new Date(r.date);
+            if (date > now) {
+                const notificationId = await scheduleNotification(todo.text, date, {
+                    todoId: todo.id,
+                    reminderId: r.id,
+                });
+                return { ...r, notificationId };
+            }
+            return { ...r, notificationId: undefined };
+        })
+    );
+    return { ...todo, reminders };
+}
+
+/**
+ * Move a task's relative reminders to its current due date and reschedule
+ * the notifications of those that moved
+ */
+export async function resolveTodoReminders(todo: Todo): Promise<Todo> {
+    const current = getReminders(todo);
+    const resolved = resolveRelativeReminders(current, todo.dueDate, getTodoTimeZone(todo));
+    const now = new Date();
+    const reminders: Reminder[] = await Promise.all(
+        resolved.map(async (r, index) => {
+            const previous = current[index];
+            if (r.date === previous.date) return r;
+
+            if (previous.notificationId) {
+                await cancelNotification(previous.notificationId);
+            }
+            const date = new Date(r.date);
+            if (date > now) {
+                const notificationId = await scheduleNotification(todo.text, date, {
+                    todoId: todo.id,
+                    reminderId: r.id,
+                });
+                return { ...r, notificationId };
+            }
+            return { ...r, notificationId: undefined };
+        })
+    );
+    return { ...todo, reminders };
+}
+
+/**
+ * Cancel every scheduled reminder notification of a task
+ */
+export async function cancelTodoReminders(todo: Todo) {
+    for (const reminder of getReminders(todo)) {
+        if (reminder.notificationId) {
+            await cancelNotification(reminder.notificationId);
+        }
+    }
+}
+
+export interface ReminderReconcileReport {
+    rescheduled: number; // Future reminders whose notification was missing
+    cancelled: number;   // Notifications of finished, deleted or replaced reminders
+}
+
+export interface ReminderReconcileResult {
+    // New reminders per task id, for the tasks whose reminders changed
+    reminders: Map<string, Reminder[]>;
+    report: ReminderReconcileReport;
+}
+
+/**
+ * Check every task's reminders against the notifications the OS still has
+ * scheduled. Future reminders of active tasks get back a missing notification;
+ * notifications of archived or deleted tasks, and reminder notifications no
+ * task refers to, are cancelled. Reminders that are past or no longer active
+ * lose their notification id.
+ */
+export async function reconcileReminderNotifications(todos: Todo[]): Promise<ReminderReconcileResult> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const scheduledIds = new Set(scheduled.map((n) => n.identifier));
+    const referencedIds = new Set<string>();
+    const cancelledIds = new Set<string>();
+    const result: ReminderReconcileResult = {
+        reminders: new Map(),
+        report: { rescheduled: 0, cancelled: 0 },
+    };
+    const now = new Date();
+
+    for (const todo of todos) {
+        const isActive = !todo.archivedAt && !todo.deletedAt;
+        let changed = false;
+        const reminders: Reminder[] = [];
+
+        for (const reminder of getReminders(todo)) {
+            const { notificationId } = reminder;
+            const isScheduled = !!notificationId && scheduledIds.has(notificationId);
+
+            if (isActive && new Date(reminder.date) > now) {
+                if (isScheduled) {
+                    referencedIds.add(notificationId!);
+                    reminders.push(reminder);
+                } else {
+                    const id = await scheduleNotification(todo.text, new Date(reminder.date), {
+                        todoId: todo.id,
+                        reminderId: reminder.id,
+                    });
+                    referencedIds.add(id);
+                    reminders.push({ ...reminder, notificationId: id });
+                    result.report.rescheduled++;
+                    changed = true;
+                }
+                continue;
+            }
+
+            if (isScheduled && !cancelledIds.has(notificationId!)) {
+                await cancelNotification(notificationId!);
+                cancelledIds.add(notificationId!);
+                result.report.cancelled++;
+            }
+            reminders.push(notificationId ? { ...reminder, notificationId: undefined } : reminder);
+            changed = changed || !!notificationId;
+        }
+
+        if (changed) {
+            result.reminders.set(todo.id, reminders);
+        }
+    }
+
+    // Reminder notifications left behind by tasks that were replaced or removed.
+    // Reminders scheduled before notifications carried task data have no type.
+    for (const notification of scheduled) {
+        const data = notification.content.data as Record<string, unknown> | undefined;
+        const isReminder = data?.type === "reminder" || data?.type === undefined;
+        const id = notification.identifier;
+        if (isReminder && !referencedIds.has(id) && !cancelledIds.has(id)) {
+            await cancelNotification(id);
+            cancelledIds.add(id);
+            result.report.cancelled++;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Describe what reconciliation fixed, or null when everything was in order
+ */
+export function formatReconcileReport(report: ReminderReconcileReport): string | null {
+    const parts = [
+        ...(report.rescheduled > 0
+            ? [`${report.rescheduled} missing ${report.rescheduled === 1 ? "reminder" : "reminders"} scheduled again`]
+            : []),
+        ...(report.cancelled > 0
+            ? [`${report.cancelled} stale ${report.cancelled === 1 ? "notification" : "notifications"} cancelled`]
+            : []),
+    ];
+    return parts.length > 0 ? `${parts.join(" and ")}.` : null;
+}
+
 export type PomodoroTimerState = "work" | "shortBreak" | "longBreak";
 
 export interface PomodoroNotificationData {
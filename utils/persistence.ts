@@ -0,0 +1,156 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Todo } from "@/types/todo";
+import { TodoList } from "@/types/todoList";
+import { AppSettings } from "@/types/settings";
+
+const MAX_SNAPSHOTS = 5;
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+export type Validator<T> = (value: unknown) => value is T;
+
+export interface Snapshot {
+    savedAt: string;
+    data: string;
+}
+
+export type LoadResult<T> =
+    | { status: "ok"; data: T }
+    | { status: "empty" }
+    | { status: "corrupt"; error: string };
+
+export class PersistenceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PersistenceError";
+    }
+}
+
+const getSnapshotsKey = (key: string) => `${key}__snapshots`;
+
+// Last snapshot time per key, so most saves skip reading the snapshot ring
+const lastSnapshotAt = new Map<string, number>();
+
+/**
+ * Read and validate a stored value. Unparseable or invalid data is reported
+ * as "corrupt" instead of being silently replaced with an empty value.
+ */
+export async function loadValidated<T>(key: string, validate: Validator<T>): Promise<LoadResult<T>> {
+    const stored = await AsyncStorage.getItem(key);
+    if (stored === null) {
+        return { status: "empty" };
+    }
+
+    try {
+        const parsed: unknown = JSON.parse(stored);
+        if (!validate(parsed)) {
+            return { status: "corrupt", error: "Stored data has an unexpected shape" };
+        }
+        return { status: "ok", data: parsed };
+    } catch (e) {
+        return { status: "corrupt", error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+/**
+ * Validate and write a value. The value is round-tripped through JSON and
+ * checked before it replaces the previous version; an invalid value throws
+ * a PersistenceError and leaves storage untouched.
+ * A copy is added to the rotating snapshots (see recordSnapshot).
+ */
+export async function saveValidated<T>(key: string, data: T, validate: Validator<T>): Promise<void> {
+    const serialized = JSON.stringify(data);
+    if (!validate(JSON.parse(serialized))) {
+        throw new PersistenceError(`Refusing to save invalid data to ${key}`);
+    }
+
+    await AsyncStorage.setItem(key, serialized);
+    await recordSnapshot(key, () => serialized);
+}
+
+/**
+ * Add a copy to the rotating snapshots for a key, at most every SNAPSHOT_INTERVAL_MS.
+ * `serialize` is only called when a snapshot is actually taken.
+ */
+export async function recordSnapshot(key: string, serialize: () => string): Promise<void> {
+    const now = Date.now();
+    if (now - (lastSnapshotAt.get(key) ?? 0) < SNAPSHOT_INTERVAL_MS) {
+        return;
+    }
+
+    const snapshots = await getSnapshots(key);
+    const newest = snapshots[0] ? new Date(snapshots[0].savedAt).getTime() : 0;
+    if (now - newest >= SNAPSHOT_INTERVAL_MS) {
+        const next: Snapshot[] = [
+            { savedAt: new Date(now).toISOString(), data: serialize() },
+            ...snapshots,
+        ].slice(0, MAX_SNAPSHOTS);
+        await AsyncStorage.setItem(getSnapshotsKey(key), JSON.stringify(next));
+        lastSnapshotAt.set(key, now);
+    } else {
+        lastSnapshotAt.set(key, newest);
+    }
+}
+
+/**
+ * Get the stored snapshots for a key, newest first
+ */
+export async function getSnapshots(key: string): Promise<Snapshot[]> {
+    try {
+        const stored = await AsyncStorage.getItem(getSnapshotsKey(key));
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error(`Failed to read snapshots for ${key}:`, e);
+        return [];
+    }
+}
+
+/**
+ * Replace the current value with a snapshot, after checking the snapshot itself is valid.
+ * `write` stores the data somewhere other than the AsyncStorage key (e.g. the database).
+ */
+export async function restoreSnapshot<T>(
+    key: string,
+    snapshot: Snapshot,
+    validate: Validator<T>,
+    write?: (data: T) => Promise<void>
+): Promise<void> {
+    const parsed: unknown = JSON.parse(snapshot.data);
+    if (!validate(parsed)) {
+        throw new PersistenceError("This snapshot is damaged and cannot be restored");
+    }
+    if (write) {
+        await write(parsed);
+    } else {
+        await AsyncStorage.setItem(key, snapshot.data);
+    }
+}
+
+/**
+ * Drop the current value so the app starts empty. Snapshots are kept.
+ */
+export async function discardStoredValue(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isTodoArray: Validator<Todo[]> = (value): value is Todo[] =>
+    Array.isArray(value) &&
+    value.every(
+        (t) =>
+            isObject(t) &&
+            typeof t.id === "string" &&
+            typeof t.text === "string" &&
+            typeof t.completed === "boolean"
+    );
+
+export const isTodoListArray: Validator<TodoList[]> = (value): value is TodoList[] =>
+    Array.isArray(value) &&
+    value.every((l) => isObject(l) && typeof l.id === "string" && typeof l.name === "string");
+
+export const isAppSettings: Validator<AppSettings> = (value): value is AppSettings =>
+    isObject(value) &&
+    (value.pomodoro === undefined || isObject(value.pomodoro)) &&
+    (value.trashRetentionDays === undefined || typeof value.trashRetentionDays === "number") &&
+    (value.holidays === undefined || Array.isArray(value.holidays));
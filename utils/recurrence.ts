@@ -1,17 +1,209 @@
-import {DAYS_OF_WEEK, RecurrencePattern} from "@/types/recurrence";
-import {Todo} from "@/types/todo";
+import {DAYS_OF_WEEK, MONTHS, OccurrenceOutcome, RecurrencePattern, WEEK_OF_MONTH_OPTIONS} from "@/types/recurrence";
+import {Reminder, SeriesTemplate, Todo, getReminders} from "@/types/todo";
+import {Holiday} from "@/types/settings";
+import {getRelativeReminderDate} from "@/utils/reminders";
+import {
+    endOfDayInTimeZone,
+    fromZonedLocal,
+    getDeviceTimeZone,
+    getTodoTimeZone,
+    shiftWallTime,
+    toZonedLocal,
+} from "@/utils/timezone";
+
+// Fields an occurrence's one-off edits must not pass on to the next one
+const SERIES_TEMPLATE_FIELDS = ["text", "dueDate", "reminders", "recurrence", "subtasks", "priority"] as const;
+
+// Stop looking for an allowed date after this many excluded ones in a row
+const MAX_EXCLUDED_IN_A_ROW = 366;
 
 /**
- * Calculate the next occurrence date based on the recurrence pattern
+ * Local calendar date as YYYY-MM-DD, the form exception dates are stored in
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Whether a date is one of the pattern's exception dates or, if the pattern
+ * avoids holidays, in the holiday list
+ */
+export function isExcludedDate(date: Date, pattern: RecurrencePattern, holidays: Holiday[] = []): boolean {
+    const key = toDateKey(date);
+    if (pattern.exceptionDates?.includes(key)) return true;
+    return !!pattern.skipHolidays && holidays.some((h) => h.date === key || h.date === key.slice(5));
+}
+
+/**
+ * Calculate the next occurrence date based on the recurrence pattern.
+ * Excluded dates are passed over when the pattern skips them; patterns that
+ * shift them get the scheduled date, to be moved by resolveOccurrenceDate.
  */
 export function getNextOccurrenceDate(
+    currentDate: Date,
+    pattern: RecurrencePattern,
+    holidays: Holiday[] = []
+): Date | null {
+    let next = getNextRuleDate(currentDate, pattern);
+    if (pattern.onExcluded === "shift") return next;
+
+    for (let i = 0; next && isExcludedDate(next, pattern, holidays); i++) {
+        if (i >= MAX_EXCLUDED_IN_A_ROW) return null;
+        next = getNextRuleDate(next, pattern);
+    }
+    return next;
+}
+
+/**
+ * The day an occurrence is actually due. Patterns that shift excluded dates
+ * move them to the next working day (Monday to Friday, not excluded).
+ */
+export function resolveOccurrenceDate(date: Date, pattern: RecurrencePattern, holidays: Holiday[] = []): Date {
+    if (pattern.onExcluded !== "shift" || !isExcludedDate(date, pattern, holidays)) {
+        return date;
+    }
+
+    const shifted = new Date(date);
+    for (let i = 0; i < MAX_EXCLUDED_IN_A_ROW; i++) {
+        shifted.setDate(shifted.getDate() + 1);
+        const day = shifted.getDay();
+        if (day !== 0 && day !== 6 && !isExcludedDate(shifted, pattern, holidays)) {
+            return shifted;
+        }
+    }
+    return date;
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+function parseTimeOfDay(value: string | undefined): number | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Minutes after midnight as "HH:MM"
+ */
+export function toTimeOfDay(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * "HH:MM" for display ("2:00 PM")
+ */
+export function formatTimeOfDay(value: string): string {
+    const minutes = parseTimeOfDay(value) ?? 0;
+    return new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60).toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+    });
+}
+
+/**
+ * The times of day an intra-day schedule is due, as sorted minutes after
+ * midnight. Empty for patterns due once a day.
+ */
+export function getIntraDayTimes(pattern: RecurrencePattern): number[] {
+    const schedule = pattern.intraDay;
+    if (!schedule) return [];
+
+    if (schedule.mode === "times") {
+        const times = (schedule.times || [])
+            .map(parseTimeOfDay)
+            .filter((t): t is number => t !== null);
+        return [...new Set(times)].sort((a, b) => a - b);
+    }
+
+    const from = parseTimeOfDay(schedule.from) ?? 0;
+    const until = parseTimeOfDay(schedule.until) ?? 24 * 60 - 1;
+    const step = Math.max(1, schedule.everyHours || 1) * 60;
+    const times: number[] = [];
+    for (let t = from; t <= until; t += step) {
+        times.push(t);
+    }
+    return times;
+}
+
+function atMinuteOfDay(date: Date, minutes: number): Date {
+    const result = new Date(date);
+    result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return result;
+}
+
+/**
+ * The first time an intra-day schedule is due on the day of `date`, no
+ * earlier than `notBefore`, or the first time on the next day once the day's
+ * times have passed. Patterns without times of day return `date` unchanged.
+ */
+export function alignToIntraDay(date: Date, pattern: RecurrencePattern, notBefore: Date = new Date()): Date {
+    const times = getIntraDayTimes(pattern);
+    if (times.length === 0) return date;
+
+    const day = new Date(date);
+    for (let i = 0; i < 2; i++) {
+        for (const minutes of times) {
+            const slot = atMinuteOfDay(day, minutes);
+            if (slot >= notBefore) return slot;
+        }
+        day.setDate(day.getDate() + 1);
+    }
+    return atMinuteOfDay(date, times[0]);
+}
+
+/**
+ * The due date for a picked day (device-local fields, as for
+ * endOfDayInTimeZone): the end of that day in the task's time zone, or the
+ * first time an intra-day schedule has left on it
+ */
+export function getDueDateForDay(day: Date, pattern: RecurrencePattern | undefined, timeZone: string): Date {
+    if (!pattern || getIntraDayTimes(pattern).length === 0) {
+        return endOfDayInTimeZone(day, timeZone);
+    }
+    const startOfDay = new Date(day);
+    startOfDay.setHours(0, 0, 0, 0);
+    const aligned = alignToIntraDay(startOfDay, pattern, toZonedLocal(new Date(), timeZone));
+    return fromZonedLocal(aligned, timeZone);
+}
+
+/**
+ * Move a due date onto the times of a new or changed schedule, keeping its day
+ */
+export function realignDueDate(
+    dueDate: string | undefined,
+    pattern: RecurrencePattern | undefined,
+    timeZone: string
+): string | undefined {
+    if (!dueDate) return dueDate;
+    return getDueDateForDay(toZonedLocal(new Date(dueDate), timeZone), pattern, timeZone).toISOString();
+}
+
+/**
+ * The next date the rule itself produces, before any exclusions
+ */
+function getNextRuleDate(
     currentDate: Date,
     pattern: RecurrencePattern
 ): Date | null {
     if (pattern.type === "once") return null;
 
+    // Intra-day schedules use up the current day's times before moving on
+    const times = getIntraDayTimes(pattern);
+    if (times.length > 0) {
+        const minuteOfDay = currentDate.getHours() * 60 + currentDate.getMinutes();
+        const laterToday = times.find((t) => t > minuteOfDay);
+        if (laterToday !== undefined) {
+            return atMinuteOfDay(currentDate, laterToday);
+        }
+    }
+
     const interval = pattern.interval || 1;
-    const next = new Date(currentDate);
+    let next = new Date(currentDate);
 
     switch (pattern.type) {
         case "daily":
@@ -20,16 +212,22 @@ export function getNextOccurrenceDate(
 
         case "weekly":
             if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-                return getNextDayOfWeekOccurrence(currentDate, pattern.daysOfWeek, interval, pattern.endDate);
+                const byDay = getNextDayOfWeekOccurrence(currentDate, pattern.daysOfWeek, interval, pattern.endDate);
+                return byDay && times.length > 0 ? atMinuteOfDay(byDay, times[0]) : byDay;
             }
             next.setDate(next.getDate() + (7 * interval));
             break;
 
         case "monthly":
-            next.setMonth(next.getMonth() + interval);
+        case "yearly":
+            next = getNextMonthlyOccurrence(currentDate, pattern, interval);
             break;
     }
 
+    if (times.length > 0) {
+        next = atMinuteOfDay(next, times[0]);
+    }
+
     // Check if the next date exceeds the end date
     if (pattern.endDate) {
         const endDate = new Date(pattern.endDate);
@@ -95,10 +293,193 @@ function getNextDayOfWeekOccurrence(
     return next;
 }
 
+/**
+ * List up to `count` occurrence dates of a pattern, beginning with `first`
+ * (the date of occurrence number `firstNumber`), or with the pattern's start
+ * date if that is later. Honors the interval, days of the week, end date,
+ * occurrence limit and excluded dates. Creates nothing, so views can project
+ * future instances.
+ */
+export function getUpcomingOccurrences(
+    pattern: RecurrencePattern,
+    first: Date,
+    count: number,
+    firstNumber: number = 1,
+    holidays: Holiday[] = []
+): Date[] {
+    if (pattern.type === "once" || count <= 0) return [];
+
+    const startDate = pattern.startDate ? new Date(pattern.startDate) : null;
+    let current: Date | null = startDate && startDate > first ? startDate : new Date(first);
+    const anchored = anchorRecurrencePattern(pattern, current);
+    const endDate = pattern.endDate ? new Date(pattern.endDate) : null;
+    endDate?.setHours(23, 59, 59, 999);
+
+    const dates: Date[] = [];
+    let number = firstNumber;
+    while (current && dates.length < count) {
+        if (endDate && current > endDate) break;
+        if (anchored.occurrences && number > anchored.occurrences) break;
+
+        dates.push(number === firstNumber ? current : resolveOccurrenceDate(current, anchored, holidays));
+        current = getNextOccurrenceDate(current, anchored, holidays);
+        number++;
+    }
+    return dates;
+}
+
+/**
+ * Number of days in a month (month is 0-based)
+ */
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * The day a monthly or yearly rule falls on in a given month. Fixed days
+ * past the end of a shorter month land on its last day.
+ */
+function resolveMonthDay(
+    year: number,
+    month: number,
+    pattern: RecurrencePattern,
+    fallbackDay: number
+): number {
+    const lastDay = daysInMonth(year, month);
+
+    switch (pattern.monthlyBy) {
+        case "lastDay":
+            return lastDay;
+        case "weekday": {
+            const weekday = pattern.weekday ?? 0;
+            const week = pattern.weekOfMonth ?? 1;
+            if (week < 0) {
+                const lastWeekday = new Date(year, month, lastDay).getDay();
+                return lastDay - ((lastWeekday - weekday + 7) % 7);
+            }
+            const firstWeekday = new Date(year, month, 1).getDay();
+            return 1 + ((weekday - firstWeekday + 7) % 7) + 7 * (week - 1);
+        }
+        default:
+            return Math.min(pattern.dayOfMonth ?? fallbackDay, lastDay);
+    }
+}
+
+/**
+ * Get the next occurrence of a monthly or yearly rule, keeping the time of day.
+ * A rule day still ahead in the current month (or in the rule's month this
+ * year) comes first; otherwise the rule moves on by the interval.
+ */
+function getNextMonthlyOccurrence(
+    currentDate: Date,
+    pattern: RecurrencePattern,
+    interval: number
+): Date {
+    const isYearly = pattern.type === "yearly";
+    const fallbackDay = currentDate.getDate();
+    const year = currentDate.getFullYear();
+    const month = isYearly ? pattern.month ?? currentDate.getMonth() : currentDate.getMonth();
+
+    // setFullYear with all three parts never overflows into the next month
+    const next = new Date(currentDate);
+    next.setFullYear(year, month, resolveMonthDay(year, month, pattern, fallbackDay));
+    if (next > currentDate) {
+        return next;
+    }
+
+    const target = new Date(year, month + (isYearly ? interval * 12 : interval), 1);
+    next.setFullYear(
+        target.getFullYear(),
+        target.getMonth(),
+        resolveMonthDay(target.getFullYear(), target.getMonth(), pattern, fallbackDay)
+    );
+    return next;
+}
+
+/**
+ * Pin a monthly or yearly rule without an explicit day to the day (and month)
+ * of the given date, so clamping in short months does not make it drift
+ */
+export function anchorRecurrencePattern(pattern: RecurrencePattern, date: Date): RecurrencePattern {
+    if (pattern.type !== "monthly" && pattern.type !== "yearly") return pattern;
+
+    const anchored = {...pattern};
+    if ((!anchored.monthlyBy || anchored.monthlyBy === "day") && anchored.dayOfMonth === undefined) {
+        anchored.dayOfMonth = date.getDate();
+    }
+    if (anchored.type === "yearly" && anchored.month === undefined) {
+        anchored.month = date.getMonth();
+    }
+    return anchored;
+}
+
+function ordinal(n: number): string {
+    const suffix = n % 100 >= 11 && n % 100 <= 13
+        ? "th"
+        : ["th", "st", "nd", "rd"][n % 10] || "th";
+    return `${n}${suffix}`;
+}
+
+/**
+ * Describe the day a monthly or yearly rule falls on ("the 2nd Tuesday")
+ */
+function formatMonthDay(pattern: RecurrencePattern): string | null {
+    switch (pattern.monthlyBy) {
+        case "lastDay":
+            return "the last day";
+        case "weekday": {
+            const week = WEEK_OF_MONTH_OPTIONS.find((w) => w.value === pattern.weekOfMonth);
+            const day = DAYS_OF_WEEK[pattern.weekday ?? 0];
+            return `the ${(week?.label || "1st").toLowerCase()} ${day.label}`;
+        }
+        default:
+            return pattern.dayOfMonth ? `the ${ordinal(pattern.dayOfMonth)}` : null;
+    }
+}
+
+/**
+ * Describe the date a yearly rule falls on ("March 15", "the last Friday of May")
+ */
+function formatYearDay(pattern: RecurrencePattern): string | null {
+    if (pattern.month === undefined) return null;
+    const monthName = MONTHS[pattern.month];
+
+    if (pattern.monthlyBy === "weekday" || pattern.monthlyBy === "lastDay") {
+        return `${formatMonthDay(pattern)} of ${monthName}`;
+    }
+    return pattern.dayOfMonth ? `${monthName} ${pattern.dayOfMonth}` : monthName;
+}
+
 /**
  * Format recurrence pattern for display
  */
 export function formatRecurrencePattern(pattern: RecurrencePattern): string {
+    let text = formatRecurrenceSchedule(pattern);
+    if (pattern.type === "once") return text;
+
+    text += formatIntraDay(pattern);
+
+    if (pattern.repeatFrom === "completion") {
+        text = `${text} after completion`;
+    }
+    if (pattern.occurrences) {
+        text = `${text}, ${pattern.occurrences} times`;
+    }
+
+    const exceptionCount = pattern.exceptionDates?.length || 0;
+    const excluded = [
+        ...(pattern.skipHolidays ? ["holidays"] : []),
+        ...(exceptionCount > 0 ? [`${exceptionCount} ${exceptionCount === 1 ? "date" : "dates"}`] : []),
+    ].join(" and ");
+    if (excluded) {
+        text = pattern.onExcluded === "shift"
+            ? `${text}, moving ${excluded} to the next working day`
+            : `${text}, skipping ${excluded}`;
+    }
+    return text;
+}
+
+function formatRecurrenceSchedule(pattern: RecurrencePattern): string {
     const interval = pattern.interval || 1;
 
     switch (pattern.type) {
@@ -115,13 +496,41 @@ export function formatRecurrencePattern(pattern: RecurrencePattern): string {
                 return `Every ${interval} weeks on ${daysText}`;
             }
             return interval === 1 ? "Every week" : `Every ${interval} weeks`;
-        case "monthly":
+        case "monthly": {
+            const dayText = formatMonthDay(pattern);
+            if (dayText) {
+                return interval === 1 ? `Monthly on ${dayText}` : `Every ${interval} months on ${dayText}`;
+            }
             return interval === 1 ? "Every month" : `Every ${interval} months`;
+        }
+        case "yearly": {
+            const dateText = formatYearDay(pattern);
+            const base = interval === 1 ? "Every year" : `Every ${interval} years`;
+            return dateText ? `${base} on ${dateText}` : base;
+        }
         default:
             return "Unknown";
     }
 }
 
+/**
+ * Describe an intra-day schedule (" at 8:00 AM & 8:00 PM", ", every 3 hours from 9:00 AM to 9:00 PM")
+ */
+function formatIntraDay(pattern: RecurrencePattern): string {
+    const schedule = pattern.intraDay;
+    if (!schedule || getIntraDayTimes(pattern).length === 0) return "";
+
+    if (schedule.mode === "interval") {
+        const hours = schedule.everyHours || 1;
+        const every = hours === 1 ? "every hour" : `every ${hours} hours`;
+        return `, ${every} from ${formatTimeOfDay(schedule.from || "00:00")} to ${formatTimeOfDay(schedule.until || "23:59")}`;
+    }
+
+    const times = getIntraDayTimes(pattern).map((t) => formatTimeOfDay(toTimeOfDay(t)));
+    if (times.length === 1) return ` at ${times[0]}`;
+    return ` at ${times.slice(0, -1).join(", ")} & ${times[times.length - 1]}`;
+}
+
 /**
  * Format days of week array to readable string
  */
@@ -142,6 +551,12 @@ function formatDaysOfWeek(days: number[]): string {
  * Get short label for recurrence pattern
  */
 export function getRecurrenceShortLabel(pattern: RecurrencePattern): string {
+    const label = getScheduleShortLabel(pattern);
+    const timesPerDay = pattern.type === "once" ? 0 : getIntraDayTimes(pattern).length;
+    return timesPerDay > 1 ? `${label} ×${timesPerDay}` : label;
+}
+
+function getScheduleShortLabel(pattern: RecurrencePattern): string {
     const interval = pattern.interval || 1;
 
     switch (pattern.type) {
@@ -155,87 +570,304 @@ export function getRecurrenceShortLabel(pattern: RecurrencePattern): string {
                 return interval === 1 ? daysShort : `${interval}W ${daysShort}`;
             }
             return interval === 1 ? "WEEKLY" : `${interval}W`;
-        case "monthly":
+        case "monthly": {
+            const dayShort = formatMonthDayShort(pattern);
+            if (dayShort) {
+                return interval === 1 ? dayShort : `${interval}MO ${dayShort}`;
+            }
             return interval === 1 ? "MONTHLY" : `${interval}MO`;
+        }
+        case "yearly": {
+            if (pattern.month === undefined) {
+                return interval === 1 ? "YEARLY" : `${interval}Y`;
+            }
+            const monthShort = MONTHS[pattern.month].substring(0, 3).toUpperCase();
+            const dateShort = pattern.monthlyBy === "weekday" || pattern.monthlyBy === "lastDay"
+                ? `${monthShort} ${formatMonthDayShort(pattern)}`
+                : `${monthShort} ${pattern.dayOfMonth ?? ""}`.trim();
+            return interval === 1 ? dateShort : `${interval}Y ${dateShort}`;
+        }
         default:
             return "?";
     }
 }
 
+// Use unique identifiers to distinguish S (Sun) from S (Sat)
+const DAY_SHORT_LABELS = ["Su", "M", "Tu", "W", "Th", "F", "Sa"];
+
 /**
  * Format days to short form (e.g., "MWF")
  */
 function formatDaysShort(days: number[]): string {
     const sortedDays = [...days].sort((a, b) => a - b);
-    // Use unique identifiers to distinguish S (Sun) from S (Sat)
-    const shortLabels = ["Su", "M", "Tu", "W", "Th", "F", "Sa"];
-    return sortedDays.map(d => shortLabels[d]).join("");
+    return sortedDays.map(d => DAY_SHORT_LABELS[d]).join("");
+}
+
+/**
+ * Format the day of a monthly rule in short form (e.g., "15TH", "2ND TU", "LAST F")
+ */
+function formatMonthDayShort(pattern: RecurrencePattern): string | null {
+    switch (pattern.monthlyBy) {
+        case "lastDay":
+            return "LAST DAY";
+        case "weekday": {
+            const week = WEEK_OF_MONTH_OPTIONS.find((w) => w.value === pattern.weekOfMonth);
+            return `${week?.label || "1st"} ${DAY_SHORT_LABELS[pattern.weekday ?? 0]}`.toUpperCase();
+        }
+        default:
+            return pattern.dayOfMonth ? ordinal(pattern.dayOfMonth).toUpperCase() : null;
+    }
 }
 
 /**
- * Create the next recurring instance
+ * Reminders for the next occurrence: relative ones follow the new due date,
+ * others keep their local time relative to it, whatever the DST offset.
+ * Intra-day series without reminders are reminded at each occurrence's time.
+ */
+function getNextReminders(series: Todo, dueInstant: Date, timeZone: string): Reminder[] {
+    const reminders = series.dueDate ? series.reminders || [] : [];
+    if (reminders.length === 0) {
+        return series.recurrence && getIntraDayTimes(series.recurrence).length > 0
+            ? [{id: `${Date.now()}-${Math.random()}`, date: dueInstant.toISOString()}]
+            : [];
+    }
+    return reminders.map((r) =>
+        r.offsetMinutes === undefined
+            ? {
+                  id: `${Date.now()}-${Math.random()}`,
+                  date: shiftWallTime(new Date(r.date), new Date(series.dueDate!), dueInstant, timeZone).toISOString(),
+              }
+            : {
+                  id: `${Date.now()}-${Math.random()}`,
+                  date: getRelativeReminderDate(r.offsetMinutes, dueInstant, timeZone).toISOString(),
+                  offsetMinutes: r.offsetMinutes,
+              }
+    );
+}
+
+/**
+ * Create the next recurring instance. Patterns that repeat from completion
+ * count from `completedAt` instead of the due date. Dates are worked out on
+ * the wall clock of the task's time zone, so DST changes do not move them.
+ * A `skipped` occurrence does not count toward the occurrence limit.
  */
 export function createNextRecurringTodo(
     completedTodo: Todo,
-    colorVariant: number
+    colorVariant: number,
+    completedAt: Date = new Date(),
+    holidays: Holiday[] = [],
+    skipped = false
 ): Todo | null {
-    if (!completedTodo.recurrence || completedTodo.recurrence.type === "once") {
+    // One-off edits stay with this occurrence; the series continues from its template
+    const series: Todo = {...completedTodo, ...completedTodo.seriesTemplate};
+    if (!series.recurrence || series.recurrence.type === "once") {
         return null;
     }
 
-    // Calculate the base date for the next occurrence
-    const baseDate = completedTodo.dueDate
-        ? new Date(completedTodo.dueDate)
-        : new Date();
+    // Counted series stop once the last occurrence is done
+    const occurrence = getOccurrenceProgress(series);
+    if (occurrence && !skipped && occurrence.current >= occurrence.total) {
+        return null;
+    }
 
-    const nextDueDate = getNextOccurrenceDate(baseDate, completedTodo.recurrence);
+    // Calculate the base date for the next occurrence, as local time in the task's zone
+    // A moved occurrence still counts from the date the series gave it
+    const timeZone = getTodoTimeZone(completedTodo);
+    const scheduledFor = completedTodo.occurrenceDate || completedTodo.dueDate;
+    const baseDate = toZonedLocal(
+        series.recurrence.repeatFrom === "completion" || !scheduledFor ? completedAt : new Date(scheduledFor),
+        timeZone
+    );
 
-    if (!nextDueDate) {
+    const recurrence = anchorRecurrencePattern(series.recurrence, baseDate);
+    const scheduledDate = getNextOccurrenceDate(baseDate, recurrence, holidays);
+
+    if (!scheduledDate) {
         return null; // Recurrence has ended
     }
 
-    // Set the due date to end of day
-    nextDueDate.setHours(23, 59, 59, 999);
+    // Due by the end of the day, unless the schedule has times of day
+    if (getIntraDayTimes(recurrence).length === 0) {
+        scheduledDate.setHours(23, 59, 59, 999);
+    }
+    const nextDueDate = resolveOccurrenceDate(scheduledDate, recurrence, holidays);
 
     // Check end date
-    if (completedTodo.recurrence.endDate) {
-        const endDate = new Date(completedTodo.recurrence.endDate);
+    if (series.recurrence.endDate) {
+        const endDate = toZonedLocal(new Date(series.recurrence.endDate), timeZone);
         endDate.setHours(23, 59, 59, 999);
-        if (nextDueDate > endDate) {
+        if (scheduledDate > endDate) {
             return null;
         }
     }
 
+    const dueInstant = fromZonedLocal(nextDueDate, timeZone);
+
     return {
         id: Date.now().toString(),
-        text: completedTodo.text,
+        text: series.text,
         completed: false,
         colorVariant: colorVariant,
         listId: completedTodo.listId,
-        dueDate: nextDueDate.toISOString(),
-        recurrence: {...completedTodo.recurrence},
+        dueDate: dueInstant.toISOString(),
+        // Shifted off an excluded date; the series continues from the scheduled one
+        ...(nextDueDate !== scheduledDate && {occurrenceDate: fromZonedLocal(scheduledDate, timeZone).toISOString()}),
+        recurrence: {...recurrence},
         isRecurring: true,
         parentRecurrenceId: completedTodo.parentRecurrenceId || completedTodo.id,
         recurrenceCount: (completedTodo.recurrenceCount || 0) + 1,
-        priority: completedTodo.priority,
-        subtasks: (completedTodo.subtasks || []).map((s) => ({
+        ...((completedTodo.skippedCount || skipped) && {
+            skippedCount: (completedTodo.skippedCount || 0) + (skipped ? 1 : 0),
+        }),
+        priority: series.priority,
+        subtasks: (series.subtasks || []).map((s) => ({
             ...s,
             id: `${Date.now()}-${Math.random()}`,
             completed: false,
         })),
-        reminders: completedTodo.dueDate
-            ? (completedTodo.reminders || []).map((r) => ({
-                  id: `${Date.now()}-${Math.random()}`,
-                  date: new Date(
-                      new Date(r.date).getTime() -
-                      new Date(completedTodo.dueDate!).getTime() +
-                      nextDueDate.getTime()
-                  ).toISOString(),
-              }))
-            : [],
+        reminders: getNextReminders(series, dueInstant, timeZone),
+        ...(completedTodo.timeMode && {timeMode: completedTodo.timeMode}),
+        timeZone: completedTodo.timeMode === "anchored" ? timeZone : getDeviceTimeZone(),
+    };
+}
+
+/**
+ * Due dates of the next `count` occurrences after `todo`, created the way
+ * completing each one on time would: from the series template, in the task's
+ * time zone. Ends early when the series does.
+ */
+export function getUpcomingSeriesDates(todo: Todo, count: number, holidays: Holiday[] = []): Date[] {
+    const dates: Date[] = [];
+    let current = todo;
+    while (dates.length < count) {
+        const completedAt = current.dueDate ? new Date(current.dueDate) : new Date();
+        const next = createNextRecurringTodo(current, current.colorVariant || 0, completedAt, holidays);
+        if (!next?.dueDate) break;
+        dates.push(new Date(next.dueDate));
+        current = next;
+    }
+    return dates;
+}
+
+/**
+ * Move one occurrence to another day without shifting the rest of the series.
+ * The date the series scheduled it for is kept for the next occurrence, and
+ * reminders move along with the due date. Callers reschedule notifications.
+ */
+export function moveOccurrence(todo: Todo, date: Date): Todo {
+    const previousDueDate = todo.dueDate ? new Date(todo.dueDate) : null;
+    const dueDate = new Date(date);
+    if (previousDueDate) {
+        // Keep the time of day
+        dueDate.setHours(
+            previousDueDate.getHours(),
+            previousDueDate.getMinutes(),
+            previousDueDate.getSeconds(),
+            previousDueDate.getMilliseconds()
+        );
+    } else {
+        dueDate.setHours(23, 59, 59, 999);
+    }
+    const offset = previousDueDate ? dueDate.getTime() - previousDueDate.getTime() : 0;
+
+    return {
+        ...todo,
+        dueDate: dueDate.toISOString(),
+        occurrenceDate: todo.occurrenceDate || todo.dueDate,
+        reminders: getReminders(todo).map(({notificationId, ...r}) => ({
+            ...r,
+            date: new Date(new Date(r.date).getTime() + offset).toISOString(),
+        })),
+    };
+}
+
+/**
+ * The fields of a task that its series copies into the next occurrence.
+ * With `onlyGiven`, fields missing from the input are left out rather than
+ * recorded as unset. Reminders lose their notification ids, which belong to
+ * this occurrence.
+ */
+function toSeriesTemplate(fields: Partial<Todo>, onlyGiven = false): SeriesTemplate {
+    const template: SeriesTemplate = {};
+    for (const key of SERIES_TEMPLATE_FIELDS) {
+        if (!onlyGiven || key in fields) {
+            Object.assign(template, {[key]: fields[key]});
+        }
+    }
+    if (template.reminders) {
+        template.reminders = template.reminders.map(({notificationId: _notificationId, ...r}) => r);
+    }
+    return template;
+}
+
+/**
+ * Changes that apply to one occurrence only. The series' current values are
+ * kept as its template, and a new due date keeps the old one as occurrenceDate,
+ * so the next occurrence is created as if this one had not been edited.
+ */
+export function editThisOccurrence(todo: Todo, changes: Partial<Todo>): Partial<Todo> {
+    const dueDateChanged = "dueDate" in changes && changes.dueDate !== todo.dueDate;
+    return {
+        ...changes,
+        seriesTemplate: todo.seriesTemplate || toSeriesTemplate(todo),
+        ...(dueDateChanged && !todo.occurrenceDate && {occurrenceDate: todo.dueDate}),
     };
 }
 
+/**
+ * Changes that apply to this and future occurrences. A new due date becomes
+ * the date the series counts from.
+ */
+export function editThisAndFuture(todo: Todo, changes: Partial<Todo>): Partial<Todo> {
+    const dueDateChanged = "dueDate" in changes && changes.dueDate !== todo.dueDate;
+    return {
+        ...changes,
+        ...(dueDateChanged && {occurrenceDate: undefined}),
+        ...(todo.seriesTemplate && {seriesTemplate: {...todo.seriesTemplate, ...toSeriesTemplate(changes, true)}}),
+    };
+}
+
+/**
+ * Which occurrence of a counted series a task is ("3 of 10"). Skipped
+ * occurrences are not counted. Returns null for series without an occurrence limit.
+ */
+export function getOccurrenceProgress(todo: Todo): { current: number; total: number } | null {
+    if (!todo.recurrence?.occurrences || todo.recurrence.type === "once") return null;
+    return {
+        current: (todo.recurrenceCount || 0) - (todo.skippedCount || 0) + 1,
+        total: todo.recurrence.occurrences,
+    };
+}
+
+/**
+ * The id shared by every instance of a series: the first instance's own id
+ */
+export function getSeriesId(todo: Todo): string {
+    return todo.parentRecurrenceId || todo.id;
+}
+
+/**
+ * All instances of a series, oldest first
+ */
+export function getSeriesInstances(todos: Todo[], seriesId: string): Todo[] {
+    return todos
+        .filter((t) => getSeriesId(t) === seriesId)
+        .sort((a, b) => (a.recurrenceCount || 0) - (b.recurrenceCount || 0));
+}
+
+/**
+ * How an archived occurrence went. Done after its due date counts as late;
+ * occurrences without a due date are always on time. Null while still open.
+ */
+export function getOccurrenceOutcome(todo: Todo): OccurrenceOutcome | null {
+    if (!todo.archivedAt) return null;
+    if (todo.skippedAt) return "skipped";
+    if (!todo.dueDate) return "onTime";
+
+    const doneAt = new Date(todo.completedAt || todo.archivedAt);
+    return doneAt > new Date(todo.dueDate) ? "late" : "onTime";
+}
+
 /**
  * Check if a recurrence pattern is active (not "once")
  */
@@ -245,7 +877,7 @@ export function isRecurrenceActive(pattern?: RecurrencePattern): boolean {
 
 /**
  * Migrate old recurrence patterns to the new format.
- * Call this when loading todos from storage to handle legacy data.
+ * Used by the storage migrations in utils/migrations.ts.
  */
 export function migrateRecurrencePattern(pattern: any): RecurrencePattern | undefined {
     if (!pattern || !pattern.type) return undefined;
@@ -272,7 +904,12 @@ export function migrateRecurrencePattern(pattern: any): RecurrencePattern | unde
                 endDate: pattern.endDate,
             };
         case "yearly":
-            return undefined; // Drop silently
+            return {
+                type: "yearly",
+                interval: pattern.interval || 1,
+                startDate: pattern.startDate,
+                endDate: pattern.endDate,
+            };
         case "custom":
             return {
                 type: "weekly",
@@ -0,0 +1,55 @@
+import { Reminder } from "@/types/todo";
+import { fromWallTime, getWallTime } from "@/utils/timezone";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * When a reminder `offsetMinutes` before the due date fires. Offsets count on
+ * the wall clock of the task's time zone, so "1 day before" keeps its time of
+ * day across a DST change.
+ */
+export function getRelativeReminderDate(offsetMinutes: number, dueDate: Date, timeZone: string): Date {
+    return fromWallTime(getWallTime(dueDate, timeZone) - offsetMinutes * MINUTE_MS, timeZone);
+}
+
+/**
+ * Move relative reminders to the due date. Notification ids are kept;
+ * callers reschedule the reminders whose date changed.
+ */
+export function resolveRelativeReminders(
+    reminders: Reminder[],
+    dueDate: string | undefined,
+    timeZone: string
+): Reminder[] {
+    if (!dueDate) return reminders;
+    const due = new Date(dueDate);
+    return reminders.map((r) =>
+        r.offsetMinutes === undefined
+            ? r
+            : { ...r, date: getRelativeReminderDate(r.offsetMinutes, due, timeZone).toISOString() }
+    );
+}
+
+/**
+ * Keep relative reminders on their current dates once there is no due date to follow
+ */
+export function detachRelativeReminders(reminders: Reminder[]): Reminder[] {
+    return reminders.map(({ offsetMinutes: _offsetMinutes, ...r }) => r);
+}
+
+/**
+ * Describe a reminder offset ("At due time", "1 h 30 min before due")
+ */
+export function formatReminderOffset(offsetMinutes: number): string {
+    if (offsetMinutes === 0) return "At due time";
+
+    const days = Math.floor(offsetMinutes / (24 * 60));
+    const hours = Math.floor((offsetMinutes % (24 * 60)) / 60);
+    const minutes = offsetMinutes % 60;
+    const parts = [
+        ...(days > 0 ? [`${days} ${days === 1 ? "day" : "days"}`] : []),
+        ...(hours > 0 ? [`${hours} h`] : []),
+        ...(minutes > 0 ? [`${minutes} min`] : []),
+    ];
+    return `${parts.join(" ")} before due`;
+}
@@ -0,0 +1,231 @@
+import { RecurrencePattern, RecurrenceType } from "@/types/recurrence";
+import { getIntraDayTimes } from "@/utils/recurrence";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQ_BY_TYPE: Partial<Record<RecurrenceType, string>> = {
+    daily: "DAILY",
+    weekly: "WEEKLY",
+    monthly: "MONTHLY",
+    yearly: "YEARLY",
+};
+// BYDAY entries with an optional ordinal ("TU", "2TU", "-1FR")
+const BYDAY_PATTERN = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+export interface ParsedRRule {
+    pattern: RecurrencePattern | null;
+    // Parts of the rule the recurrence engine cannot express
+    unsupported: string[];
+}
+
+export interface FormattedRRule {
+    rule: string | null;
+    // Settings of the pattern an RRULE cannot express
+    unsupported: string[];
+}
+
+/**
+ * Parse an iCalendar date or date-time (20240131, 20240131T090000, 20240131T090000Z)
+ */
+export function parseICalDate(value: string): Date | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    const parts = [
+        parseInt(year, 10),
+        parseInt(month, 10) - 1,
+        parseInt(day, 10),
+        hours ? parseInt(hours, 10) : 0,
+        minutes ? parseInt(minutes, 10) : 0,
+        seconds ? parseInt(seconds, 10) : 0,
+    ] as const;
+
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+/**
+ * Format a date as an iCalendar UTC date-time (20240131T090000Z)
+ */
+export function formatICalDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Translate a RecurrencePattern into an RRULE value (without the "RRULE:" prefix).
+ * The rule is null for patterns that do not repeat. Times of day become
+ * BYHOUR and BYMINUTE, which count on the wall clock of DTSTART.
+ */
+export function formatRRule(pattern: RecurrencePattern): FormattedRRule {
+    const freq = FREQ_BY_TYPE[pattern.type];
+    if (!freq) return { rule: null, unsupported: [] };
+
+    const unsupported: string[] = [];
+    const parts = [`FREQ=${freq}`];
+    if (pattern.interval && pattern.interval > 1) {
+        parts.push(`INTERVAL=${pattern.interval}`);
+    }
+    if (pattern.type === "weekly" && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+        parts.push(`BYDAY=${pattern.daysOfWeek.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+    }
+    if (pattern.type === "yearly" && pattern.month !== undefined) {
+        parts.push(`BYMONTH=${pattern.month + 1}`);
+    }
+    if (pattern.type === "monthly" || pattern.type === "yearly") {
+        if (pattern.monthlyBy === "weekday" && pattern.weekday !== undefined) {
+            parts.push(`BYDAY=${pattern.weekOfMonth ?? 1}${WEEKDAY_CODES[pattern.weekday]}`);
+        } else if (pattern.monthlyBy === "lastDay") {
+            parts.push("BYMONTHDAY=-1");
+        } else if (pattern.dayOfMonth) {
+            parts.push(`BYMONTHDAY=${pattern.dayOfMonth}`);
+        }
+    }
+
+    const times = getIntraDayTimes(pattern);
+    if (times.length > 0) {
+        // Every BYHOUR is paired with every BYMINUTE, so the times must make up that grid
+        const hours = [...new Set(times.map((t) => Math.floor(t / 60)))];
+        const minutes = [...new Set(times.map((t) => t % 60))];
+        if (hours.length * minutes.length === times.length) {
+            parts.push(`BYHOUR=${hours.join(",")}`, `BYMINUTE=${minutes.join(",")}`);
+        } else {
+            unsupported.push("times of day with different minutes");
+        }
+    }
+
+    if (pattern.endDate) {
+        parts.push(`UNTIL=${formatICalDate(new Date(pattern.endDate))}`);
+    } else if (pattern.occurrences) {
+        // RFC 5545 allows either UNTIL or COUNT, not both
+        parts.push(`COUNT=${pattern.occurrences}`);
+    }
+
+    if (pattern.repeatFrom === "completion") {
+        unsupported.push("repeating from completion");
+    }
+    if (pattern.skipHolidays) {
+        unsupported.push("skipping holidays");
+    }
+    if (pattern.onExcluded === "shift") {
+        unsupported.push("moving excluded dates to the next working day");
+    }
+    return { rule: parts.join(";"), unsupported };
+}
+
+/**
+ * Translate an RRULE (with or without the "RRULE:" prefix) into a RecurrencePattern.
+ * Anything the engine cannot represent is listed in `unsupported`;
+ * `pattern` is null when the rule cannot be approximated at all.
+ */
+export function parseRRule(rule: string): ParsedRRule {
+    const unsupported: string[] = [];
+    const parts: Record<string, string> = {};
+
+    for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+        const [key, value] = part.split("=");
+        if (key && value !== undefined) {
+            parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+        }
+    }
+
+    const interval = parts.INTERVAL ? Math.max(1, parseInt(parts.INTERVAL, 10) || 1) : 1;
+    const pattern: RecurrencePattern = { type: "once", interval };
+
+    switch (parts.FREQ) {
+        case "DAILY":
+            pattern.type = "daily";
+            break;
+        case "WEEKLY":
+            pattern.type = "weekly";
+            break;
+        case "MONTHLY":
+            pattern.type = "monthly";
+            break;
+        case "YEARLY":
+            pattern.type = "yearly";
+            break;
+        default:
+            return { pattern: null, unsupported: [`FREQ=${parts.FREQ || "?"}`] };
+    }
+
+    const isMonthly = pattern.type === "monthly" || pattern.type === "yearly";
+
+    if (parts.BYDAY && isMonthly) {
+        // "2nd Tuesday" is BYDAY=2TU, or BYDAY=TU;BYSETPOS=2
+        const match = parts.BYDAY.match(BYDAY_PATTERN);
+        const week = match?.[1] ? parseInt(match[1], 10) : parseInt(parts.BYSETPOS || "", 10);
+        if (match && (week === -1 || (week >= 1 && week <= 4))) {
+            pattern.monthlyBy = "weekday";
+            pattern.weekOfMonth = week;
+            pattern.weekday = WEEKDAY_CODES.indexOf(match[2]);
+            delete parts.BYSETPOS;
+        } else {
+            unsupported.push(`BYDAY=${parts.BYDAY}`);
+        }
+    } else if (parts.BYDAY) {
+        const days: number[] = [];
+        for (const code of parts.BYDAY.split(",")) {
+            const day = WEEKDAY_CODES.indexOf(code);
+            if (day === -1) {
+                unsupported.push(`BYDAY=${code}`);
+            } else {
+                days.push(day);
+            }
+        }
+        if (days.length > 0) {
+            if (pattern.type === "daily" && interval === 1) {
+                // FREQ=DAILY;BYDAY=MO,TU,... is the same as a weekly rule on those days
+                pattern.type = "weekly";
+            }
+            if (pattern.type === "weekly") {
+                pattern.daysOfWeek = days.sort((a, b) => a - b);
+            } else {
+                unsupported.push(`BYDAY with FREQ=${parts.FREQ}`);
+            }
+        }
+    }
+
+    if (parts.BYMONTHDAY && isMonthly && !pattern.monthlyBy) {
+        const day = parseInt(parts.BYMONTHDAY, 10);
+        if (day === -1) {
+            pattern.monthlyBy = "lastDay";
+            delete parts.BYMONTHDAY;
+        } else if (String(day) === parts.BYMONTHDAY && day >= 1 && day <= 31) {
+            pattern.monthlyBy = "day";
+            pattern.dayOfMonth = day;
+            delete parts.BYMONTHDAY;
+        }
+    }
+
+    if (parts.BYMONTH && pattern.type === "yearly") {
+        const month = parseInt(parts.BYMONTH, 10);
+        if (String(month) === parts.BYMONTH && month >= 1 && month <= 12) {
+            pattern.month = month - 1;
+            delete parts.BYMONTH;
+        }
+    }
+
+    if (parts.UNTIL) {
+        const until = parseICalDate(parts.UNTIL);
+        if (until) {
+            pattern.endDate = until.toISOString();
+        } else {
+            unsupported.push(`UNTIL=${parts.UNTIL}`);
+        }
+    }
+
+    if (parts.COUNT) {
+        const count = parseInt(parts.COUNT, 10);
+        if (String(count) === parts.COUNT && count >= 1) {
+            pattern.occurrences = count;
+            delete parts.COUNT;
+        }
+    }
+
+    for (const key of ["COUNT", "BYMONTHDAY", "BYMONTH", "BYSETPOS", "BYYEARDAY", "BYWEEKNO", "BYHOUR", "BYMINUTE"]) {
+        if (parts[key]) {
+            unsupported.push(`${key}=${parts[key]}`);
+        }
+    }
+
+    return { pattern, unsupported };
+}
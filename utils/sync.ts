@@ -0,0 +1,416 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { Todo } from "@/types/todo";
+import { TodoList } from "@/types/todoList";
+import { DELETED_FIELD, SyncChange, SyncConfig, SyncEntity, SyncStatus } from "@/types/sync";
+import {
+    appendSyncChanges,
+    deleteSyncChanges,
+    loadPendingSyncChanges,
+    loadSyncFieldVersions,
+    saveSyncFieldVersions,
+    syncFieldKey,
+} from "@/utils/database";
+
+/**
+ * Sync protocol. Any server that stores an append-only change log per user
+ * will do (see scripts/sync-server.js):
+ *
+ *   POST {endpoint}/users/{userId}/changes   { deviceId, changes }  -> { cursor }
+ *   GET  {endpoint}/users/{userId}/changes?since={cursor}          -> { changes, cursor }
+ *
+ * Every request carries the user's sync key as `Authorization: Bearer {key}`.
+ * The server ties the first key it sees to the user id and turns away any
+ * other, so knowing a user id alone gives no access to its changes.
+ *
+ * The server never resolves anything. Each device keeps, per field, the
+ * newest change it has seen and ignores older ones, so every device ends up
+ * with the same values whatever order the changes arrive in.
+ */
+
+const SYNC_CONFIG_KEY = "@neo_brutal_sync_v1";
+const REQUEST_TIMEOUT_MS = 15000;
+
+export class SyncError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SyncError";
+    }
+}
+
+export interface SyncTransport {
+    push: (deviceId: string, changes: SyncChange[]) => Promise<void>;
+    pull: (cursor: string | null) => Promise<{ changes: SyncChange[]; cursor: string | null }>;
+}
+
+type FieldVersion = Pick<SyncChange, "changedAt" | "deviceId">;
+
+let configPromise: Promise<SyncConfig> | null = null;
+
+async function generateRandomHex(bytes: number): Promise<string> {
+    const randomBytes = await Crypto.getRandomBytesAsync(bytes);
+    return Array.from(randomBytes)
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("")
+        .toUpperCase();
+}
+
+/**
+ * Read the sync settings. A device id and sync key are created on first use.
+ */
+export function loadSyncConfig(): Promise<SyncConfig> {
+    if (!configPromise) {
+        configPromise = (async () => {
+            const stored = await AsyncStorage.getItem(SYNC_CONFIG_KEY);
+            if (stored) {
+                const config = JSON.parse(stored) as SyncConfig;
+                // Settings saved before the server asked for a key
+                if (!config.syncKey) {
+                    config.syncKey = await generateRandomHex(16);
+                    await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+                }
+                return config;
+            }
+
+            const config: SyncConfig = {
+                enabled: false,
+                endpoint: "",
+                deviceId: await generateRandomHex(8),
+                syncKey: await generateRandomHex(16),
+                cursor: null,
+            };
+            await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+            return config;
+        })().catch((e) => {
+            configPromise = null;
+            throw e;
+        });
+    }
+    return configPromise;
+}
+
+export async function saveSyncConfig(config: SyncConfig): Promise<void> {
+    await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+    configPromise = Promise.resolve(config);
+}
+
+/**
+ * Notification ids belong to this device and are never synced
+ */
+function syncValue(entity: SyncEntity, field: string, value: unknown): unknown {
+    if (entity === "todo" && field === "reminders" && Array.isArray(value)) {
+        return value.map(({ notificationId, ...reminder }) => reminder);
+    }
+    return value ?? null;
+}
+
+/**
+ * Field-level changes between two versions of a collection
+ */
+export function diffForSync<T extends { id: string }>(
+    entity: SyncEntity,
+    prev: T[],
+    next: T[],
+    changedAt: string,
+    deviceId: string
+): SyncChange[] {
+    const prevById = new Map(prev.map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+    const changes: SyncChange[] = [];
+
+    for (const item of next) {
+        const before = prevById.get(item.id) as Record<string, unknown> | undefined;
+        if (before === item) continue;
+
+        const after = item as Record<string, unknown>;
+        const fields = new Set([...Object.keys(before || {}), ...Object.keys(after)]);
+        fields.delete("id");
+        for (const field of fields) {
+            const value = syncValue(entity, field, after[field]);
+            if (before && JSON.stringify(syncValue(entity, field, before[field])) === JSON.stringify(value)) {
+                continue;
+            }
+            if (!before && value === null) continue;
+            changes.push({ entity, id: item.id, field, value, changedAt, deviceId });
+        }
+    }
+    for (const item of prev) {
+        if (!nextIds.has(item.id)) {
+            changes.push({ entity, id: item.id, field: DELETED_FIELD, value: true, changedAt, deviceId });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Queue the difference between two versions of a collection, if sync is on
+ */
+export async function recordSyncChanges<T extends { id: string }>(
+    entity: SyncEntity,
+    prev: T[],
+    next: T[]
+): Promise<void> {
+    const config = await loadSyncConfig();
+    if (!config.enabled) return;
+    await appendSyncChanges(diffForSync(entity, prev, next, new Date().toISOString(), config.deviceId));
+}
+
+/**
+ * Queue every field of every todo and list, dated by when each was last
+ * changed, so turning sync on shares what this device already has
+ */
+export async function seedSyncLog(todos: Todo[], lists: TodoList[], deviceId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await appendSyncChanges([
+        ...todos.flatMap((todo) =>
+            diffForSync("todo", [], [todo], todo.updatedAt || todo.createdAt || now, deviceId)
+        ),
+        ...lists.flatMap((list) => diffForSync("list", [], [list], list.createdAt || now, deviceId)),
+    ]);
+}
+
+const isNewer = (change: FieldVersion, current: FieldVersion | undefined) =>
+    !current ||
+    change.changedAt > current.changedAt ||
+    (change.changedAt === current.changedAt && change.deviceId > current.deviceId);
+
+export interface SyncMerge {
+    // Winning changes per entity id, oldest first
+    fields: Map<string, SyncChange[]>;
+    deletedIds: string[];
+    winners: SyncChange[];
+}
+
+/**
+ * Pick the remote changes that are newer than what this device has, field
+ * by field. A deletion wins over any later edit of the same entity. Nothing
+ * is applied here: applySyncMerge writes the winners into the collection as
+ * it is at that moment.
+ */
+export function mergeRemoteChanges(
+    entity: SyncEntity,
+    changes: SyncChange[],
+    versions: Map<string, FieldVersion>
+): SyncMerge {
+    const fields = new Map<string, SyncChange[]>();
+    const deleted = new Set<string>();
+    const winners: SyncChange[] = [];
+
+    for (const change of changes) {
+        if (change.entity !== entity) continue;
+
+        if (versions.has(syncFieldKey(entity, change.id, DELETED_FIELD))) continue;
+        const key = syncFieldKey(entity, change.id, change.field);
+        if (!isNewer(change, versions.get(key))) continue;
+        versions.set(key, change);
+        winners.push(change);
+
+        if (change.field === DELETED_FIELD) {
+            deleted.add(change.id);
+            fields.delete(change.id);
+            continue;
+        }
+        fields.set(change.id, [...(fields.get(change.id) || []), change]);
+    }
+
+    return { fields, deletedIds: Array.from(deleted), winners };
+}
+
+export interface SyncMergeResult<T> {
+    next: T[];
+    changedIds: string[];
+    applied: SyncChange[];
+}
+
+/**
+ * Write the winning fields of a merge into `current`, the collection as it
+ * is now. A field that changed on this device since `base` was read keeps the
+ * local value: that edit is newer than the pull and already queued for the
+ * push. Entities created elsewhere start from `create` and go to the top.
+ * Returns only the changes that were applied, to be stored as field versions.
+ */
+export function applySyncMerge<T extends { id: string }>(
+    entity: SyncEntity,
+    current: T[],
+    base: Map<string, T>,
+    merge: SyncMerge,
+    create: (id: string) => T
+): SyncMergeResult<T> {
+    const currentById = new Map(current.map((item) => [item.id, item]));
+    const deleted = new Set(merge.deletedIds);
+    const applied = merge.winners.filter((change) => change.field === DELETED_FIELD);
+    const changed = new Map<string, T>();
+
+    for (const [id, changes] of merge.fields) {
+        const local = currentById.get(id) as Record<string, unknown> | undefined;
+        const before = base.get(id) as Record<string, unknown> | undefined;
+        // Removed here while the pull was under way
+        if (!local && before) continue;
+
+        const item: Record<string, unknown> = { ...(local || create(id)) };
+        let touched = false;
+        for (const change of changes) {
+            if (local && before) {
+                const localValue = JSON.stringify(syncValue(entity, change.field, local[change.field]));
+                const baseValue = JSON.stringify(syncValue(entity, change.field, before[change.field]));
+                if (localValue !== baseValue) continue;
+            }
+            if (change.value === null || change.value === undefined) {
+                delete item[change.field];
+            } else {
+                item[change.field] = change.value;
+            }
+            applied.push(change);
+            touched = true;
+        }
+        if (touched) changed.set(id, item as T);
+    }
+
+    return {
+        next: [
+            ...Array.from(changed.values()).filter((item) => !currentById.has(item.id)),
+            ...current.filter((item) => !deleted.has(item.id)).map((item) => changed.get(item.id) || item),
+        ],
+        changedIds: Array.from(changed.keys()),
+        applied,
+    };
+}
+
+const isSyncChange = (value: unknown): value is SyncChange => {
+    if (typeof value !== "object" || value === null) return false;
+    const change = value as Record<string, unknown>;
+    return (
+        (change.entity === "todo" || change.entity === "list") &&
+        typeof change.id === "string" &&
+        typeof change.field === "string" &&
+        typeof change.changedAt === "string" &&
+        typeof change.deviceId === "string"
+    );
+};
+
+interface SyncResponse {
+    changes?: unknown;
+    cursor?: unknown;
+}
+
+async function request(url: string, syncKey: string, init?: RequestInit): Promise<SyncResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, {
+            ...init,
+            headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+                Authorization: `Bearer ${syncKey}`,
+            },
+            signal: controller.signal,
+        });
+        if (response.status === 401 || response.status === 403) {
+            throw new SyncError("The sync server did not accept this sync key");
+        }
+        if (!response.ok) {
+            throw new SyncError(`The sync server answered ${response.status}`);
+        }
+        return await response.json();
+    } catch (e) {
+        if (e instanceof SyncError) throw e;
+        throw new SyncError("Could not reach the sync server");
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/**
+ * Talk to a sync server over HTTP. The user id namespaces the change log and
+ * the sync key proves the device may read and write it.
+ */
+export function createHttpTransport(endpoint: string, userId: string, syncKey: string): SyncTransport {
+    const base = `${endpoint.replace(/\/+$/, "")}/users/${encodeURIComponent(userId)}/changes`;
+    return {
+        push: async (deviceId, changes) => {
+            await request(base, syncKey, { method: "POST", body: JSON.stringify({ deviceId, changes }) });
+        },
+        pull: async (cursor) => {
+            const body = await request(cursor ? `${base}?since=${encodeURIComponent(cursor)}` : base, syncKey);
+            if (!Array.isArray(body.changes) || !body.changes.every(isSyncChange)) {
+                throw new SyncError("The sync server sent changes in an unexpected format");
+            }
+            return { changes: body.changes, cursor: body.cursor != null ? String(body.cursor) : cursor };
+        },
+    };
+}
+
+/**
+ * An in-memory server with the same behavior, for tests and local development.
+ * Transports created over the same log see each other's changes.
+ */
+export function createMemoryTransport(log: SyncChange[] = []): SyncTransport {
+    return {
+        push: async (deviceId, changes) => {
+            log.push(...changes.map((change) => ({ ...change, deviceId })));
+        },
+        pull: async (cursor) => ({
+            changes: log.slice(cursor ? parseInt(cursor, 10) : 0),
+            cursor: String(log.length),
+        }),
+    };
+}
+
+export interface SyncTarget {
+    // Each applies a merge to the current data and returns the changes it applied
+    applyTodos: (merge: SyncMerge) => Promise<SyncChange[]>;
+    applyLists: (merge: SyncMerge) => Promise<SyncChange[]>;
+}
+
+/**
+ * Pull, merge and push once. Returns the config to store for the next run.
+ */
+export async function runSync(transport: SyncTransport, config: SyncConfig, target: SyncTarget): Promise<SyncConfig> {
+    const pulled = await transport.pull(config.cursor);
+    const remote = pulled.changes.filter((c) => c.deviceId !== config.deviceId);
+
+    if (remote.length > 0) {
+        const versions = await loadSyncFieldVersions(remote);
+        const lists = mergeRemoteChanges("list", remote, versions);
+        const todos = mergeRemoteChanges("todo", remote, versions);
+
+        // Lists first so synced tasks never point at a project this device lacks
+        const applied = [
+            ...(lists.winners.length > 0 ? await target.applyLists(lists) : []),
+            ...(todos.winners.length > 0 ? await target.applyTodos(todos) : []),
+        ];
+        await saveSyncFieldVersions(applied);
+    }
+
+    const pending = await loadPendingSyncChanges();
+    if (pending.changes.length > 0) {
+        await transport.push(config.deviceId, pending.changes);
+        await deleteSyncChanges(pending.lastSeq);
+    }
+
+    return { ...config, cursor: pulled.cursor, lastSyncedAt: new Date().toISOString() };
+}
+
+/**
+ * One-line summary of the sync state
+ */
+export function describeSyncStatus(status: SyncStatus): string {
+    switch (status.state) {
+        case "off":
+            return "Off";
+        case "syncing":
+            return "Syncing…";
+        case "error":
+            return status.error || "Sync failed";
+        default:
+            return status.lastSyncedAt
+                ? `Synced ${new Date(status.lastSyncedAt).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    hour: "numeric",
+                    minute: "2-digit",
+                })}`
+                : "Waiting for first sync";
+    }
+}
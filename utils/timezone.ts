@@ -0,0 +1,192 @@
+import { Reminder, Todo } from "@/types/todo";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * The IANA time zone the device is in
+ */
+export function getDeviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Whether a string names a time zone this device knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The wall-clock time of an instant in a time zone, encoded as if it were UTC.
+ * Differences between two wall times are calendar differences, unaffected by DST.
+ */
+export function getWallTime(date: Date, timeZone: string): number {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+    }
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getMilliseconds());
+}
+
+/**
+ * The instant a wall-clock time (as from getWallTime) happens in a time zone.
+ * Times skipped by a DST change move forward by the size of the gap; repeated
+ * times resolve to the first of the two.
+ */
+export function fromWallTime(wallTime: number, timeZone: string): Date {
+    // The offsets a day either side cover any DST change around the wall time
+    const offsets = [-DAY_MS, DAY_MS].map(
+        (shift) => getWallTime(new Date(wallTime + shift), timeZone) - (wallTime + shift)
+    );
+    for (const offset of [...new Set(offsets)].sort((a, b) => b - a)) {
+        const candidate = new Date(wallTime - offset);
+        if (getWallTime(candidate, timeZone) === wallTime) return candidate;
+    }
+    return new Date(wallTime - Math.min(...offsets));
+}
+
+/**
+ * A device-local Date that shows the wall-clock time of `date` in `timeZone`,
+ * so calendar math can use the regular local Date methods. Undo with
+ * fromZonedLocal.
+ */
+export function toZonedLocal(date: Date, timeZone: string): Date {
+    if (timeZone === getDeviceTimeZone()) return new Date(date);
+    const wall = new Date(getWallTime(date, timeZone));
+    return new Date(
+        wall.getUTCFullYear(),
+        wall.getUTCMonth(),
+        wall.getUTCDate(),
+        wall.getUTCHours(),
+        wall.getUTCMinutes(),
+        wall.getUTCSeconds(),
+        wall.getUTCMilliseconds()
+    );
+}
+
+/**
+ * The instant a device-local Date from toZonedLocal stands for in `timeZone`
+ */
+export function fromZonedLocal(local: Date, timeZone: string): Date {
+    if (timeZone === getDeviceTimeZone()) return new Date(local);
+    return fromWallTime(
+        Date.UTC(
+            local.getFullYear(),
+            local.getMonth(),
+            local.getDate(),
+            local.getHours(),
+            local.getMinutes(),
+            local.getSeconds(),
+            local.getMilliseconds()
+        ),
+        timeZone
+    );
+}
+
+/**
+ * The end of the calendar day picked in `date` (device-local fields), in `timeZone`
+ */
+export function endOfDayInTimeZone(date: Date, timeZone: string): Date {
+    const local = new Date(date);
+    local.setHours(23, 59, 59, 999);
+    return fromZonedLocal(local, timeZone);
+}
+
+/**
+ * Move `date` by the wall-clock distance between two anchors in `timeZone`.
+ * A reminder at 09:00 the day before its due date stays at 09:00 the day
+ * before the next one, even across a DST change.
+ */
+export function shiftWallTime(date: Date, fromAnchor: Date, toAnchor: Date, timeZone: string): Date {
+    const distance = getWallTime(toAnchor, timeZone) - getWallTime(fromAnchor, timeZone);
+    return fromWallTime(getWallTime(date, timeZone) + distance, timeZone);
+}
+
+/**
+ * Keep an instant's wall-clock time while moving it from one time zone to another
+ */
+export function convertWallTime(date: Date, fromZone: string, toZone: string): Date {
+    if (fromZone === toZone) return new Date(date);
+    return fromWallTime(getWallTime(date, fromZone), toZone);
+}
+
+/**
+ * The time zone a task's dates are calculated in: its own when anchored,
+ * otherwise the device's
+ */
+export function getTodoTimeZone(todo: Todo): string {
+    return todo.timeMode === "anchored" && todo.timeZone && isValidTimeZone(todo.timeZone)
+        ? todo.timeZone
+        : getDeviceTimeZone();
+}
+
+/**
+ * Whether a floating task was planned in another time zone than `timeZone`
+ * and needs its times moved. Anchored tasks never do.
+ */
+export function needsTimeZoneReplan(todo: Todo, timeZone: string, fallbackZone: string): boolean {
+    if (todo.timeMode === "anchored" || todo.archivedAt) return false;
+    if (!todo.dueDate && !todo.reminders?.length) return false;
+    const plannedIn = todo.timeZone && isValidTimeZone(todo.timeZone) ? todo.timeZone : fallbackZone;
+    return plannedIn !== timeZone;
+}
+
+/**
+ * Move a floating task's due date, reminders and schedule to the same local
+ * times in another time zone. Reminders lose their notification ids; callers
+ * cancel the old notifications and schedule new ones.
+ */
+export function replanTodoTimeZone(todo: Todo, timeZone: string, fallbackZone: string): Todo {
+    const plannedIn = todo.timeZone && isValidTimeZone(todo.timeZone) ? todo.timeZone : fallbackZone;
+    const convert = (value: string) => convertWallTime(new Date(value), plannedIn, timeZone).toISOString();
+    const convertReminders = (reminders: Reminder[]) =>
+        reminders.map(({ notificationId: _notificationId, ...reminder }) => ({ ...reminder, date: convert(reminder.date) }));
+
+    const { recurrence, seriesTemplate } = todo;
+    return {
+        ...todo,
+        timeZone,
+        ...(todo.dueDate && { dueDate: convert(todo.dueDate) }),
+        ...(todo.occurrenceDate && { occurrenceDate: convert(todo.occurrenceDate) }),
+        ...(todo.reminders && { reminders: convertReminders(todo.reminders) }),
+        ...(recurrence && {
+            recurrence: {
+                ...recurrence,
+                ...(recurrence.startDate && { startDate: convert(recurrence.startDate) }),
+                ...(recurrence.endDate && { endDate: convert(recurrence.endDate) }),
+            },
+        }),
+        ...(seriesTemplate && {
+            seriesTemplate: {
+                ...seriesTemplate,
+                ...(seriesTemplate.dueDate && { dueDate: convert(seriesTemplate.dueDate) }),
+                ...(seriesTemplate.reminders && { reminders: convertReminders(seriesTemplate.reminders) }),
+            },
+        }),
+    };
+}
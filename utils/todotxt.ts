@@ -0,0 +1,500 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Priority, Todo } from "@/types/todo";
+import { TodoList, DEFAULT_LIST_ID } from "@/types/todoList";
+import { RecurrencePattern } from "@/types/recurrence";
+
+const SYNC_STATE_KEY = "@neo_brutal_todotxt_sync_v1";
+const CARD_COLORS_COUNT = 6;
+
+/**
+ * What the file looked like after the last export or sync. Lines are keyed by
+ * todo id so a re-read can tell which side changed.
+ */
+export interface TodoTxtSyncState {
+    syncedAt: string;
+    lines: Record<string, string>;
+    // Lines without an id that became tasks, by raw line, until the file is written back
+    added?: Record<string, string[]>;
+}
+
+export interface TodoTxtLine {
+    raw: string;
+    id?: string;
+    completed: boolean;
+    completedDate?: string;
+    priority?: Priority;
+    text: string;
+    project?: string;
+    dueDate?: string;
+    recurrence?: RecurrencePattern;
+}
+
+// The parts of a line that map to a task field
+export type TodoTxtField = "text" | "priority" | "project" | "dueDate" | "recurrence" | "completed";
+
+export interface TodoTxtDiff {
+    added: TodoTxtLine[];
+    updated: { todo: Todo; line: TodoTxtLine; changed: TodoTxtField[] }[];
+    removed: Todo[];
+    unchanged: number;
+    newProjects: string[];
+    warnings: string[];
+}
+
+// What a rec: value describes; a task's other recurrence settings survive an edit to it
+const RULE_FIELDS: (keyof RecurrencePattern)[] = [
+    "type",
+    "interval",
+    "daysOfWeek",
+    "monthlyBy",
+    "dayOfMonth",
+    "weekOfMonth",
+    "weekday",
+    "month",
+    "repeatFrom",
+];
+
+const PRIORITY_LETTERS: Record<Priority, string | null> = {
+    high: "A",
+    medium: "B",
+    low: "C",
+    none: null,
+};
+
+let idCounter = 0;
+const generateId = () => `${Date.now()}-${idCounter++}-${Math.random().toString(36).slice(2, 8)}`;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+function formatDate(iso: string): string {
+    const date = new Date(iso);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * YYYY-MM-DD to the end of that local day
+ */
+function parseDate(value: string): string | undefined {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return undefined;
+    const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    date.setHours(23, 59, 59, 999);
+    return date.toISOString();
+}
+
+// Project tags cannot contain spaces
+const projectTag = (name: string) => name.trim().replace(/\s+/g, "_");
+const projectKey = (name: string) => projectTag(name).toLowerCase();
+
+/**
+ * Parse a rec: value ("1w", "+2d", "1b", "1y") into a RecurrencePattern.
+ * Without the "+" prefix the next date is counted from completion.
+ */
+function parseRec(value: string): RecurrencePattern | null {
+    const match = value.match(/^(\+?)(\d*)([dwmyb])$/i);
+    if (!match) return null;
+    const pattern = parseRecUnit(match[3], Math.max(1, parseInt(match[2] || "1", 10)));
+    return pattern && !match[1] ? { ...pattern, repeatFrom: "completion" } : pattern;
+}
+
+function parseRecUnit(unit: string, count: number): RecurrencePattern | null {
+
+    switch (unit.toLowerCase()) {
+        case "d":
+            return { type: "daily", interval: count };
+        case "w":
+            return { type: "weekly", interval: count };
+        case "m":
+            return { type: "monthly", interval: count };
+        case "y":
+            return { type: "yearly", interval: count };
+        case "b":
+            // Business days; only "every business day" maps cleanly
+            return count === 1 ? { type: "weekly", interval: 1, daysOfWeek: [1, 2, 3, 4, 5] } : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Format a RecurrencePattern as a rec: value. The "+" prefix means the next
+ * date is counted from the due date rather than from completion.
+ */
+function formatRec(pattern: RecurrencePattern): string | null {
+    const rec = formatRecUnit(pattern);
+    return rec && pattern.repeatFrom === "completion" ? rec.slice(1) : rec;
+}
+
+function formatRecUnit(pattern: RecurrencePattern): string | null {
+    const interval = pattern.interval || 1;
+    const days = pattern.daysOfWeek || [];
+    switch (pattern.type) {
+        case "daily":
+            return `+${interval}d`;
+        case "weekly":
+            if (interval === 1 && days.length === 5 && [1, 2, 3, 4, 5].every((d) => days.includes(d))) {
+                return "+1b";
+            }
+            return `+${interval}w`;
+        case "monthly":
+            return interval % 12 === 0 ? `+${interval / 12}y` : `+${interval}m`;
+        case "yearly":
+            return `+${interval}y`;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse one todo.txt line
+ */
+export function parseTodoTxtLine(raw: string, warnings: string[] = []): TodoTxtLine {
+    let rest = raw.trim();
+    const line: TodoTxtLine = { raw: rest, completed: false, text: "" };
+
+    const completion = rest.match(/^x\s+(?:(\d{4}-\d{2}-\d{2})\s+)?/);
+    if (completion) {
+        line.completed = true;
+        line.completedDate = completion[1] ? parseDate(completion[1]) : undefined;
+        rest = rest.slice(completion[0].length);
+    }
+
+    const priority = rest.match(/^\(([A-Z])\)\s+/);
+    if (priority) {
+        const letter = priority[1];
+        line.priority = letter === "A" ? "high" : letter === "B" ? "medium" : "low";
+        rest = rest.slice(priority[0].length);
+    }
+
+    // Creation date carries nothing the app stores
+    rest = rest.replace(/^\d{4}-\d{2}-\d{2}\s+/, "");
+
+    const words: string[] = [];
+    let projectIndex = -1;
+    for (const word of rest.split(/\s+/)) {
+        const tag = word.match(/^([a-zA-Z]+):(\S+)$/);
+        if (tag && tag[1] === "due") {
+            line.dueDate = parseDate(tag[2]);
+            if (!line.dueDate) warnings.push(`Could not read due date "${tag[2]}"`);
+        } else if (tag && tag[1] === "rec") {
+            line.recurrence = parseRec(tag[2]) || undefined;
+            if (!line.recurrence) warnings.push(`Could not map recurrence "rec:${tag[2]}"`);
+        } else if (tag && tag[1] === "id") {
+            line.id = tag[2];
+        } else if (tag && tag[1] === "pri" && line.completed) {
+            // Completed lines keep their priority as pri:X
+            line.priority = tag[2] === "A" ? "high" : tag[2] === "B" ? "medium" : "low";
+        } else {
+            if (word.startsWith("+") && word.length > 1) projectIndex = words.length;
+            words.push(word);
+        }
+    }
+    // The project tag is written after the text, so earlier +words belong to the text
+    if (projectIndex >= 0) {
+        line.project = words[projectIndex].slice(1).replace(/_/g, " ");
+        words.splice(projectIndex, 1);
+    }
+    line.text = words.join(" ").trim();
+
+    return line;
+}
+
+/**
+ * Format a todo as a todo.txt line
+ */
+export function formatTodoTxtLine(todo: Todo, listName?: string): string {
+    const parts: string[] = [];
+    const letter = todo.priority ? PRIORITY_LETTERS[todo.priority] : null;
+
+    if (todo.archivedAt) {
+        parts.push("x", formatDate(todo.archivedAt));
+    } else if (letter) {
+        parts.push(`(${letter})`);
+    }
+
+    parts.push(todo.text.replace(/\s+/g, " ").trim());
+    if (listName) {
+        parts.push(`+${projectTag(listName)}`);
+    }
+    if (todo.dueDate) {
+        parts.push(`due:${formatDate(todo.dueDate)}`);
+    }
+    const rec = todo.recurrence ? formatRec(todo.recurrence) : null;
+    if (rec) {
+        parts.push(`rec:${rec}`);
+    }
+    if (todo.archivedAt && letter) {
+        parts.push(`pri:${letter}`);
+    }
+    parts.push(`id:${todo.id}`);
+
+    return parts.join(" ");
+}
+
+/**
+ * Format a todo with its project tag. Inbox tasks get none unless their text
+ * has +words of its own, which would otherwise read as the project.
+ */
+function formatWithProject(todo: Todo, listNames: Map<string, string>): string {
+    const listId = todo.listId || DEFAULT_LIST_ID;
+    const needsTag = listId !== DEFAULT_LIST_ID || /(^|\s)\+\S/.test(todo.text);
+    return formatTodoTxtLine(todo, needsTag ? listNames.get(listId) : undefined);
+}
+
+/**
+ * Build a todo.txt file for the given todos
+ */
+export function buildTodoTxt(todos: Todo[], lists: TodoList[]): { text: string; lines: Record<string, string> } {
+    const listNames = new Map(lists.map((l) => [l.id, l.name]));
+    const lines: Record<string, string> = {};
+
+    // Open tasks first, completed ones at the bottom like most todo.txt clients
+    const ordered = [...todos.filter((t) => !t.archivedAt), ...todos.filter((t) => t.archivedAt)];
+    for (const todo of ordered) {
+        lines[todo.id] = formatWithProject(todo, listNames);
+    }
+
+    return { text: Object.values(lines).join("\n") + "\n", lines };
+}
+
+/**
+ * The fields whose todo.txt value differs between two versions of a line
+ */
+function changedFields(line: TodoTxtLine, base: TodoTxtLine): TodoTxtField[] {
+    const rec = (l: TodoTxtLine) => (l.recurrence ? formatRec(l.recurrence) : null);
+    const changed: TodoTxtField[] = [];
+    if (line.text !== base.text) changed.push("text");
+    if (line.priority !== base.priority) changed.push("priority");
+    if (projectKey(line.project || "") !== projectKey(base.project || "")) changed.push("project");
+    if (line.dueDate !== base.dueDate) changed.push("dueDate");
+    if (rec(line) !== rec(base)) changed.push("recurrence");
+    if (line.completed !== base.completed) changed.push("completed");
+    return changed;
+}
+
+/**
+ * Compare a todo.txt file with the app. Only the values that changed in the
+ * file since we last wrote it are taken, so local edits to everything else
+ * survive.
+ */
+export function diffTodoTxt(
+    text: string,
+    todos: Todo[],
+    lists: TodoList[],
+    state: TodoTxtSyncState | null
+): TodoTxtDiff {
+    const warnings: string[] = [];
+    const byId = new Map(todos.map((t) => [t.id, t]));
+    const listNames = new Map(lists.map((l) => [l.id, l.name]));
+    const addedIds = new Map(Object.entries(state?.added || {}).map(([raw, ids]) => [raw, [...ids]]));
+    const listKeys = new Set(lists.map((l) => projectKey(l.name)));
+    const seenIds = new Set<string>();
+    const newProjects = new Map<string, string>();
+    const diff: TodoTxtDiff = { added: [], updated: [], removed: [], unchanged: 0, newProjects: [], warnings };
+
+    for (const raw of text.split(/\r?\n/)) {
+        if (!raw.trim()) continue;
+        const line = parseTodoTxtLine(raw, warnings);
+        if (!line.text) continue;
+
+        if (line.project && !listKeys.has(projectKey(line.project))) {
+            newProjects.set(projectKey(line.project), line.project);
+        }
+
+        if (!line.id) {
+            // Already made into a task by an earlier sync whose result was never saved
+            const id = addedIds.get(line.raw)?.shift();
+            if (id) {
+                seenIds.add(id);
+                diff.unchanged++;
+            } else {
+                diff.added.push(line);
+            }
+            continue;
+        }
+        seenIds.add(line.id);
+
+        const todo = byId.get(line.id);
+        const written = state?.lines[line.id];
+        if (written === line.raw) {
+            diff.unchanged++;
+        } else if (todo) {
+            const changed = changedFields(line, parseTodoTxtLine(written ?? formatWithProject(todo, listNames)));
+            if (changed.length > 0) {
+                diff.updated.push({ todo, line, changed });
+            } else {
+                diff.unchanged++;
+            }
+        } else if (written) {
+            warnings.push(`"${line.text}" was deleted on this device and was not re-added`);
+        } else {
+            // An id we never wrote: treat as a new task
+            diff.added.push(line);
+        }
+    }
+
+    // Lines we wrote or took last time that are gone from the file were deleted there
+    if (state) {
+        for (const id of [...Object.keys(state.lines), ...Object.values(state.added || {}).flat()]) {
+            const todo = byId.get(id);
+            if (!seenIds.has(id) && todo) {
+                diff.removed.push(todo);
+            }
+        }
+    }
+
+    diff.newProjects = Array.from(newProjects.values());
+    return diff;
+}
+
+/**
+ * The calendar day of `day` at the local time of day of `date`
+ */
+function withTimeOf(day: string, date: string): string {
+    const next = new Date(day);
+    const time = new Date(date);
+    next.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+    return next.toISOString();
+}
+
+/**
+ * Put the rule a rec: value describes into a pattern, keeping its other
+ * settings. A rule of the same kind keeps the details rec: cannot express,
+ * such as the weekday of a monthly rule.
+ */
+function withRule(pattern: RecurrencePattern | undefined, rule: RecurrencePattern): RecurrencePattern {
+    const merged = { ...pattern, ...rule };
+    if (pattern?.type === rule.type && formatRec(merged) === formatRec(rule)) {
+        return merged;
+    }
+
+    const kept: Partial<RecurrencePattern> = { ...pattern };
+    for (const field of RULE_FIELDS) {
+        delete kept[field];
+    }
+    return { ...kept, ...rule };
+}
+
+/**
+ * Apply a diff. Returns the new todo collection, the lists to create and the
+ * new tasks by the raw line they came from. Removed tasks stay in the
+ * collection for the caller to move to the trash. Completing a recurring line
+ * does not spawn the next instance: todo.txt clients write the next
+ * occurrence into the file themselves.
+ */
+export function applyTodoTxtDiff(
+    diff: TodoTxtDiff,
+    todos: Todo[],
+    lists: TodoList[]
+): { todos: Todo[]; newLists: TodoList[]; added: Record<string, string[]> } {
+    const newLists: TodoList[] = diff.newProjects.map((name) => ({
+        id: generateId(),
+        name,
+        colorVariant: Math.floor(Math.random() * CARD_COLORS_COUNT),
+        createdAt: new Date().toISOString(),
+    }));
+    const listIdByKey = new Map([...lists, ...newLists].map((l) => [projectKey(l.name), l.id]));
+    const resolveListId = (project?: string) =>
+        (project && listIdByKey.get(projectKey(project))) || DEFAULT_LIST_ID;
+
+    const lineFields = (line: TodoTxtLine): Partial<Todo> => ({
+        text: line.text,
+        priority: line.priority,
+        listId: resolveListId(line.project),
+        dueDate: line.dueDate,
+        recurrence: line.recurrence,
+        isRecurring: !!line.recurrence,
+        completed: line.completed,
+    });
+
+    const now = new Date().toISOString();
+    const updates = new Map(diff.updated.map((update) => [update.todo.id, update]));
+
+    const result = todos.map((todo) => {
+        const update = updates.get(todo.id);
+        if (!update) return todo;
+
+        // The todo.txt values are coarser than the task's, so only those edited in the file are taken
+        const { line, changed } = update;
+        const updated: Todo = { ...todo, updatedAt: now };
+        if (changed.includes("text")) updated.text = line.text;
+        if (changed.includes("priority")) updated.priority = line.priority;
+        if (changed.includes("project")) updated.listId = resolveListId(line.project);
+        if (changed.includes("dueDate")) {
+            updated.dueDate = line.dueDate && todo.dueDate ? withTimeOf(line.dueDate, todo.dueDate) : line.dueDate;
+        }
+        if (changed.includes("recurrence")) {
+            updated.recurrence = line.recurrence && withRule(todo.recurrence, line.recurrence);
+            updated.isRecurring = !!line.recurrence;
+        }
+        if (changed.includes("completed")) {
+            updated.completed = line.completed;
+            if (line.completed && !todo.archivedAt) {
+                updated.archivedAt = line.completedDate || now;
+                updated.completedAt = updated.archivedAt;
+            } else if (!line.completed && todo.archivedAt) {
+                updated.archivedAt = undefined;
+                updated.completedAt = undefined;
+            }
+        }
+        return updated;
+    });
+
+    const added: Todo[] = diff.added.map((line) => ({
+        id: generateId(),
+        colorVariant: Math.floor(Math.random() * CARD_COLORS_COUNT),
+        ...lineFields(line),
+        text: line.text,
+        completed: line.completed,
+        archivedAt: line.completed ? line.completedDate || now : undefined,
+        createdAt: now,
+        updatedAt: now,
+    }));
+
+    const addedIds: Record<string, string[]> = {};
+    diff.added.forEach((line, index) => {
+        (addedIds[line.raw] ||= []).push(added[index].id);
+    });
+
+    return { todos: [...added, ...result], newLists, added: addedIds };
+}
+
+/**
+ * The lines of a file that carry an id, keyed by it
+ */
+export function readTodoTxtLines(text: string): Record<string, string> {
+    const lines: Record<string, string> = {};
+    for (const raw of text.split(/\r?\n/)) {
+        const line = parseTodoTxtLine(raw);
+        if (line.id) lines[line.id] = line.raw;
+    }
+    return lines;
+}
+
+/**
+ * Read the state saved by the last export or sync
+ */
+export async function loadTodoTxtSyncState(): Promise<TodoTxtSyncState | null> {
+    try {
+        const stored = await AsyncStorage.getItem(SYNC_STATE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+        console.error("Error loading todo.txt sync state:", error);
+        return null;
+    }
+}
+
+/**
+ * Remember the lines just written so the next sync can tell who changed what.
+ * `added` holds the new tasks of a sync until a file with their ids is written.
+ */
+export async function saveTodoTxtSyncState(
+    lines: Record<string, string>,
+    added?: Record<string, string[]>
+): Promise<void> {
+    const state: TodoTxtSyncState = { syncedAt: new Date().toISOString(), lines, added };
+    await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}